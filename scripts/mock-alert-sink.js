@@ -0,0 +1,101 @@
+/*
+  Lokale ontvanger voor alert e-mails en webhooks
+
+  Gebruik:
+    npm run mock:alerts
+
+  en zet in supabase/functions/.env (edge functions via `supabase functions serve`):
+    ALERT_EMAIL_ENDPOINT=http://host.docker.internal:4020/emails
+
+  Als webhook URL van een regel: http://host.docker.internal:4020/webhook
+
+  Omgevingsvariabelen:
+    MOCK_ALERT_SINK_PORT  poort (standaard 4020)
+
+  Endpoints:
+    POST /emails       zelfde body als de mail API: { from, to, subject, text }
+    POST /webhook      elke JSON body, ook onder een subpad (/webhook/team-a)
+    GET  /received     de laatst ontvangen e-mails en webhooks, nieuwste eerst
+    DELETE /received   lijst leegmaken
+*/
+
+import http from 'node:http';
+
+const PORT = Number(process.env.MOCK_ALERT_SINK_PORT || 4020);
+// Alleen de laatste berichten bewaren, de sink kan lang blijven draaien
+const MAX_RECEIVED = 100;
+
+/** @type {Array<{ type: 'email' | 'webhook', path: string, received_at: string, body: unknown }>} */
+const received = [];
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+    'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+async function readBody(req) {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  if (chunks.length === 0) return {};
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    return null;
+  }
+}
+
+function store(type, path, body) {
+  received.unshift({ type, path, received_at: new Date().toISOString(), body });
+  received.length = Math.min(received.length, MAX_RECEIVED);
+}
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') {
+    return send(res, 204);
+  }
+
+  const { pathname } = new URL(req.url || '/', `http://${req.headers.host}`);
+
+  if (pathname === '/received') {
+    if (req.method === 'GET') return send(res, 200, received);
+    if (req.method === 'DELETE') {
+      received.length = 0;
+      return send(res, 204);
+    }
+  }
+
+  if (req.method !== 'POST') {
+    return send(res, 404, { error: 'Not found' });
+  }
+
+  const body = await readBody(req);
+  if (body === null) {
+    return send(res, 400, { error: 'Invalid JSON body' });
+  }
+
+  if (pathname === '/emails') {
+    if (!Array.isArray(body.to) || body.to.length === 0 || typeof body.subject !== 'string') {
+      return send(res, 422, { error: 'to and subject are required' });
+    }
+    store('email', pathname, body);
+    console.log(`[mock-alerts] e-mail to ${body.to.join(', ')}: ${body.subject}\n${body.text ?? ''}\n`);
+    return send(res, 200, { id: `mock-${received.length}` });
+  }
+
+  if (pathname === '/webhook' || pathname.startsWith('/webhook/')) {
+    store('webhook', pathname, body);
+    console.log(`[mock-alerts] webhook ${pathname}: ${body.alert?.title ?? JSON.stringify(body)}`);
+    return send(res, 200, { ok: true });
+  }
+
+  send(res, 404, { error: `Unknown endpoint ${pathname}` });
+});
+
+server.listen(PORT, () => {
+  console.log(`[mock-alerts] listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,181 @@
+/*
+  Lokale mock van de HeyGen streaming API
+
+  Gebruik:
+    npm run mock:heygen
+
+  en zet in supabase/functions/.env (edge functions via `supabase functions serve`):
+    HEYGEN_API_BASE=http://host.docker.internal:4010/v1
+    HEYGEN_API_KEY=mock-key
+
+  Omgevingsvariabelen:
+    MOCK_HEYGEN_PORT      poort (standaard 4010)
+    MOCK_HEYGEN_API_KEY   verwachte Bearer token (standaard 'mock-key')
+    MOCK_HEYGEN_SESSIONS  komma-gescheiden session_ids die bij start actief zijn,
+                          zodat ze overeenkomen met sessies in Supabase
+
+  Naast de echte endpoints zijn er twee hulpendpoints om scenario's na te spelen:
+    POST /v1/mock.session.create  { session_id }   start een nieuwe actieve sessie
+    POST /v1/mock.session.fail    { session_id }   zet een sessie op status 'error'
+*/
+
+import http from 'node:http';
+import { randomUUID } from 'node:crypto';
+
+const PORT = Number(process.env.MOCK_HEYGEN_PORT || 4010);
+const API_KEY = process.env.MOCK_HEYGEN_API_KEY || 'mock-key';
+const BASE_PATH = '/v1';
+
+const AVATAR_REPLIES = [
+  'Goede vraag! Kun je iets meer vertellen over je promotietraject?',
+  'Dat hangt af van je promotor. Heb je dit al met hem of haar besproken?',
+  'Ik raad je aan om een planning te maken voor de komende drie maanden.',
+  'Dank je wel voor je vraag. Is er nog iets anders waarmee ik je kan helpen?',
+];
+
+/** @type {Map<string, { session_id: string, status: string, created_at: number, ended_at: number | null, messages: Array<{ id: string, role: 'user' | 'avatar', content: string, timestamp: number }> }>} */
+const sessions = new Map();
+
+function createSession(sessionId = randomUUID()) {
+  const session = {
+    session_id: sessionId,
+    status: 'active',
+    created_at: Math.floor(Date.now() / 1000),
+    ended_at: null,
+    messages: [],
+  };
+  sessions.set(sessionId, session);
+  return session;
+}
+
+function addMessage(session, role, content) {
+  const message = { id: randomUUID(), role, content, timestamp: Date.now() };
+  session.messages.push(message);
+  return message;
+}
+
+for (const sessionId of (process.env.MOCK_HEYGEN_SESSIONS || '').split(',').filter(Boolean)) {
+  const session = createSession(sessionId.trim());
+  addMessage(session, 'avatar', 'Hallo! Ik ben je PhD adviseur. Waar kan ik je mee helpen?');
+}
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+const ok = (res, data = null) => send(res, 200, { code: 100, message: 'success', data });
+const fail = (res, status, message) => send(res, status, { code: status, message, data: null });
+
+async function readBody(req) {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  if (chunks.length === 0) return {};
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    return null;
+  }
+}
+
+function summary(session) {
+  const { session_id, status, created_at, ended_at } = session;
+  return { session_id, status, created_at, ended_at };
+}
+
+const routes = {
+  'GET streaming.list': (_body, res) => {
+    const active = [...sessions.values()].filter((s) => s.status === 'active');
+    ok(res, { sessions: active.map(summary) });
+  },
+
+  'POST streaming.get': (body, res, session) => ok(res, summary(session)),
+
+  'POST streaming.stop': (_body, res, session) => {
+    if (session.status === 'active') {
+      session.status = 'completed';
+      session.ended_at = Math.floor(Date.now() / 1000);
+    }
+    ok(res);
+  },
+
+  'POST streaming.chat': (body, res, session) => {
+    if (session.status !== 'active') {
+      return fail(res, 400, 'Session is not active');
+    }
+    if (typeof body.message !== 'string' || !body.message.trim()) {
+      return fail(res, 400, 'message is required');
+    }
+    addMessage(session, 'user', body.message);
+    const reply = AVATAR_REPLIES[session.messages.length % AVATAR_REPLIES.length];
+    addMessage(session, 'avatar', reply);
+    ok(res, { task_id: randomUUID(), duration_ms: 1200 });
+  },
+
+  'POST streaming.messages': (body, res, session) => {
+    const since = typeof body.since === 'number' ? body.since : 0;
+    ok(res, { messages: session.messages.filter((m) => m.timestamp >= since) });
+  },
+
+  'POST mock.session.create': (body, res) => {
+    if (body.session_id && sessions.has(body.session_id)) {
+      return fail(res, 409, 'Session already exists');
+    }
+    ok(res, summary(createSession(body.session_id)));
+  },
+
+  'POST mock.session.fail': (_body, res, session) => {
+    session.status = 'error';
+    session.ended_at = Math.floor(Date.now() / 1000);
+    ok(res, summary(session));
+  },
+};
+
+// Routes die geen bestaande sessie nodig hebben
+const SESSIONLESS_ROUTES = new Set(['GET streaming.list', 'POST mock.session.create']);
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') {
+    return send(res, 204);
+  }
+
+  const url = new URL(req.url || '/', `http://${req.headers.host}`);
+  if (!url.pathname.startsWith(`${BASE_PATH}/`)) {
+    return fail(res, 404, 'Not found');
+  }
+
+  if (req.headers.authorization !== `Bearer ${API_KEY}`) {
+    return fail(res, 401, 'Invalid API key');
+  }
+
+  const key = `${req.method} ${url.pathname.slice(BASE_PATH.length + 1)}`;
+  const handler = routes[key];
+  if (!handler) {
+    return fail(res, 404, `Unknown endpoint ${key}`);
+  }
+
+  const body = await readBody(req);
+  if (body === null) {
+    return fail(res, 400, 'Invalid JSON body');
+  }
+
+  let session;
+  if (!SESSIONLESS_ROUTES.has(key)) {
+    session = sessions.get(body.session_id);
+    if (!session) {
+      return fail(res, 404, 'Session not found');
+    }
+  }
+
+  console.log(`[mock-heygen] ${key}${session ? ` ${session.session_id}` : ''}`);
+  handler(body, res, session);
+});
+
+server.listen(PORT, () => {
+  console.log(`[mock-heygen] listening on http://localhost:${PORT}${BASE_PATH}`);
+});
@@ -1,70 +1,32 @@
-import React, { useEffect, useState } from 'react';
+import { useEffect, useState } from 'react';
+import { Navigate, Route, Routes } from 'react-router-dom';
 import { Layout } from './components/Layout';
 import { DashboardStats } from './components/DashboardStats';
-import { SessionsList } from './components/SessionsList';
-import { SessionDetails } from './components/SessionDetails';
 import { supabase } from './lib/supabase';
-import { LayoutDashboard, MessageSquare } from 'lucide-react';
-import SessionStats from './components/SessionStats';
 import { UsersPage } from './pages/UsersPage';
-
-type View = 'dashboard' | 'sessions';
+import { AuditLogPage } from './pages/AuditLogPage';
+import { SettingsPage } from './pages/SettingsPage';
+import { SessionsPage } from './pages/SessionsPage';
+import { FlaggedAnswersPage } from './pages/FlaggedAnswersPage';
+import { LiveBoardPage } from './pages/LiveBoardPage';
+import { RoleProvider } from './components/RoleProvider';
+import { Sidebar } from './components/Sidebar';
 
 function App() {
-  const [selectedSessionId, setSelectedSessionId] = useState<string | null>(null);
-  const [currentView, setCurrentView] = useState<View>('sessions');
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
-  const [sessions, setSessions] = useState([]);
-  const [stats, setStats] = useState(null);
 
   useEffect(() => {
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
       setIsAuthenticated(!!session);
     });
 
     return () => subscription.unsubscribe();
   }, []);
 
-  useEffect(() => {
-    const fetchSessions = async () => {
-      const { data, error } = await supabase
-        .from('sessions')
-        .select('session_id, status, last_activity')
-        .order('start_time', { ascending: false });
-
-      if (error) {
-        console.error('Error fetching sessions:', error);
-      } else {
-        setSessions(data);
-      }
-    };
-
-    fetchSessions();
-  }, []);
-
-  useEffect(() => {
-    const fetchStats = async () => {
-      if (!selectedSessionId) return;
-
-      const { data, error } = await supabase
-        .from('session_stats')
-        .select('*')
-        .eq('session_id', selectedSessionId);
-
-      if (error) {
-        console.error('Error fetching stats:', error);
-      } else {
-        setStats(data[0]);
-      }
-    };
-
-    fetchStats();
-  }, [selectedSessionId]);
-
   const handleSignIn = async () => {
     if (!email || !password) {
       setError('Vul beide velden in');
@@ -141,67 +103,68 @@ function App() {
   }
 
   return (
-    <Layout>
-      <div className="flex h-screen bg-gray-50">
-        <nav className="w-16 bg-white border-r border-gray-200">
-          <div className="flex flex-col items-center py-4 space-y-4">
-            <button
-              onClick={() => setCurrentView('dashboard')}
-              className={`p-3 rounded-lg transition-colors ${
-                currentView === 'dashboard'
-                  ? 'bg-[#ce861b] text-white'
-                  : 'text-gray-600 hover:bg-gray-100'
-              }`}
-              title="Dashboard"
-            >
-              <LayoutDashboard className="w-6 h-6" />
-            </button>
-            <button
-              onClick={() => setCurrentView('sessions')}
-              className={`p-3 rounded-lg transition-colors ${
-                currentView === 'sessions'
-                  ? 'bg-[#ce861b] text-white'
-                  : 'text-gray-600 hover:bg-gray-100'
-              }`}
-              title="Sessies"
-            >
-              <MessageSquare className="w-6 h-6" />
-            </button>
-          </div>
-        </nav>
-
-        {currentView === 'dashboard' ? (
-          <main className="flex-1 overflow-y-auto p-6">
-            <DashboardStats />
-          </main>
-        ) : (
-          <div className="flex flex-1">
-            <aside className="w-96 bg-white border-r border-gray-200 overflow-y-auto">
-              <SessionsList
-                selectedSessionId={selectedSessionId}
-                onSessionSelect={setSelectedSessionId}
-              />
-            </aside>
-            <main className="flex-1 overflow-y-auto bg-gray-50">
-              {selectedSessionId ? (
-                <div className="flex">
-                  <div className="w-[65%] border-r border-gray-200">
-                    <SessionDetails sessionId={selectedSessionId} />
-                  </div>
-                  <div className="w-[35%] p-6">
-                    <SessionStats sessionId={selectedSessionId} />
-                  </div>
-                </div>
-              ) : (
-                <div className="h-full flex items-center justify-center text-gray-500">
-                  Selecteer een sessie om de details te bekijken
-                </div>
-              )}
-            </main>
-          </div>
-        )}
-      </div>
-    </Layout>
+    <RoleProvider>
+      <Layout>
+        <div className="flex h-screen bg-gray-50">
+          <Sidebar />
+
+          <Routes>
+            <Route path="/" element={<Navigate to="/sessions" replace />} />
+            <Route
+              path="/dashboard"
+              element={
+                <main className="flex-1 overflow-y-auto p-6">
+                  <DashboardStats />
+                </main>
+              }
+            />
+            <Route
+              path="/live"
+              element={
+                <main className="flex-1 overflow-y-auto p-6">
+                  <LiveBoardPage />
+                </main>
+              }
+            />
+            <Route path="/sessions" element={<SessionsPage />} />
+            <Route path="/sessions/:sessionId" element={<SessionsPage />} />
+            <Route
+              path="/flagged"
+              element={
+                <main className="flex-1 overflow-y-auto p-6">
+                  <FlaggedAnswersPage />
+                </main>
+              }
+            />
+            <Route
+              path="/users"
+              element={
+                <main className="flex-1 overflow-y-auto p-6">
+                  <UsersPage />
+                </main>
+              }
+            />
+            <Route
+              path="/audit"
+              element={
+                <main className="flex-1 overflow-y-auto p-6">
+                  <AuditLogPage />
+                </main>
+              }
+            />
+            <Route
+              path="/settings"
+              element={
+                <main className="flex-1 overflow-y-auto p-6">
+                  <SettingsPage />
+                </main>
+              }
+            />
+            <Route path="*" element={<Navigate to="/sessions" replace />} />
+          </Routes>
+        </div>
+      </Layout>
+    </RoleProvider>
   );
 }
 
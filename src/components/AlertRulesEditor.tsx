@@ -0,0 +1,474 @@
+import { useCallback, useEffect, useState, type FormEvent } from 'react';
+import { Plus, Send, Trash2 } from 'lucide-react';
+import {
+  deleteAlertRule,
+  fetchAlertRules,
+  saveAlertRule,
+  sendTestAlert,
+  type AlertRuleRow,
+} from '../lib/alerts';
+import {
+  ALERT_RULE_KIND_LABELS,
+  ALERT_SEVERITY_LABELS,
+  DEFAULT_ALERT_RULE_CONFIGS,
+  describeAlertRule,
+  matchAlertKeywords,
+  parseAlertRuleConfig,
+  toAlertRuleParams,
+  type AlertRuleConfig,
+} from '../lib/alertRules';
+import type { AlertChannelName, AlertRuleKind, AlertSeverity } from '../lib/database.types';
+
+const CHANNEL_LABELS: Record<AlertChannelName, string> = {
+  in_app: 'In de app',
+  email: 'E-mail',
+  webhook: 'Webhook',
+};
+
+const KINDS = Object.keys(ALERT_RULE_KIND_LABELS) as AlertRuleKind[];
+const SEVERITIES = Object.keys(ALERT_SEVERITY_LABELS) as AlertSeverity[];
+const CHANNELS = Object.keys(CHANNEL_LABELS) as AlertChannelName[];
+
+// Keywords en e-mailadressen worden als komma-gescheiden tekst bewerkt
+const parseList = (value: string) =>
+  value.split(',').map(item => item.trim()).filter(Boolean);
+
+interface RuleDraft {
+  name: string;
+  severity: AlertSeverity;
+  config: AlertRuleConfig;
+  keywords: string;
+  channels: AlertChannelName[];
+  email_recipients: string;
+  webhook_url: string;
+  is_active: boolean;
+}
+
+const toDraft = (rule: AlertRuleRow): RuleDraft => {
+  const config = parseAlertRuleConfig(rule.kind, rule.params);
+  return {
+    name: rule.name,
+    severity: rule.severity,
+    config,
+    keywords: config.kind === 'keyword' ? config.keywords.join(', ') : '',
+    channels: rule.channels,
+    email_recipients: rule.email_recipients.join(', '),
+    webhook_url: rule.webhook_url ?? '',
+    is_active: rule.is_active,
+  };
+};
+
+// De configuratie met de keywords uit het tekstveld
+const draftConfig = (draft: RuleDraft): AlertRuleConfig =>
+  draft.config.kind === 'keyword' ? { kind: 'keyword', keywords: parseList(draft.keywords) } : draft.config;
+
+function validateDraft(draft: RuleDraft) {
+  const config = draftConfig(draft);
+
+  if (!draft.name.trim()) return 'Een regel heeft een naam nodig';
+  if (config.kind === 'keyword' && config.keywords.length === 0) {
+    return 'Een regel met signaalwoorden heeft minstens één woord nodig';
+  }
+  if (
+    (config.kind === 'long_session' && !(config.minutes >= 1)) ||
+    (config.kind === 'session_rate' && !(config.max_sessions >= 1 && config.window_minutes >= 1))
+  ) {
+    return 'Drempels moeten minstens 1 zijn';
+  }
+  if (draft.channels.includes('email') && parseList(draft.email_recipients).length === 0) {
+    return 'Vul minstens één e-mailadres in voor het e-mailkanaal';
+  }
+  if (draft.channels.includes('webhook') && !/^https?:\/\//.test(draft.webhook_url.trim())) {
+    return 'Vul een webhook URL in die begint met http:// of https://';
+  }
+  return null;
+}
+
+export function AlertRulesEditor() {
+  const [rules, setRules] = useState<AlertRuleRow[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, RuleDraft>>({});
+  const [newName, setNewName] = useState('');
+  const [newKind, setNewKind] = useState<AlertRuleKind>('session_error');
+  const [newKeywords, setNewKeywords] = useState('');
+  const [previewText, setPreviewText] = useState('');
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadRules = useCallback(async () => {
+    try {
+      const data = await fetchAlertRules();
+      setRules(data);
+      setDrafts(Object.fromEntries(data.map(rule => [rule.id, toDraft(rule)])));
+    } catch (err) {
+      console.error('Error fetching alert rules:', err);
+      setError(err instanceof Error ? err.message : 'Alertregels ophalen mislukt');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const updateDraft = (ruleId: string, changes: Partial<RuleDraft>) => {
+    setDrafts(prev => ({ ...prev, [ruleId]: { ...prev[ruleId], ...changes } }));
+  };
+
+  const updateNumber = (ruleId: string, key: 'minutes' | 'max_sessions' | 'window_minutes', value: string) => {
+    const draft = drafts[ruleId];
+    updateDraft(ruleId, { config: { ...draft.config, [key]: Number(value) } as AlertRuleConfig });
+  };
+
+  const toggleChannel = (ruleId: string, channel: AlertChannelName, enabled: boolean) => {
+    const channels = drafts[ruleId].channels.filter(existing => existing !== channel);
+    updateDraft(ruleId, { channels: enabled ? [...channels, channel] : channels });
+  };
+
+  const handleSave = async (rule: AlertRuleRow) => {
+    const draft = drafts[rule.id];
+    const validationError = validateDraft(draft);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      setSavingId(rule.id);
+      setError(null);
+      setNotice(null);
+      await saveAlertRule({
+        id: rule.id,
+        name: draft.name.trim(),
+        kind: rule.kind,
+        params: toAlertRuleParams(draftConfig(draft)),
+        severity: draft.severity,
+        channels: draft.channels,
+        email_recipients: parseList(draft.email_recipients),
+        webhook_url: draft.webhook_url.trim() || null,
+        is_active: draft.is_active,
+      });
+      await loadRules();
+      setNotice('Regel opgeslagen');
+    } catch (err) {
+      console.error('Error saving alert rule:', err);
+      setError(err instanceof Error ? err.message : 'Regel opslaan mislukt');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleDelete = async (rule: AlertRuleRow) => {
+    if (!window.confirm(`Regel "${rule.name}" verwijderen? Eerdere meldingen blijven bewaard.`)) return;
+
+    try {
+      setSavingId(rule.id);
+      setError(null);
+      setNotice(null);
+      await deleteAlertRule(rule.id);
+      await loadRules();
+    } catch (err) {
+      console.error('Error deleting alert rule:', err);
+      setError(err instanceof Error ? err.message : 'Regel verwijderen mislukt');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleTest = async (rule: AlertRuleRow) => {
+    try {
+      setSavingId(rule.id);
+      setError(null);
+      setNotice(null);
+      const deliveries = await sendTestAlert(rule.id);
+      const failed = deliveries.filter(delivery => delivery.status === 'failed');
+
+      if (failed.length > 0) {
+        setError(failed.map(delivery => `${CHANNEL_LABELS[delivery.channel as AlertChannelName] ?? delivery.channel}: ${delivery.error}`).join('; '));
+      } else {
+        setNotice(`Testmelding verstuurd via ${deliveries.map(delivery => CHANNEL_LABELS[delivery.channel as AlertChannelName] ?? delivery.channel).join(' en ')}`);
+      }
+    } catch (err) {
+      console.error('Error sending test alert:', err);
+      setError(err instanceof Error ? err.message : 'Testmelding versturen mislukt');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleAdd = async (e: FormEvent) => {
+    e.preventDefault();
+
+    const config: AlertRuleConfig = newKind === 'keyword'
+      ? { kind: 'keyword', keywords: parseList(newKeywords) }
+      : DEFAULT_ALERT_RULE_CONFIGS[newKind];
+
+    if (!newName.trim()) {
+      setError('Een regel heeft een naam nodig');
+      return;
+    }
+    if (config.kind === 'keyword' && config.keywords.length === 0) {
+      setError('Een regel met signaalwoorden heeft minstens één woord nodig');
+      return;
+    }
+
+    try {
+      setSavingId('new');
+      setError(null);
+      setNotice(null);
+      await saveAlertRule({ name: newName.trim(), kind: newKind, params: toAlertRuleParams(config) });
+      setNewName('');
+      setNewKeywords('');
+      await loadRules();
+    } catch (err) {
+      console.error('Error adding alert rule:', err);
+      setError(err instanceof Error ? err.message : 'Regel toevoegen mislukt');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const keywordRules = rules.filter(rule => rule.kind === 'keyword' && drafts[rule.id]?.is_active);
+  const previewMatches = previewText.trim()
+    ? keywordRules.flatMap(rule => {
+      const matched = matchAlertKeywords(previewText, parseList(drafts[rule.id].keywords));
+      return matched.length > 0 ? [{ name: drafts[rule.id].name, matched }] : [];
+    })
+    : [];
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold">Alerts</h2>
+        <p className="text-sm text-gray-500">
+          Regels die een melding geven in de app, en eventueel per e-mail of webhook. Ze worden elke minuut
+          gecontroleerd; dezelfde sessie of hetzelfde bericht geeft per regel maar één melding.
+        </p>
+      </div>
+
+      {error && <div className="bg-red-50 text-red-500 p-3 rounded-md text-sm">{error}</div>}
+      {notice && <div className="bg-green-50 text-green-700 p-3 rounded-md text-sm">{notice}</div>}
+
+      <div className="divide-y divide-gray-100 border rounded-md">
+        {rules.map(rule => {
+          const draft = drafts[rule.id];
+          if (!draft) return null;
+
+          const hasExternalChannels = rule.channels.some(channel => channel !== 'in_app');
+
+          return (
+            <div key={rule.id} className="p-3 space-y-2">
+              <div className="flex gap-3 items-start">
+                <div className="flex-1 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <input
+                      value={draft.name}
+                      onChange={(e) => updateDraft(rule.id, { name: e.target.value })}
+                      className="border rounded-md px-2 py-1 flex-1 font-medium"
+                    />
+                    <span className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700">
+                      {ALERT_RULE_KIND_LABELS[rule.kind]}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-500">{describeAlertRule(draftConfig(draft))}</p>
+                </div>
+                <label className="flex items-center gap-1 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={draft.is_active}
+                    onChange={(e) => updateDraft(rule.id, { is_active: e.target.checked })}
+                  />
+                  Actief
+                </label>
+              </div>
+
+              <div className="flex flex-wrap gap-3 items-center text-sm">
+                {draft.config.kind === 'long_session' && (
+                  <label className="flex items-center gap-1">
+                    Langer dan
+                    <input
+                      type="number"
+                      min={1}
+                      value={draft.config.minutes}
+                      onChange={(e) => updateNumber(rule.id, 'minutes', e.target.value)}
+                      className="border rounded-md px-2 py-1 w-20"
+                    />
+                    minuten
+                  </label>
+                )}
+                {draft.config.kind === 'session_rate' && (
+                  <>
+                    <label className="flex items-center gap-1">
+                      Meer dan
+                      <input
+                        type="number"
+                        min={1}
+                        value={draft.config.max_sessions}
+                        onChange={(e) => updateNumber(rule.id, 'max_sessions', e.target.value)}
+                        className="border rounded-md px-2 py-1 w-20"
+                      />
+                      sessies
+                    </label>
+                    <label className="flex items-center gap-1">
+                      binnen
+                      <input
+                        type="number"
+                        min={1}
+                        value={draft.config.window_minutes}
+                        onChange={(e) => updateNumber(rule.id, 'window_minutes', e.target.value)}
+                        className="border rounded-md px-2 py-1 w-20"
+                      />
+                      minuten
+                    </label>
+                  </>
+                )}
+                <label className="flex items-center gap-1">
+                  Ernst
+                  <select
+                    value={draft.severity}
+                    onChange={(e) => updateDraft(rule.id, { severity: e.target.value as AlertSeverity })}
+                    className="border rounded-md px-2 py-1"
+                  >
+                    {SEVERITIES.map(severity => (
+                      <option key={severity} value={severity}>{ALERT_SEVERITY_LABELS[severity]}</option>
+                    ))}
+                  </select>
+                </label>
+                {CHANNELS.map(channel => (
+                  <label key={channel} className="flex items-center gap-1 text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={draft.channels.includes(channel)}
+                      onChange={(e) => toggleChannel(rule.id, channel, e.target.checked)}
+                    />
+                    {CHANNEL_LABELS[channel]}
+                  </label>
+                ))}
+              </div>
+
+              {draft.config.kind === 'keyword' && (
+                <textarea
+                  value={draft.keywords}
+                  onChange={(e) => updateDraft(rule.id, { keywords: e.target.value })}
+                  rows={2}
+                  className="border rounded-md px-2 py-1 w-full text-sm"
+                  placeholder="klacht*, woordgroep, prefix*"
+                />
+              )}
+              {draft.channels.includes('email') && (
+                <input
+                  value={draft.email_recipients}
+                  onChange={(e) => updateDraft(rule.id, { email_recipients: e.target.value })}
+                  placeholder="e-mailadressen, komma-gescheiden"
+                  className="border rounded-md px-2 py-1 w-full text-sm"
+                />
+              )}
+              {draft.channels.includes('webhook') && (
+                <input
+                  value={draft.webhook_url}
+                  onChange={(e) => updateDraft(rule.id, { webhook_url: e.target.value })}
+                  placeholder="https://example.org/webhook"
+                  className="border rounded-md px-2 py-1 w-full text-sm"
+                />
+              )}
+
+              <div className="flex justify-end gap-2">
+                {hasExternalChannels && (
+                  <button
+                    onClick={() => handleTest(rule)}
+                    disabled={savingId === rule.id}
+                    className="inline-flex items-center gap-1 px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                    title="Testmelding via e-mail en webhook, met de opgeslagen instellingen"
+                  >
+                    <Send className="h-4 w-4" />
+                    Testen
+                  </button>
+                )}
+                <button
+                  onClick={() => handleDelete(rule)}
+                  disabled={savingId === rule.id}
+                  className="p-1 hover:bg-gray-100 rounded disabled:opacity-50"
+                  title="Verwijderen"
+                >
+                  <Trash2 className="h-4 w-4 text-red-600" />
+                </button>
+                <button
+                  onClick={() => handleSave(rule)}
+                  disabled={savingId === rule.id}
+                  className="bg-[#ce861b] text-white px-3 py-1 text-sm rounded-md hover:bg-[#b67616] disabled:opacity-50"
+                >
+                  {savingId === rule.id ? 'Opslaan...' : 'Opslaan'}
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <form onSubmit={handleAdd} className="flex gap-2 items-start">
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="Nieuwe regel"
+          className="border rounded-md px-2 py-1"
+        />
+        <select
+          value={newKind}
+          onChange={(e) => setNewKind(e.target.value as AlertRuleKind)}
+          className="border rounded-md px-2 py-1"
+        >
+          {KINDS.map(kind => (
+            <option key={kind} value={kind}>{ALERT_RULE_KIND_LABELS[kind]}</option>
+          ))}
+        </select>
+        {newKind === 'keyword' && (
+          <input
+            value={newKeywords}
+            onChange={(e) => setNewKeywords(e.target.value)}
+            placeholder="woorden, komma-gescheiden"
+            className="border rounded-md px-2 py-1 flex-1"
+          />
+        )}
+        <button
+          type="submit"
+          disabled={savingId !== null}
+          className="inline-flex items-center gap-1 px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+        >
+          <Plus className="h-4 w-4" />
+          Toevoegen
+        </button>
+      </form>
+
+      {keywordRules.length > 0 && (
+        <div>
+          <label htmlFor="alert-preview" className="block text-sm font-medium text-gray-700 mb-1">
+            Signaalwoorden testen
+          </label>
+          <textarea
+            id="alert-preview"
+            value={previewText}
+            onChange={(e) => setPreviewText(e.target.value)}
+            rows={2}
+            className="border rounded-md px-2 py-1 w-full text-sm"
+            placeholder="Typ een vraag van een promovendus om te zien welke regels een melding geven"
+          />
+          {previewText.trim() && (
+            <div className="mt-2 text-sm">
+              {previewMatches.length === 0 ? (
+                <p className="text-gray-500">Geen melding</p>
+              ) : (
+                <ul className="space-y-1">
+                  {previewMatches.map(match => (
+                    <li key={match.name}>
+                      <span className="font-medium">{match.name}</span>
+                      <span className="text-gray-500"> · {match.matched.join(', ')}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import { useState, type FormEvent } from 'react';
+import { Pencil, ThumbsDown, ThumbsUp } from 'lucide-react';
+import {
+  ERROR_CATEGORIES,
+  deleteMessageAnnotation,
+  getErrorCategoryLabel,
+  saveMessageAnnotation,
+  type MessageAnnotation,
+} from '../lib/answerQuality';
+import type { AnswerErrorCategory } from '../lib/database.types';
+
+interface AnswerAnnotationProps {
+  messageId: string;
+  annotation: MessageAnnotation | undefined;
+  canAnnotate: boolean;
+  // Het nieuwe oordeel, of null als het is weggehaald
+  onChange: (annotation: MessageAnnotation | null) => void;
+  onError: (message: string) => void;
+}
+
+// Duim omhoog/omlaag onder een antwoord van de avatar; bij duim omlaag een categorie en een beter antwoord
+export function AnswerAnnotation({ messageId, annotation, canAnnotate, onChange, onError }: AnswerAnnotationProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [category, setCategory] = useState<AnswerErrorCategory | ''>('');
+  const [suggestedAnswer, setSuggestedAnswer] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  if (!annotation && !canAnnotate) return null;
+
+  const save = async (action: () => Promise<MessageAnnotation | null>) => {
+    try {
+      setIsSaving(true);
+      onChange(await action());
+      setIsEditing(false);
+    } catch (err) {
+      console.error('Error saving annotation:', err);
+      onError(err instanceof Error ? err.message : 'Beoordeling opslaan mislukt');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Nog een keer op dezelfde duim klikken haalt het oordeel weg
+  const handleThumbsUp = () => save(async () => {
+    if (annotation?.rating === 'up') {
+      await deleteMessageAnnotation(messageId);
+      return null;
+    }
+    return saveMessageAnnotation({ message_id: messageId, rating: 'up', error_category: null, suggested_answer: null });
+  });
+
+  const handleThumbsDown = () => {
+    if (annotation?.rating === 'down') {
+      save(async () => {
+        await deleteMessageAnnotation(messageId);
+        return null;
+      });
+      return;
+    }
+    setCategory('');
+    setSuggestedAnswer('');
+    setIsEditing(true);
+  };
+
+  const startEditing = () => {
+    setCategory(annotation?.error_category ?? '');
+    setSuggestedAnswer(annotation?.suggested_answer ?? '');
+    setIsEditing(true);
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    save(() => saveMessageAnnotation({
+      message_id: messageId,
+      rating: 'down',
+      error_category: category || null,
+      suggested_answer: suggestedAnswer.trim() || null,
+    }));
+  };
+
+  return (
+    <div className="mt-1 space-y-1">
+      <div className="flex items-center gap-1">
+        <button
+          onClick={handleThumbsUp}
+          disabled={!canAnnotate || isSaving}
+          className={`p-1 rounded ${annotation?.rating === 'up' ? 'text-green-600' : 'text-gray-400'} ${
+            canAnnotate ? 'hover:bg-gray-100' : 'cursor-default'
+          }`}
+          title="Goed antwoord"
+        >
+          <ThumbsUp className="h-3.5 w-3.5" />
+        </button>
+        <button
+          onClick={handleThumbsDown}
+          disabled={!canAnnotate || isSaving}
+          className={`p-1 rounded ${annotation?.rating === 'down' ? 'text-red-600' : 'text-gray-400'} ${
+            canAnnotate ? 'hover:bg-gray-100' : 'cursor-default'
+          }`}
+          title="Fout of ongepast antwoord"
+        >
+          <ThumbsDown className="h-3.5 w-3.5" />
+        </button>
+        {annotation?.rating === 'down' && !isEditing && (
+          <>
+            <span className="px-2 py-0.5 text-xs rounded-full bg-red-50 text-red-700">
+              {getErrorCategoryLabel(annotation.error_category)}
+            </span>
+            {canAnnotate && (
+              <button onClick={startEditing} className="p-1 rounded text-gray-400 hover:bg-gray-100" title="Beoordeling bewerken">
+                <Pencil className="h-3 w-3" />
+              </button>
+            )}
+          </>
+        )}
+        {annotation && (
+          <span className="text-xs text-gray-400">{annotation.annotator_email ?? ''}</span>
+        )}
+      </div>
+
+      {annotation?.rating === 'down' && annotation.suggested_answer && !isEditing && (
+        <div className="text-xs text-gray-600 border-l-2 border-green-300 pl-2 whitespace-pre-wrap">
+          <span className="font-medium">Beter antwoord: </span>
+          {annotation.suggested_answer}
+        </div>
+      )}
+
+      {isEditing && (
+        <form onSubmit={handleSubmit} className="space-y-2 bg-white border rounded-md p-2 max-w-lg">
+          <select
+            value={category}
+            onChange={(e) => setCategory(e.target.value as AnswerErrorCategory | '')}
+            className="w-full border rounded-md px-2 py-1 text-sm"
+          >
+            <option value="">Kies een categorie</option>
+            {ERROR_CATEGORIES.map(({ value, label, description }) => (
+              <option key={value} value={value}>{label} - {description}</option>
+            ))}
+          </select>
+          <textarea
+            value={suggestedAnswer}
+            onChange={(e) => setSuggestedAnswer(e.target.value)}
+            rows={3}
+            placeholder="Wat had de avatar moeten antwoorden? (optioneel)"
+            className="w-full border rounded-md px-2 py-1 text-sm"
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setIsEditing(false)}
+              className="px-3 py-1 text-sm text-gray-600 hover:text-gray-900"
+            >
+              Annuleren
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="bg-[#ce861b] text-white px-3 py-1 text-sm rounded-md hover:bg-[#b67616] disabled:opacity-50"
+            >
+              {isSaving ? 'Opslaan...' : 'Markeren'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -1,72 +1,125 @@
-import React, { useEffect, useState } from 'react';
+import { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
-import { BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip } from 'recharts';
-import { Clock, MessageSquare, Users, BarChart2, LineChart as LineChartIcon } from 'lucide-react';
+import type { DashboardData, DashboardPeriodData } from '../lib/database.types';
+import { UsageHeatmap } from './UsageHeatmap';
+import { getEnumParam, updateSearchParams } from '../lib/urlState';
+import { fetchAppSettings } from '../lib/settings';
+import { getErrorCategoryLabel } from '../lib/answerQuality';
+import {
+  DEFAULT_REPORTING_TIMEZONE,
+  formatBucketLabel,
+  getCustomRange,
+  getPresetRange,
+  type Bucket,
+  type DatePreset,
+} from '../lib/dateRange';
+import { BarChart, Bar, Cell, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip } from 'recharts';
+import { Clock, MessageSquare, Users, BarChart2, LineChart as LineChartIcon, ArrowUpRight, ArrowDownRight, ArrowRight } from 'lucide-react';
 
-type DateFilter = 'yesterday' | '7days' | '14days' | '30days' | 'custom';
-type TimeInterval = 'hour' | 'day' | 'week';
+type DateFilter = DatePreset | 'custom';
+type TimeInterval = Bucket;
 type ChartType = 'bar' | 'line';
-type MetricType = 'sessions' | 'messages' | 'avgMessages' | 'avgDuration';
-
-interface DashboardData {
-  daily_sessions: {
-    date: string;
-    session_count: number;
-  }[];
-  message_counts: {
-    session_id: string;
-    created_at: string;
-    message_count: number;
-  }[];
+type MetricType = 'sessions' | 'messages' | 'avgMessages' | 'avgDuration' | 'answerQuality';
+
+const DATE_FILTERS: DateFilter[] = ['yesterday', '7days', '14days', '30days', 'custom'];
+const TIME_INTERVALS: TimeInterval[] = ['hour', 'day', 'week'];
+const CHART_TYPES: ChartType[] = ['bar', 'line'];
+const METRICS: MetricType[] = ['sessions', 'messages', 'avgMessages', 'avgDuration', 'answerQuality'];
+
+const formatMinutes = (minutes: number | null) => {
+  if (minutes === null) return '-';
+  if (minutes < 1) return `${Math.round(minutes * 60)}s`;
+  return `${Math.round(minutes)}m`;
+};
+
+const METRIC_LABELS: Record<MetricType, string> = {
+  sessions: 'Aantal sessies',
+  messages: 'Aantal berichten',
+  avgMessages: 'Gem. berichten per sessie',
+  avgDuration: 'Gem. sessieduur (min)',
+  answerQuality: 'Antwoordkwaliteit (%)',
+};
+
+const formatPercentage = (value: number) => `${value}%`;
+
+interface PeriodDeltaProps {
+  current: number | null;
+  previous: number | null;
+  formatValue?: (value: number) => string;
+}
+
+// Verschil met de vorige periode, absoluut en in procenten
+function PeriodDelta({ current, previous, formatValue = value => String(value) }: PeriodDeltaProps) {
+  if (current === null || previous === null) {
+    return <p className="text-xs text-gray-400 mt-1">Geen vergelijking beschikbaar</p>;
+  }
+
+  const diff = Number((current - previous).toFixed(1));
+  const percentage = previous === 0 ? null : Math.round((diff / previous) * 100);
+  const Icon = diff > 0 ? ArrowUpRight : diff < 0 ? ArrowDownRight : ArrowRight;
+  const color = diff > 0 ? 'text-green-600' : diff < 0 ? 'text-red-600' : 'text-gray-500';
+  const sign = diff > 0 ? '+' : diff < 0 ? '-' : '';
+
+  return (
+    <p className={`flex items-center gap-1 text-xs mt-1 ${color}`} title={`Vorige periode: ${formatValue(previous)}`}>
+      <Icon className="h-3 w-3" />
+      <span>
+        {sign}{formatValue(Math.abs(diff))}
+        {percentage !== null && ` (${sign}${Math.abs(percentage)}%)`}
+      </span>
+      <span className="text-gray-400">t.o.v. vorige periode</span>
+    </p>
+  );
 }
 
 export function DashboardStats() {
   const [dashboardData, setDashboardData] = useState<DashboardData | null>(null);
-  const [dateFilter, setDateFilter] = useState<DateFilter>('7days');
-  const [customStartDate, setCustomStartDate] = useState('');
-  const [customEndDate, setCustomEndDate] = useState('');
-  const [selectedMetric, setSelectedMetric] = useState<MetricType>('sessions');
-  const [chartType, setChartType] = useState<ChartType>('bar');
-  const [timeInterval, setTimeInterval] = useState<TimeInterval>('day');
-
-  const getDateRange = (filter: DateFilter): { start: Date; end: Date } => {
-    const end = new Date();
-    end.setHours(23, 59, 59, 999);
-    
-    const start = new Date();
-    start.setHours(0, 0, 0, 0);
-
-    switch (filter) {
-      case 'yesterday':
-        start.setDate(start.getDate() - 1);
-        end.setDate(end.getDate() - 1);
-        break;
-      case '7days':
-        start.setDate(start.getDate() - 6);
-        break;
-      case '14days':
-        start.setDate(start.getDate() - 13);
-        break;
-      case '30days':
-        start.setDate(start.getDate() - 29);
-        break;
-      case 'custom':
-        return {
-          start: new Date(customStartDate),
-          end: new Date(customEndDate)
-        };
-    }
+  const [searchParams, setSearchParams] = useSearchParams();
 
-    return { start, end };
-  };
+  // Filterstand staat in de URL, bijv. /dashboard?range=30days&metric=messages&interval=week
+  const dateFilter = getEnumParam(searchParams, 'range', DATE_FILTERS, '7days');
+  const customStartDate = searchParams.get('from') ?? '';
+  const customEndDate = searchParams.get('to') ?? '';
+  const selectedMetric = getEnumParam(searchParams, 'metric', METRICS, 'sessions');
+  const chartType = getEnumParam(searchParams, 'chart', CHART_TYPES, 'bar');
+  const timeInterval = getEnumParam(searchParams, 'interval', TIME_INTERVALS, 'day');
+  const showPrevious = searchParams.get('compare') === '1';
+
+  const setDateFilter = (value: DateFilter) =>
+    updateSearchParams(setSearchParams, value === 'custom' ? { range: value } : { range: value, from: null, to: null });
+  const setCustomStartDate = (value: string) => updateSearchParams(setSearchParams, { from: value });
+  const setCustomEndDate = (value: string) => updateSearchParams(setSearchParams, { to: value });
+  const setSelectedMetric = (value: MetricType) => updateSearchParams(setSearchParams, { metric: value });
+  const setChartType = (value: ChartType) => updateSearchParams(setSearchParams, { chart: value });
+  const setTimeInterval = (value: TimeInterval) => updateSearchParams(setSearchParams, { interval: value });
+  const setShowPrevious = (value: boolean) => updateSearchParams(setSearchParams, { compare: value ? '1' : null });
+
+  // Rapportagetijdzone bepaalt wat "vandaag" is; tot de instellingen binnen zijn geldt de default
+  const [reportingTimezone, setReportingTimezone] = useState(DEFAULT_REPORTING_TIMEZONE);
+
+  useEffect(() => {
+    fetchAppSettings()
+      .then(settings => setReportingTimezone(settings.reporting_timezone))
+      .catch(err => console.error('Error fetching settings:', err));
+  }, []);
+
+  const dateRange = dateFilter === 'custom'
+    ? getCustomRange(customStartDate, customEndDate)
+    : getPresetRange(dateFilter, reportingTimezone);
+  const rangeStart = dateRange?.start;
+  const rangeEnd = dateRange?.end;
 
   useEffect(() => {
+    // Aangepast bereik dat nog niet compleet is: laatste resultaat laten staan
+    if (!rangeStart || !rangeEnd) return;
+
     const fetchData = async () => {
-      const { start, end } = getDateRange(dateFilter);
-      
+      // Kalenderdagen; de database rekent ze om in de rapportagetijdzone
       const { data, error } = await supabase.rpc('get_dashboard_stats', {
-        start_date: start.toISOString(),
-        end_date: end.toISOString()
+        start_date: rangeStart,
+        end_date: rangeEnd,
+        bucket: timeInterval
       });
 
       if (error) {
@@ -79,105 +132,61 @@ export function DashboardStats() {
     };
 
     fetchData();
-  }, [dateFilter, customStartDate, customEndDate]);
+  }, [rangeStart, rangeEnd, timeInterval]);
 
   if (!dashboardData) {
     return <div>Loading...</div>;
   }
 
-  // Bereken totalen
-  const totalSessions = dashboardData.daily_sessions.reduce((sum, day) => sum + day.session_count, 0);
-  const totalMessages = dashboardData.message_counts.reduce((sum, msg) => sum + msg.message_count, 0);
-  const avgMessagesPerSession = Math.round(totalMessages / totalSessions);
+  const { kpis, previous_period: previousPeriod } = dashboardData;
 
-  const getChartData = (metric: MetricType) => {
-    let data = [];
-    
+  // Buckets komen compleet en in de rapportagetijdzone uit de database; hier alleen de gekozen metric eruit halen
+  const getMetricValue = (bucket: DashboardPeriodData['series'][number], metric: MetricType) => {
     switch (metric) {
       case 'sessions':
-        data = dashboardData.daily_sessions.map(d => ({
-          date: d.date,
-          value: d.session_count,
-          label: 'Aantal sessies'
-        }));
-        break;
+        return bucket.session_count;
       case 'messages':
-        // Groepeer berichten per dag
-        data = Object.entries(
-          dashboardData.message_counts.reduce((acc, curr) => {
-            const date = curr.created_at.split('T')[0];
-            acc[date] = (acc[date] || 0) + curr.message_count;
-            return acc;
-          }, {} as Record<string, number>)
-        ).map(([date, count]) => ({
-          date,
-          value: count,
-          label: 'Aantal berichten'
-        }));
-        break;
+        return bucket.message_count;
       case 'avgMessages':
-        // Bereken gemiddeld aantal berichten per sessie per dag
-        data = dashboardData.daily_sessions.map(d => {
-          const messagesOnDay = dashboardData.message_counts
-            .filter(m => m.created_at.startsWith(d.date))
-            .reduce((sum, m) => sum + m.message_count, 0);
-          return {
-            date: d.date,
-            value: d.session_count ? Number((messagesOnDay / d.session_count).toFixed(1)) : 0,
-            label: 'Gem. berichten per sessie'
-          };
-        });
-        break;
+        return bucket.avg_messages_per_session ?? 0;
       case 'avgDuration':
-        // Placeholder voor gemiddelde sessieduur - aan te passen als we de echte data hebben
-        data = dashboardData.daily_sessions.map(d => ({
-          date: d.date,
-          value: 12, // Dit moet vervangen worden door echte sessieduur data
-          label: 'Gem. sessieduur (min)'
-        }));
-        break;
+        return bucket.avg_minutes ?? 0;
+      // Geen beoordelingen is geen 0%, dus een gat in de grafiek
+      case 'answerQuality':
+        return bucket.answer_quality_rate;
     }
+  };
 
-    // Groepeer data op basis van het gekozen interval
-    if (timeInterval === 'week') {
-      return data.reduce((acc, item) => {
-        const date = new Date(item.date);
-        const weekStart = new Date(date);
-        weekStart.setDate(date.getDate() - date.getDay()); // Begin van de week
-        const weekKey = weekStart.toISOString().split('T')[0];
-        
-        const existingWeek = acc.find(w => w.date === weekKey);
-        if (existingWeek) {
-          existingWeek.value += item.value;
-        } else {
-          acc.push({
-            date: weekKey,
-            value: item.value,
-            label: item.label
-          });
-        }
-        return acc;
-      }, [] as typeof data);
-    } else if (timeInterval === 'hour') {
-      // Voor uur-interval, gebruik de volledige timestamp
-      return dashboardData.message_counts.reduce((acc, curr) => {
-        const hour = curr.created_at.split(':')[0] + ':00'; // Rond af naar het uur
-        const existingHour = acc.find(h => h.date === hour);
-        if (existingHour) {
-          existingHour.value += curr.message_count;
-        } else {
-          acc.push({
-            date: hour,
-            value: curr.message_count,
-            label: 'Aantal berichten'
-          });
-        }
-        return acc;
-      }, [] as typeof data).sort((a, b) => a.date.localeCompare(b.date));
-    }
+  // Vorige periode is even lang, dus bucket i hoort bij bucket i van de huidige periode
+  const chartData = dashboardData.series.map((bucket, index) => {
+    const previousBucket = previousPeriod.series[index];
+    return {
+      date: formatBucketLabel(bucket.bucket_start, timeInterval),
+      value: getMetricValue(bucket, selectedMetric),
+      median: bucket.median_minutes ?? 0,
+      p90: bucket.p90_minutes ?? 0,
+      previous: previousBucket ? getMetricValue(previousBucket, selectedMetric) : 0
+    };
+  });
+  const chartLabel = METRIC_LABELS[selectedMetric];
 
-    return data;
-  };
+  const previousTopicCounts = new Map(previousPeriod.topics.map(topic => [topic.topic_id, topic.session_count]));
+  const topicData = dashboardData.topics.map(topic => ({
+    label: topic.label,
+    color: topic.color,
+    value: topic.session_count,
+    previous: previousTopicCounts.get(topic.topic_id) ?? 0
+  }));
+
+  const { answer_quality: answerQuality } = dashboardData;
+  const previousCategoryCounts = new Map(
+    previousPeriod.answer_quality.categories.map(category => [category.category, category.count])
+  );
+  const categoryData = answerQuality.categories.map(category => ({
+    label: getErrorCategoryLabel(category.category),
+    value: category.count,
+    previous: previousCategoryCounts.get(category.category) ?? 0
+  }));
 
   return (
     <div className="p-4 space-y-6">
@@ -223,7 +232,8 @@ export function DashboardStats() {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm text-gray-500">Totaal Aantal Sessies</p>
-              <p className="text-2xl font-semibold">{totalSessions}</p>
+              <p className="text-2xl font-semibold">{kpis.session_count}</p>
+              <PeriodDelta current={kpis.session_count} previous={previousPeriod.kpis.session_count} />
             </div>
             <Users className="h-8 w-8 text-blue-500" />
           </div>
@@ -233,7 +243,8 @@ export function DashboardStats() {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm text-gray-500">Totaal Aantal Berichten</p>
-              <p className="text-2xl font-semibold">{totalMessages}</p>
+              <p className="text-2xl font-semibold">{kpis.message_count}</p>
+              <PeriodDelta current={kpis.message_count} previous={previousPeriod.kpis.message_count} />
             </div>
             <MessageSquare className="h-8 w-8 text-green-500" />
           </div>
@@ -243,7 +254,11 @@ export function DashboardStats() {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm text-gray-500">Gem. Berichten per Sessie</p>
-              <p className="text-2xl font-semibold">{avgMessagesPerSession}</p>
+              <p className="text-2xl font-semibold">{kpis.avg_messages_per_session ?? '-'}</p>
+              <PeriodDelta
+                current={kpis.avg_messages_per_session}
+                previous={previousPeriod.kpis.avg_messages_per_session}
+              />
             </div>
             <MessageSquare className="h-8 w-8 text-purple-500" />
           </div>
@@ -253,7 +268,15 @@ export function DashboardStats() {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm text-gray-500">Gem. Sessieduur</p>
-              <p className="text-2xl font-semibold">12m</p>
+              <p className="text-2xl font-semibold">{formatMinutes(kpis.avg_duration_minutes)}</p>
+              <p className="text-xs text-gray-500">
+                mediaan {formatMinutes(dashboardData.duration_summary.median_minutes)} · p90 {formatMinutes(dashboardData.duration_summary.p90_minutes)}
+              </p>
+              <PeriodDelta
+                current={kpis.avg_duration_minutes}
+                previous={previousPeriod.kpis.avg_duration_minutes}
+                formatValue={formatMinutes}
+              />
             </div>
             <Clock className="h-8 w-8 text-orange-500" />
           </div>
@@ -274,6 +297,7 @@ export function DashboardStats() {
                 <option value="messages">Totaal Aantal Berichten</option>
                 <option value="avgMessages">Gem. Berichten per Sessie</option>
                 <option value="avgDuration">Gem. Sessieduur</option>
+                <option value="answerQuality">Antwoordkwaliteit</option>
               </select>
 
               <select
@@ -302,6 +326,16 @@ export function DashboardStats() {
                   <LineChartIcon className="h-5 w-5" />
                 </button>
               </div>
+
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  className="rounded text-[#ce861b] focus:ring-[#ce861b]"
+                  checked={showPrevious}
+                  onChange={(e) => setShowPrevious(e.target.checked)}
+                />
+                Vorige periode tonen
+              </label>
             </div>
           </div>
 
@@ -310,7 +344,7 @@ export function DashboardStats() {
               <BarChart
                 width={1200}  // Bredere grafiek
                 height={400}  // Hogere grafiek
-                data={getChartData(selectedMetric)}
+                data={chartData}
                 margin={{ top: 20, right: 30, left: 20, bottom: 5 }}
               >
                 <CartesianGrid strokeDasharray="3 3" />
@@ -322,13 +356,20 @@ export function DashboardStats() {
                 />
                 <YAxis />
                 <Tooltip />
-                <Bar dataKey="value" fill="#3b82f6" name={getChartData(selectedMetric)[0]?.label} />
+                <Bar dataKey="value" fill="#3b82f6" name={chartLabel} />
+                {showPrevious && <Bar dataKey="previous" fill="#cbd5e1" name="Vorige periode" />}
+                {selectedMetric === 'avgDuration' && (
+                  <>
+                    <Bar dataKey="median" fill="#22c55e" name="Mediaan (min)" />
+                    <Bar dataKey="p90" fill="#f97316" name="P90 (min)" />
+                  </>
+                )}
               </BarChart>
             ) : (
               <LineChart
                 width={1200}  // Bredere grafiek
                 height={400}  // Hogere grafiek
-                data={getChartData(selectedMetric)}
+                data={chartData}
                 margin={{ top: 20, right: 30, left: 20, bottom: 5 }}
               >
                 <CartesianGrid strokeDasharray="3 3" />
@@ -344,12 +385,108 @@ export function DashboardStats() {
                   type="monotone" 
                   dataKey="value" 
                   stroke="#3b82f6" 
-                  name={getChartData(selectedMetric)[0]?.label} 
+                  name={chartLabel} 
                 />
+                {showPrevious && (
+                  <Line type="monotone" dataKey="previous" stroke="#94a3b8" strokeDasharray="5 5" name="Vorige periode" />
+                )}
+                {selectedMetric === 'avgDuration' && (
+                  <>
+                    <Line type="monotone" dataKey="median" stroke="#22c55e" name="Mediaan (min)" />
+                    <Line type="monotone" dataKey="p90" stroke="#f97316" name="P90 (min)" />
+                  </>
+                )}
               </LineChart>
             )}
           </div>
         </div>
+
+        <div className="bg-white p-6 rounded-lg shadow">
+          <h2 className="text-lg font-semibold mb-4">Verdeling sessieduur</h2>
+          <BarChart
+            width={1200}
+            height={300}
+            data={dashboardData.duration_histogram.map(bin => ({
+              range: bin.max_minutes === null ? `${bin.min_minutes}+ min` : `${bin.min_minutes}-${bin.max_minutes} min`,
+              value: bin.session_count
+            }))}
+            margin={{ top: 20, right: 30, left: 20, bottom: 5 }}
+          >
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="range" />
+            <YAxis allowDecimals={false} />
+            <Tooltip />
+            <Bar dataKey="value" fill="#ce861b" name="Aantal sessies" />
+          </BarChart>
+        </div>
+
+        <div className="bg-white p-6 rounded-lg shadow">
+          <div className="flex justify-between items-baseline mb-4">
+            <h2 className="text-lg font-semibold">Onderwerpen</h2>
+            <span className="text-sm text-gray-500">
+              {dashboardData.classified_session_count} van {kpis.session_count} sessies geclassificeerd
+            </span>
+          </div>
+          <BarChart
+            width={1200}
+            height={Math.max(200, topicData.length * 40)}
+            data={topicData}
+            layout="vertical"
+            margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+          >
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis type="number" allowDecimals={false} />
+            <YAxis type="category" dataKey="label" width={180} />
+            <Tooltip />
+            <Bar dataKey="value" name="Aantal sessies">
+              {topicData.map(topic => (
+                <Cell key={topic.label} fill={topic.color} />
+              ))}
+            </Bar>
+            {showPrevious && <Bar dataKey="previous" fill="#cbd5e1" name="Vorige periode" />}
+          </BarChart>
+        </div>
+
+        <div className="bg-white p-6 rounded-lg shadow">
+          <div className="flex justify-between items-baseline mb-4">
+            <h2 className="text-lg font-semibold">Antwoordkwaliteit</h2>
+            <Link to="/flagged" className="text-sm text-[#ce861b] hover:underline">
+              Naar gemarkeerde antwoorden
+            </Link>
+          </div>
+          <div className="flex gap-8 items-start">
+            <div className="w-64 shrink-0">
+              <p className="text-sm text-gray-500">Goed beoordeelde antwoorden</p>
+              <p className="text-2xl font-semibold">
+                {answerQuality.quality_rate === null ? '-' : formatPercentage(answerQuality.quality_rate)}
+              </p>
+              <p className="text-xs text-gray-500">
+                {answerQuality.positive_count} van {answerQuality.rated_count} beoordeelde antwoorden
+              </p>
+              <PeriodDelta
+                current={answerQuality.quality_rate}
+                previous={previousPeriod.answer_quality.quality_rate}
+                formatValue={formatPercentage}
+              />
+            </div>
+            <BarChart
+              width={900}
+              height={200}
+              data={categoryData}
+              layout="vertical"
+              margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+            >
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis type="number" allowDecimals={false} />
+              <YAxis type="category" dataKey="label" width={120} />
+              <Tooltip />
+              <Bar dataKey="value" fill="#ef4444" name="Gemarkeerde antwoorden" />
+              {showPrevious && <Bar dataKey="previous" fill="#cbd5e1" name="Vorige periode" />}
+            </BarChart>
+          </div>
+        </div>
+
+        <UsageHeatmap cells={dashboardData.usage_heatmap} timeZone={dashboardData.time_zone} />
       </div>
     </div>
   );
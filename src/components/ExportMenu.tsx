@@ -0,0 +1,63 @@
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import { EXPORT_FORMATS, exportTranscripts, openPrintWindow, type ExportFormat } from '../lib/transcriptExport';
+
+interface ExportMenuProps {
+  // Een functie haalt de ids pas bij het exporteren op, voor lijsten die maar deels geladen zijn
+  sessionIds: string[] | (() => Promise<string[]>);
+  sessionCount?: number;
+  label?: string;
+  onError?: (message: string) => void;
+}
+
+export function ExportMenu({ sessionIds, sessionCount, label = 'Exporteren', onError }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const count = sessionCount ?? (Array.isArray(sessionIds) ? sessionIds.length : 0);
+
+  const handleExport = async (exportFormat: ExportFormat) => {
+    setIsOpen(false);
+    let printWindow: Window | null = null;
+
+    try {
+      // Vóór de eerste await, anders blokkeert de browser de pop-up
+      if (exportFormat === 'pdf') printWindow = openPrintWindow();
+      setIsExporting(true);
+      await exportTranscripts(Array.isArray(sessionIds) ? sessionIds : await sessionIds(), exportFormat, printWindow);
+    } catch (err) {
+      printWindow?.close();
+      console.error('Error exporting transcripts:', err);
+      onError?.(err instanceof Error ? err.message : 'Exporteren mislukt');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={isExporting || count === 0}
+        className="inline-flex items-center px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#ce861b] disabled:opacity-50"
+        title={count > 1 ? `${count} sessies exporteren` : 'Transcript exporteren'}
+      >
+        <Download className="h-4 w-4 mr-2" />
+        {isExporting ? 'Exporteren...' : label}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-44 bg-white rounded-md shadow-lg py-1 z-50">
+          {EXPORT_FORMATS.map(({ value, label: formatLabel }) => (
+            <button
+              key={value}
+              onClick={() => handleExport(value)}
+              className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+            >
+              {formatLabel}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import React from 'react';
 import { Monitor, LogOut } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { UserMenu } from './UserMenu';
+import { NotificationCenter } from './NotificationCenter';
 
 export function Layout({ children }: { children: React.ReactNode }) {
   return (
@@ -9,7 +10,10 @@ export function Layout({ children }: { children: React.ReactNode }) {
       <header className="bg-white shadow">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex justify-between items-center">
           <h1 className="text-xl font-semibold">Avatar Chat Monitoring</h1>
-          <UserMenu />
+          <div className="flex items-center gap-2">
+            <NotificationCenter />
+            <UserMenu />
+          </div>
         </div>
       </header>
       {children}
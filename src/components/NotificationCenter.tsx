@@ -0,0 +1,155 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { nl } from 'date-fns/locale';
+import { Bell, CheckCheck } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import {
+  fetchNotifications,
+  fetchUnreadAlertCount,
+  isUnread,
+  markAlertsRead,
+  type NotificationItem,
+} from '../lib/alerts';
+import { ALERT_SEVERITY_LABELS } from '../lib/alertRules';
+import type { AlertSeverity } from '../lib/database.types';
+
+const SEVERITY_STYLES: Record<AlertSeverity, string> = {
+  info: 'bg-blue-500',
+  warning: 'bg-amber-500',
+  critical: 'bg-red-600',
+};
+
+// Bel in de header met de nieuwste alerts; gelezen-status is per gebruiker
+export function NotificationCenter() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [alerts, setAlerts] = useState<NotificationItem[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadAlerts = useCallback(async () => {
+    try {
+      const [items, count] = await Promise.all([fetchNotifications(), fetchUnreadAlertCount()]);
+      setAlerts(items);
+      setUnreadCount(count);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching alerts:', err);
+      setError(err instanceof Error ? err.message : 'Meldingen ophalen mislukt');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAlerts();
+
+    // Nieuwe alerts komen vaak in groepjes (een sync met meerdere berichten), dus kort gebundeld
+    let reloadTimer: ReturnType<typeof setTimeout> | undefined;
+    const scheduleReload = () => {
+      clearTimeout(reloadTimer);
+      reloadTimer = setTimeout(loadAlerts, 300);
+    };
+
+    const channel = supabase.channel('notification_center')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'alerts' }, scheduleReload)
+      .subscribe();
+
+    return () => {
+      clearTimeout(reloadTimer);
+      supabase.removeChannel(channel);
+    };
+  }, [loadAlerts]);
+
+  const markRead = async (alertIds?: string[]) => {
+    try {
+      await markAlertsRead(alertIds);
+      await loadAlerts();
+    } catch (err) {
+      console.error('Error marking alerts as read:', err);
+      setError(err instanceof Error ? err.message : 'Meldingen als gelezen markeren mislukt');
+    }
+  };
+
+  const handleOpen = (alert: NotificationItem) => {
+    setIsOpen(false);
+    if (isUnread(alert)) markRead([alert.id]);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 rounded-md hover:bg-gray-100 transition-colors"
+        title="Meldingen"
+      >
+        <Bell className="h-5 w-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-600 text-white text-xs flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-96 bg-white rounded-md shadow-lg z-50">
+          <div className="flex items-center justify-between px-4 py-2 border-b">
+            <span className="font-medium">Meldingen</span>
+            {unreadCount > 0 && (
+              <button
+                onClick={() => markRead()}
+                className="inline-flex items-center gap-1 text-sm text-[#ce861b] hover:text-[#b67616]"
+              >
+                <CheckCheck className="h-4 w-4" />
+                Alles gelezen
+              </button>
+            )}
+          </div>
+
+          {error && <div className="bg-red-50 text-red-500 p-3 text-sm">{error}</div>}
+
+          {alerts.length === 0 ? (
+            <p className="px-4 py-6 text-center text-sm text-gray-500">Geen meldingen</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+              {alerts.map(alert => {
+                const unread = isUnread(alert);
+                const content = (
+                  <div className="flex gap-3">
+                    <span
+                      className={`mt-1.5 h-2 w-2 flex-shrink-0 rounded-full ${SEVERITY_STYLES[alert.severity]}`}
+                      title={ALERT_SEVERITY_LABELS[alert.severity]}
+                    />
+                    <div className="min-w-0 flex-1">
+                      <p className={`text-sm ${unread ? 'font-semibold text-gray-900' : 'text-gray-700'}`}>{alert.title}</p>
+                      {alert.body && <p className="text-sm text-gray-600 line-clamp-2">{alert.body}</p>}
+                      <p className="text-xs text-gray-400 mt-1">
+                        {formatDistanceToNow(new Date(alert.created_at), { locale: nl, addSuffix: true })}
+                      </p>
+                    </div>
+                  </div>
+                );
+
+                return (
+                  <li key={alert.id} className={unread ? 'bg-amber-50' : ''}>
+                    {alert.session_id ? (
+                      <Link
+                        to={`/sessions/${encodeURIComponent(alert.session_id)}${alert.message_id ? `?message=${alert.message_id}` : ''}`}
+                        onClick={() => handleOpen(alert)}
+                        className="block px-4 py-3 hover:bg-gray-50"
+                      >
+                        {content}
+                      </Link>
+                    ) : (
+                      <button onClick={() => handleOpen(alert)} className="block w-full text-left px-4 py-3 hover:bg-gray-50">
+                        {content}
+                      </button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { RoleContext } from '../lib/roleContext';
+import type { Role } from '../lib/roles';
+
+export function RoleProvider({ children }: { children: React.ReactNode }) {
+  const [role, setRole] = useState<Role | null>(null);
+
+  useEffect(() => {
+    const fetchRole = async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        setRole(null);
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from('users')
+        .select('role')
+        .eq('id', user.id)
+        .single();
+
+      if (error) {
+        console.error('Error fetching role:', error);
+        setRole(null);
+        return;
+      }
+
+      setRole(data.role);
+    };
+
+    fetchRole();
+  }, []);
+
+  return <RoleContext.Provider value={role}>{children}</RoleContext.Provider>;
+}
@@ -0,0 +1,83 @@
+import { format } from 'date-fns';
+import type { Database } from '../lib/database.types';
+
+export type SearchHit = Database['public']['Functions']['search_messages']['Returns'][number];
+
+interface SearchResultsProps {
+  results: SearchHit[];
+  selectedSessionId: string | null;
+  onHitSelect: (sessionId: string, messageId: string) => void;
+}
+
+// Splitst de ts_headline snippet op <mark> tags en rendert die als tekst, zonder innerHTML
+function HighlightedSnippet({ snippet }: { snippet: string }) {
+  const parts = snippet.split(/<mark>|<\/mark>/);
+
+  return (
+    <>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-[#ffd7a3] text-gray-900 rounded px-0.5">
+            {part}
+          </mark>
+        ) : (
+          <span key={index}>{part}</span>
+        )
+      )}
+    </>
+  );
+}
+
+export function SearchResults({ results, selectedSessionId, onHitSelect }: SearchResultsProps) {
+  // Groepeer de treffers per sessie, in volgorde van de best scorende treffer
+  const sessions = results.reduce((acc, hit) => {
+    const existing = acc.find(group => group.sessionId === hit.session_id);
+    if (existing) {
+      existing.hits.push(hit);
+    } else {
+      acc.push({ sessionId: hit.session_id, startTime: hit.session_start_time, hits: [hit] });
+    }
+    return acc;
+  }, [] as { sessionId: string; startTime: string; hits: SearchHit[] }[]);
+
+  if (sessions.length === 0) {
+    return <div className="p-4 text-gray-600">Geen berichten gevonden</div>;
+  }
+
+  return (
+    <div>
+      <div className="px-4 py-2 text-sm text-gray-500 border-b border-gray-200">
+        {results.length} {results.length === 1 ? 'treffer' : 'treffers'} in {sessions.length}{' '}
+        {sessions.length === 1 ? 'sessie' : 'sessies'}
+      </div>
+      {sessions.map(({ sessionId, startTime, hits }) => (
+        <div
+          key={sessionId}
+          className={`p-4 border-b border-gray-200 ${selectedSessionId === sessionId ? 'bg-gray-50' : ''}`}
+        >
+          <div className="flex items-center justify-between mb-2">
+            <span className="font-medium text-gray-900">Sessie {sessionId.slice(0, 8)}</span>
+            <span className="text-sm text-gray-500">{format(new Date(startTime), 'dd/MM/yyyy HH:mm')}</span>
+          </div>
+          <ul className="space-y-2">
+            {hits.map(hit => (
+              <li key={hit.message_id}>
+                <button
+                  onClick={() => onHitSelect(hit.session_id, hit.message_id)}
+                  className="w-full text-left text-sm rounded-md p-2 hover:bg-gray-100 transition-colors"
+                >
+                  <span className="text-xs text-gray-500 mr-2">
+                    {hit.sender === 'user' ? 'Gebruiker' : 'Adviseur'} · {format(new Date(hit.timestamp), 'HH:mm:ss')}
+                  </span>
+                  <span className="text-gray-700">
+                    <HighlightedSnippet snippet={hit.snippet} />
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
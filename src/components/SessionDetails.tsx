@@ -1,90 +1,97 @@
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useCallback, useEffect, useState, useRef } from 'react';
 import { format } from 'date-fns';
 import { supabase } from '../lib/supabase';
-import { motion, AnimatePresence } from 'framer-motion';
+import { motion } from 'framer-motion';
 import { MessageSquare } from 'lucide-react';
-import { syncHeyGenMessages } from '../lib/heygen';
-import { formatDistanceToNow } from 'date-fns';
-import { nl } from 'date-fns/locale';
-
-interface Message {
-  id: string;
-  session_id: string;
-  sender: 'user' | 'avatar';
-  message: string;
-  timestamp: string;
-  created_at: string;
-}
+import { requestHeyGenSync } from '../lib/heygen';
+import { ExportMenu } from './ExportMenu';
+import { SessionHistory } from './SessionHistory';
+import { SessionTopicChips } from './TopicChips';
+import { SessionTagEditor } from './SessionTagEditor';
+import { SessionNotes } from './SessionNotes';
+import { AnswerAnnotation } from './AnswerAnnotation';
+import { usePermission } from '../lib/roleContext';
+import { fetchMessageAnnotations, type MessageAnnotation } from '../lib/answerQuality';
+import { useVirtualList } from '../lib/virtualList';
+import {
+  fetchEarlierMessages,
+  fetchLatestMessages,
+  fetchLaterMessages,
+  insertMessage,
+  replaceMessage,
+  type MessageWindow,
+  type TranscriptMessage,
+} from '../lib/transcriptWindow';
 
 interface SessionDetailsProps {
   sessionId: string;
+  focusMessageId?: string | null;
 }
 
-interface SessionStats {
-  messageCount: number;
-  duration: string | null;
-  firstMessage: string | null;
-  lastMessage: string | null;
-}
+// Zo dicht bij de boven- of onderkant (in pixels) wordt het vorige of volgende venster al geladen
+const LOAD_WINDOW_THRESHOLD = 200;
 
-export function SessionDetails({ sessionId }: SessionDetailsProps) {
-  const [messages, setMessages] = useState<Message[]>([]);
+export function SessionDetails({ sessionId, focusMessageId = null }: SessionDetailsProps) {
+  const [transcript, setTranscript] = useState<MessageWindow>({ messages: [], hasEarlier: false, hasLater: false });
+  const { messages, hasEarlier, hasLater } = transcript;
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingEarlier, setIsLoadingEarlier] = useState(false);
+  const [isLoadingLater, setIsLoadingLater] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
-  const messagesEndRef = useRef<HTMLDivElement>(null);
   const [newMessageCount, setNewMessageCount] = useState(0);
-  const channelRef = useRef<ReturnType<typeof supabase.channel> | null>(null);
-  const [stats, setStats] = useState<SessionStats>({
-    messageCount: 0,
-    duration: null,
-    firstMessage: null,
-    lastMessage: null
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const isAtBottom = useRef(true);
+  // Laatste venster voor de realtime handler, die maar één keer per sessie wordt ingesteld
+  const currentTranscript = useRef(transcript);
+  currentTranscript.current = transcript;
+  // Na het laden één keer naar het gezochte bericht scrollen in plaats van naar beneden
+  const pendingFocus = useRef<string | null>(null);
+  const loadGeneration = useRef(0);
+  const canViewHistory = usePermission('viewAuditLog');
+  const canAnnotate = usePermission('annotateSessions');
+  const [annotations, setAnnotations] = useState<Map<string, MessageAnnotation>>(new Map());
+
+  const virtualList = useVirtualList({
+    count: messages.length,
+    getKey: index => messages[index].id,
+    estimateSize: 80,
+    keepScrollAnchor: true,
   });
+  const { scrollRef, scrollToIndex } = virtualList;
+
+  const setContainer = useCallback((element: HTMLDivElement | null) => {
+    containerRef.current = element;
+    scrollRef(element);
+  }, [scrollRef]);
 
   const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    containerRef.current?.scrollTo({ top: containerRef.current.scrollHeight, behavior: 'smooth' });
   };
 
+  // Onderaan blijven terwijl er berichten bijkomen of bubbles opnieuw gemeten worden
   useEffect(() => {
-    scrollToBottom();
-    setNewMessageCount(0);
-  }, [messages]);
-
-  useEffect(() => {
-    const messagesContainer = document.querySelector('.messages-container');
-    if (!messagesContainer) return;
-
-    const handleScroll = () => {
-      const { scrollTop, scrollHeight, clientHeight } = messagesContainer;
-      const isAtBottom = Math.abs(scrollHeight - clientHeight - scrollTop) < 50;
-      
-      if (isAtBottom) {
-        setNewMessageCount(0);
+    const container = containerRef.current;
+    if (!container) return;
+
+    if (pendingFocus.current) {
+      const index = messages.findIndex(message => message.id === pendingFocus.current);
+      pendingFocus.current = null;
+      if (index !== -1) {
+        isAtBottom.current = false;
+        scrollToIndex(index);
+        return;
       }
-    };
-
-    messagesContainer.addEventListener('scroll', handleScroll);
-    return () => messagesContainer.removeEventListener('scroll', handleScroll);
-  }, []);
-
-  const refreshMessages = async () => {
-    if (!sessionId || isRefreshing) return;
+    }
 
-    try {
-      setIsRefreshing(true);
-      await syncHeyGenMessages(sessionId);
-      await fetchMessages();
-    } catch (err) {
-      console.error('Error refreshing messages:', err);
-      setError(err instanceof Error ? err.message : 'Berichten vernieuwen mislukt');
-    } finally {
-      setIsRefreshing(false);
+    if (isAtBottom.current) {
+      container.scrollTop = container.scrollHeight;
     }
-  };
+  }, [messages, virtualList.totalSize, scrollToIndex]);
 
-  const fetchMessages = async () => {
+  const loadMessages = useCallback(async () => {
     if (!sessionId) return;
+    const generation = ++loadGeneration.current;
 
     try {
       setIsLoading(true);
@@ -101,55 +108,119 @@ export function SessionDetails({ sessionId }: SessionDetailsProps) {
         throw new Error('Sessie niet gevonden');
       }
 
-      // Fetch messages with strict session_id filtering
-      const { data: messagesData, error: messagesError } = await supabase
-        .from('messages')
-        .select('*')
-        .eq('session_id', sessionId)
-        .order('timestamp', { ascending: true });
-
-      if (messagesError) {
-        throw messagesError;
-      }
+      const transcript = await fetchLatestMessages(sessionId, focusMessageId);
+      if (generation !== loadGeneration.current) return;
 
-      if (messagesData) {
-        setMessages(messagesData);
-        
-        // Bereken statistieken
-        const firstMessage = new Date(messagesData[0].created_at);
-        const lastMessage = new Date(messagesData[messagesData.length - 1].created_at);
-        
-        setStats({
-          messageCount: messagesData.length,
-          duration: formatDistanceToNow(firstMessage, {
-            locale: nl,
-            addSuffix: false
-          }),
-          firstMessage: firstMessage.toLocaleString('nl-NL'),
-          lastMessage: lastMessage.toLocaleString('nl-NL')
-        });
-      }
+      isAtBottom.current = true;
+      pendingFocus.current = focusMessageId;
+      setNewMessageCount(0);
+      setTranscript(transcript);
     } catch (err) {
       console.error('Error fetching messages:', err);
       setError(err instanceof Error ? err.message : 'Berichten ophalen mislukt');
     } finally {
-      setIsLoading(false);
+      if (generation === loadGeneration.current) setIsLoading(false);
+    }
+  }, [sessionId, focusMessageId]);
+
+  const loadEarlier = async () => {
+    const oldest = messages[0];
+    if (!hasEarlier || isLoadingEarlier || !oldest) return;
+    const generation = loadGeneration.current;
+
+    try {
+      setIsLoadingEarlier(true);
+      const earlier = await fetchEarlierMessages(sessionId, oldest);
+      if (generation !== loadGeneration.current) return;
+
+      // De scrollpositie blijft op het bericht dat bovenaan stond (keepScrollAnchor)
+      setTranscript(prev => {
+        const loaded = new Set(prev.messages.map(message => message.id));
+        return {
+          ...prev,
+          messages: [...earlier.messages.filter(message => !loaded.has(message.id)), ...prev.messages],
+          hasEarlier: earlier.hasEarlier,
+        };
+      });
+    } catch (err) {
+      console.error('Error fetching earlier messages:', err);
+      setError(err instanceof Error ? err.message : 'Eerdere berichten ophalen mislukt');
+    } finally {
+      setIsLoadingEarlier(false);
     }
   };
 
-  // Setup real-time subscription
-  useEffect(() => {
-    if (!sessionId) return;
+  // Alleen na een venster rond een bericht: de berichten daarna, tot en met de nieuwste
+  const loadLater = async () => {
+    const newest = messages[messages.length - 1];
+    if (!hasLater || isLoadingLater || !newest) return;
+    const generation = loadGeneration.current;
+
+    try {
+      setIsLoadingLater(true);
+      const later = await fetchLaterMessages(sessionId, newest);
+      if (generation !== loadGeneration.current) return;
+
+      setTranscript(prev => {
+        const loaded = new Set(prev.messages.map(message => message.id));
+        return {
+          ...prev,
+          messages: [...prev.messages, ...later.messages.filter(message => !loaded.has(message.id))],
+          hasLater: later.hasLater,
+        };
+      });
+    } catch (err) {
+      console.error('Error fetching later messages:', err);
+      setError(err instanceof Error ? err.message : 'Latere berichten ophalen mislukt');
+    } finally {
+      setIsLoadingLater(false);
+    }
+  };
+
+  const handleScroll = () => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const { scrollTop, scrollHeight, clientHeight } = container;
+    const distanceToBottom = scrollHeight - clientHeight - scrollTop;
+    // Zolang er latere vensters zijn is de onderkant niet het einde van het transcript
+    isAtBottom.current = !hasLater && Math.abs(distanceToBottom) < 50;
 
-    // Cleanup previous subscription
-    if (channelRef.current) {
-      supabase.removeChannel(channelRef.current);
+    if (isAtBottom.current) {
+      setNewMessageCount(0);
+    }
+    if (scrollTop < LOAD_WINDOW_THRESHOLD) {
+      loadEarlier();
+    }
+    if (distanceToBottom < LOAD_WINDOW_THRESHOLD) {
+      loadLater();
+    }
+  };
+
+  const refreshMessages = async () => {
+    if (!sessionId || isRefreshing) return;
+
+    try {
+      setIsRefreshing(true);
+      await requestHeyGenSync(sessionId);
+      await loadMessages();
+    } catch (err) {
+      console.error('Error refreshing messages:', err);
+      setError(err instanceof Error ? err.message : 'Berichten vernieuwen mislukt');
+    } finally {
+      setIsRefreshing(false);
     }
+  };
+
+  useEffect(() => {
+    loadMessages();
+  }, [loadMessages]);
 
-    fetchMessages();
+  // Realtime wijzigingen worden op hun plek in het geladen venster verwerkt
+  useEffect(() => {
+    if (!sessionId) return;
 
-    // Setup new subscription
-    channelRef.current = supabase.channel(`messages_${sessionId}_${Date.now()}`)
+    const channel = supabase.channel(`messages_${sessionId}_${Date.now()}`)
       .on(
         'postgres_changes',
         {
@@ -159,116 +230,106 @@ export function SessionDetails({ sessionId }: SessionDetailsProps) {
           filter: `session_id=eq.${sessionId}`,
         },
         (payload) => {
-          const messagesContainer = document.querySelector('.messages-container');
-          const isAtBottom = messagesContainer 
-            ? Math.abs(messagesContainer.scrollHeight - messagesContainer.clientHeight - messagesContainer.scrollTop) < 50
-            : true;
-
           if (payload.eventType === 'INSERT') {
-            setMessages(prev => {
-              const newMessage = payload.new as Message;
-              // Only add if it belongs to this session and isn't already present
-              if (newMessage.session_id !== sessionId || prev.some(msg => msg.id === newMessage.id)) {
-                return prev;
-              }
-              if (!isAtBottom) {
-                setNewMessageCount(count => count + 1);
-              }
-              return [...prev, newMessage].sort((a, b) => 
-                new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-              );
-            });
-          } else if (payload.eventType === 'DELETE') {
-            const deletedMessage = payload.old as Message;
-            if (deletedMessage.session_id === sessionId) {
-              setMessages(prev => prev.filter(msg => msg.id !== deletedMessage.id));
+            const message = payload.new as TranscriptMessage;
+            // Alleen meetellen als het bericht in het geladen venster terechtkomt (niet bij `hasLater`)
+            const { current } = currentTranscript;
+            if (!isAtBottom.current && insertMessage(current, message) !== current.messages) {
+              setNewMessageCount(count => count + 1);
             }
+            setTranscript(prev => ({
+              ...prev,
+              messages: insertMessage(prev, message),
+            }));
           } else if (payload.eventType === 'UPDATE') {
-            const updatedMessage = payload.new as Message;
-            if (updatedMessage.session_id === sessionId) {
-              setMessages(prev => 
-                prev.map(msg => 
-                  msg.id === updatedMessage.id ? updatedMessage : msg
-                ).sort((a, b) => 
-                  new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-                )
-              );
-            }
+            setTranscript(prev => ({
+              ...prev,
+              messages: replaceMessage(prev, payload.new as TranscriptMessage),
+            }));
+          } else if (payload.eventType === 'DELETE') {
+            const { id } = payload.old as Pick<TranscriptMessage, 'id'>;
+            setTranscript(prev => ({ ...prev, messages: prev.messages.filter(message => message.id !== id) }));
           }
         }
       )
       .subscribe();
 
     return () => {
-      if (channelRef.current) {
-        supabase.removeChannel(channelRef.current);
-        channelRef.current = null;
-      }
+      supabase.removeChannel(channel);
     };
   }, [sessionId]);
 
-  useEffect(() => {
-    const fetchStats = async () => {
-      console.log('Fetching stats for session:', sessionId);
-      const { data, error } = await supabase
-        .from('session_stats')
-        .select('*')
-        .eq('session_id', sessionId);
+  const setAnnotationFor = useCallback((messageId: string, annotation: MessageAnnotation | null) => {
+    setAnnotations(prev => {
+      if (!annotation && !prev.has(messageId)) return prev;
+      const next = new Map(prev);
+      if (annotation) next.set(messageId, annotation);
+      else next.delete(messageId);
+      return next;
+    });
+  }, []);
 
-      if (error) {
-        console.error('Error fetching stats:', error);
-      } else {
-        console.log('Fetched stats:', data);
-        setStats(data[0]);
+  // Oordelen over antwoorden; wijzigingen van andere reviewers komen binnen via realtime
+  useEffect(() => {
+    const loadAnnotations = async () => {
+      try {
+        const data = await fetchMessageAnnotations(sessionId);
+        setAnnotations(new Map(data.map(annotation => [annotation.message_id, annotation])));
+      } catch (err) {
+        console.error('Error fetching annotations:', err);
       }
     };
 
-    if (sessionId) {
-      fetchStats();
-    }
-  }, [sessionId]);
+    loadAnnotations();
 
-  const messageVariants = {
-    initial: { 
-      opacity: 0,
-      y: 20,
-      scale: 0.95
-    },
-    animate: { 
-      opacity: 1,
-      y: 0,
-      scale: 1,
-      transition: {
-        type: "spring",
-        stiffness: 500,
-        damping: 30
-      }
-    },
-    exit: { 
-      opacity: 0,
-      scale: 0.9,
-      transition: {
-        duration: 0.2
-      }
-    }
-  };
+    // DELETE events laten zich niet filteren en bevatten alleen de primary key (message_id)
+    const channel = supabase.channel(`message_annotations_${sessionId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'message_annotations', filter: `session_id=eq.${sessionId}` },
+        () => loadAnnotations()
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'message_annotations', filter: `session_id=eq.${sessionId}` },
+        () => loadAnnotations()
+      )
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'message_annotations' },
+        (payload) => {
+          const { message_id } = payload.old as Pick<MessageAnnotation, 'message_id'>;
+          setAnnotationFor(message_id, null);
+        }
+      )
+      .subscribe();
 
-  if (!stats) return <div>Loading...</div>;
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [sessionId, setAnnotationFor]);
 
   return (
     <div className="p-4">
       <div className="bg-white rounded-lg shadow flex flex-col h-[calc(100vh-16rem)]">
         <div className="p-4 border-b border-gray-200 flex justify-between items-center">
-          <h2 className="text-lg font-semibold text-gray-900">
-            Chat Sessie {sessionId}
-          </h2>
-          <button
-            onClick={refreshMessages}
-            disabled={isRefreshing}
-            className="inline-flex items-center px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#ce861b] disabled:opacity-50"
-          >
-            {isRefreshing ? 'Berichten verversen...' : 'Berichten verversen'}
-          </button>
+          <div className="space-y-1">
+            <h2 className="text-lg font-semibold text-gray-900">
+              Chat Sessie {sessionId}
+            </h2>
+            <SessionTopicChips sessionId={sessionId} />
+            <SessionTagEditor sessionId={sessionId} onError={setError} />
+          </div>
+          <div className="flex items-center gap-2">
+            <ExportMenu sessionIds={[sessionId]} onError={setError} />
+            <button
+              onClick={refreshMessages}
+              disabled={isRefreshing}
+              className="inline-flex items-center px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#ce861b] disabled:opacity-50"
+            >
+              {isRefreshing ? 'Berichten verversen...' : 'Berichten verversen'}
+            </button>
+          </div>
         </div>
         
         {error && (
@@ -282,83 +343,121 @@ export function SessionDetails({ sessionId }: SessionDetailsProps) {
           </motion.div>
         )}
 
-        <div className="flex-1 p-4 space-y-4 overflow-y-auto messages-container relative">
-          {isLoading ? (
-            <div className="flex items-center justify-center h-full">
+        <div className="flex-1 min-h-0 relative">
+          {hasEarlier && !isLoading && (
+            <div className="absolute top-2 inset-x-0 z-10 flex justify-center pointer-events-none">
+              <button
+                onClick={loadEarlier}
+                disabled={isLoadingEarlier}
+                className="pointer-events-auto px-3 py-1 text-xs rounded-full border border-gray-300 bg-white text-gray-700 shadow-sm hover:bg-gray-50 disabled:opacity-50"
+              >
+                {isLoadingEarlier ? 'Eerdere berichten laden...' : 'Eerdere berichten laden'}
+              </button>
+            </div>
+          )}
+
+          <div ref={setContainer} onScroll={handleScroll} className="h-full px-4 overflow-y-auto">
+            {isLoading ? (
+              <div className="flex items-center justify-center h-full">
+                <motion.div
+                  animate={{
+                    scale: [1, 1.2, 1],
+                    rotate: [0, 180, 360]
+                  }}
+                  transition={{
+                    duration: 2,
+                    repeat: Infinity,
+                    ease: "easeInOut"
+                  }}
+                  className="text-[#ce861b]"
+                >
+                  <MessageSquare size={32} />
+                </motion.div>
+              </div>
+            ) : messages.length === 0 ? (
               <motion.div
-                animate={{
-                  scale: [1, 1.2, 1],
-                  rotate: [0, 180, 360]
-                }}
-                transition={{
-                  duration: 2,
-                  repeat: Infinity,
-                  ease: "easeInOut"
-                }}
-                className="text-[#ce861b]"
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="py-4 text-center text-gray-500"
               >
-                <MessageSquare size={32} />
+                Geen berichten gevonden voor deze sessie
               </motion.div>
+            ) : (
+              // Alleen de zichtbare bubbles staan in de DOM; de afstand zit in de padding van elke rij
+              <div className="relative" style={{ height: virtualList.totalSize }}>
+                {virtualList.items.map(({ index, key, start }) => {
+                  const message = messages[index];
+
+                  return (
+                    <div
+                      key={key}
+                      ref={virtualList.measureElement(key)}
+                      id={`message-${message.id}`}
+                      className={`absolute inset-x-0 top-0 py-2 flex ${
+                        message.sender === 'user' ? 'justify-end' : 'justify-start'
+                      }`}
+                      style={{ transform: `translateY(${start}px)` }}
+                    >
+                      <div
+                        className={`max-w-lg rounded-lg px-4 py-2 ${
+                          message.sender === 'user'
+                            ? 'bg-[#ce861b] text-white'
+                            : 'bg-gray-100 text-gray-900'
+                        } ${message.id === focusMessageId ? 'ring-2 ring-offset-2 ring-[#ce861b]' : ''}`}
+                      >
+                        <div className="text-sm whitespace-pre-wrap break-words">
+                          {message.message}
+                        </div>
+                        <div className={`text-xs mt-1 ${
+                          message.sender === 'user' ? 'text-[#ffd7a3]' : 'text-gray-500'
+                        }`}>
+                          {format(new Date(message.timestamp), 'HH:mm:ss')}
+                        </div>
+                        {message.sender === 'avatar' && (
+                          <AnswerAnnotation
+                            messageId={message.id}
+                            annotation={annotations.get(message.id)}
+                            canAnnotate={canAnnotate}
+                            onChange={annotation => setAnnotationFor(message.id, annotation)}
+                            onError={setError}
+                          />
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          {hasLater && !isLoading && newMessageCount === 0 && (
+            <div className="absolute bottom-2 inset-x-0 z-10 flex justify-center pointer-events-none">
+              <button
+                onClick={loadLater}
+                disabled={isLoadingLater}
+                className="pointer-events-auto px-3 py-1 text-xs rounded-full border border-gray-300 bg-white text-gray-700 shadow-sm hover:bg-gray-50 disabled:opacity-50"
+              >
+                {isLoadingLater ? 'Latere berichten laden...' : 'Latere berichten laden'}
+              </button>
             </div>
-          ) : messages.length === 0 ? (
-            <motion.div
+          )}
+
+          {newMessageCount > 0 && (
+            <motion.button
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
-              className="text-center text-gray-500"
+              exit={{ opacity: 0, y: 20 }}
+              onClick={scrollToBottom}
+              className="absolute bottom-4 left-1/2 transform -translate-x-1/2 bg-[#ce861b] text-white px-4 py-2 rounded-full shadow-lg hover:bg-[#b67616] transition-colors"
             >
-              Geen berichten gevonden voor deze sessie
-            </motion.div>
-          ) : (
-            <AnimatePresence mode="popLayout">
-              {messages.map((message) => (
-                <motion.div
-                  key={message.id}
-                  layout
-                  variants={messageVariants}
-                  initial="initial"
-                  animate="animate"
-                  exit="exit"
-                  className={`flex ${
-                    message.sender === 'user' ? 'justify-end' : 'justify-start'
-                  }`}
-                >
-                  <div
-                    className={`max-w-lg rounded-lg px-4 py-2 ${
-                      message.sender === 'user'
-                        ? 'bg-[#ce861b] text-white'
-                        : 'bg-gray-100 text-gray-900'
-                    }`}
-                  >
-                    <div className="text-sm whitespace-pre-wrap break-words">
-                      {message.message}
-                    </div>
-                    <div className={`text-xs mt-1 ${
-                      message.sender === 'user' ? 'text-[#ffd7a3]' : 'text-gray-500'
-                    }`}>
-                      {format(new Date(message.timestamp), 'HH:mm:ss')}
-                    </div>
-                  </div>
-                </motion.div>
-              ))}
-            </AnimatePresence>
+              {newMessageCount} nieuwe {newMessageCount === 1 ? 'bericht' : 'berichten'}
+            </motion.button>
           )}
-          <div ref={messagesEndRef} />
         </div>
-
-        {newMessageCount > 0 && (
-          <motion.button
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            exit={{ opacity: 0, y: 20 }}
-            onClick={scrollToBottom}
-            className="absolute bottom-4 left-1/2 transform -translate-x-1/2 bg-[#ce861b] text-white px-4 py-2 rounded-full shadow-lg hover:bg-[#b67616] transition-colors"
-          >
-            {newMessageCount} nieuwe {newMessageCount === 1 ? 'bericht' : 'berichten'}
-          </motion.button>
-        )}
       </div>
 
-      
+      <SessionNotes sessionId={sessionId} />
+      {canViewHistory && <SessionHistory sessionId={sessionId} />}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { History } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { fetchAuditLog, getActionLabel, type AuditLogEntry } from '../lib/audit';
+
+interface SessionHistoryProps {
+  sessionId: string;
+}
+
+// Tijdlijn van beheeracties op één sessie, uit de audit log
+export function SessionHistory({ sessionId }: SessionHistoryProps) {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      try {
+        setError(null);
+        setEntries(await fetchAuditLog({ sessionId }));
+      } catch (err) {
+        console.error('Error fetching session history:', err);
+        setError(err instanceof Error ? err.message : 'Geschiedenis ophalen mislukt');
+      }
+    };
+
+    loadHistory();
+
+    // De audit log zelf zit niet in de realtime publicatie; een wijziging van de sessie is het signaal
+    const channel = supabase.channel(`session_history_${sessionId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'sessions', filter: `session_id=eq.${sessionId}` },
+        () => loadHistory()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [sessionId]);
+
+  return (
+    <div className="bg-white rounded-lg shadow mt-4">
+      <div className="p-4 border-b border-gray-200 flex items-center gap-2">
+        <History className="h-4 w-4 text-gray-500" />
+        <h3 className="text-sm font-semibold text-gray-900">Geschiedenis</h3>
+      </div>
+
+      {error ? (
+        <p className="p-4 text-sm text-red-700">{error}</p>
+      ) : entries.length === 0 ? (
+        <p className="p-4 text-sm text-gray-500">Nog geen acties op deze sessie</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {entries.map(entry => (
+            <li key={entry.id} className="px-4 py-2 flex items-center justify-between text-sm">
+              <span className="text-gray-900">
+                {getActionLabel(entry.action)}
+                <span className="text-gray-500"> door {entry.actor_email ?? 'systeem'}</span>
+              </span>
+              <span className="text-gray-500 whitespace-nowrap ml-4">
+                {format(new Date(entry.created_at), 'dd/MM/yyyy HH:mm')}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
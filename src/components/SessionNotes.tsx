@@ -0,0 +1,244 @@
+import { useCallback, useEffect, useState, type FormEvent } from 'react';
+import { format } from 'date-fns';
+import { CornerDownRight, Pencil, StickyNote, Trash2 } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { usePermission } from '../lib/roleContext';
+import {
+  addSessionNote,
+  deleteSessionNote,
+  fetchSessionNotes,
+  updateSessionNote,
+  type SessionNote,
+} from '../lib/sessionReview';
+
+interface SessionNotesProps {
+  sessionId: string;
+}
+
+interface NoteFormProps {
+  initialBody?: string;
+  placeholder: string;
+  submitLabel: string;
+  onSubmit: (body: string) => Promise<void>;
+  onCancel?: () => void;
+}
+
+function NoteForm({ initialBody = '', placeholder, submitLabel, onSubmit, onCancel }: NoteFormProps) {
+  const [body, setBody] = useState(initialBody);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) return;
+
+    setIsSaving(true);
+    try {
+      await onSubmit(body);
+      setBody('');
+    } catch {
+      // De foutmelding toont SessionNotes; de tekst blijft staan voor een nieuwe poging
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        rows={2}
+        placeholder={placeholder}
+        className="w-full border rounded-md px-2 py-1 text-sm"
+      />
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="px-3 py-1 text-sm text-gray-600 hover:text-gray-900">
+            Annuleren
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={isSaving || !body.trim()}
+          className="bg-[#ce861b] text-white px-3 py-1 text-sm rounded-md hover:bg-[#b67616] disabled:opacity-50"
+        >
+          {isSaving ? 'Opslaan...' : submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+// Interne notities per sessie, met één niveau replies; realtime zodat reviewers elkaars notities zien
+export function SessionNotes({ sessionId }: SessionNotesProps) {
+  const [notes, setNotes] = useState<SessionNote[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const canWrite = usePermission('annotateSessions');
+  const canModerate = usePermission('moderateNotes');
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data: { user } }) => setCurrentUserId(user?.id ?? null));
+  }, []);
+
+  const loadNotes = useCallback(async () => {
+    try {
+      setNotes(await fetchSessionNotes(sessionId));
+    } catch (err) {
+      console.error('Error fetching session notes:', err);
+      setError(err instanceof Error ? err.message : 'Notities ophalen mislukt');
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    loadNotes();
+
+    // DELETE events laten zich niet filteren en bevatten alleen de primary key, dus die
+    // komen ongefilterd binnen en worden vergeleken met de notities in beeld
+    const channel = supabase.channel(`session_notes_${sessionId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'session_notes', filter: `session_id=eq.${sessionId}` },
+        () => loadNotes()
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'session_notes', filter: `session_id=eq.${sessionId}` },
+        () => loadNotes()
+      )
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'session_notes' },
+        (payload) => {
+          const { id } = payload.old as Pick<SessionNote, 'id'>;
+          setNotes(prev => prev.filter(note => note.id !== id && note.parent_id !== id));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [sessionId, loadNotes]);
+
+  const runAction = async (action: () => Promise<void>, fallback: string) => {
+    try {
+      setError(null);
+      await action();
+    } catch (err) {
+      console.error('Error saving session note:', err);
+      setError(err instanceof Error ? err.message : fallback);
+      throw err;
+    }
+  };
+
+  const handleDelete = async (note: SessionNote) => {
+    if (!window.confirm('Notitie verwijderen? Replies worden ook verwijderd.')) return;
+    await runAction(async () => {
+      await deleteSessionNote(note.id);
+      // Replies verdwijnen via ON DELETE CASCADE
+      setNotes(prev => prev.filter(existing => existing.id !== note.id && existing.parent_id !== note.id));
+    }, 'Notitie verwijderen mislukt').catch(() => undefined);
+  };
+
+  const topLevel = notes.filter(note => !note.parent_id);
+  const repliesFor = (noteId: string) => notes.filter(note => note.parent_id === noteId);
+
+  const renderNote = (note: SessionNote) => {
+    const isOwn = note.author_id !== null && note.author_id === currentUserId;
+
+    return (
+      <div className="space-y-1">
+        <div className="flex items-center justify-between text-xs text-gray-500">
+          <span>
+            <span className="font-medium text-gray-700">{note.author_email ?? 'Onbekend'}</span>
+            {' · '}{format(new Date(note.created_at), 'dd/MM/yyyy HH:mm')}
+            {note.updated_at !== note.created_at && ' (bewerkt)'}
+          </span>
+          <span className="flex items-center gap-1">
+            {canWrite && isOwn && (
+              <button onClick={() => setEditing(note.id)} className="p-1 hover:bg-gray-100 rounded" title="Bewerken">
+                <Pencil className="h-3 w-3" />
+              </button>
+            )}
+            {(isOwn || canModerate) && (
+              <button onClick={() => handleDelete(note)} className="p-1 hover:bg-gray-100 rounded" title="Verwijderen">
+                <Trash2 className="h-3 w-3 text-red-600" />
+              </button>
+            )}
+          </span>
+        </div>
+        {editing === note.id ? (
+          <NoteForm
+            initialBody={note.body}
+            placeholder="Notitie"
+            submitLabel="Opslaan"
+            onSubmit={body => runAction(() => updateSessionNote(note.id, body), 'Notitie opslaan mislukt').then(() => setEditing(null))}
+            onCancel={() => setEditing(null)}
+          />
+        ) : (
+          <p className="text-sm text-gray-900 whitespace-pre-wrap">{note.body}</p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow mt-4">
+      <div className="p-4 border-b border-gray-200 flex items-center gap-2">
+        <StickyNote className="h-4 w-4 text-gray-500" />
+        <h3 className="text-sm font-semibold text-gray-900">Notities</h3>
+      </div>
+
+      {error && <p className="px-4 pt-4 text-sm text-red-700">{error}</p>}
+
+      {topLevel.length === 0 ? (
+        <p className="p-4 text-sm text-gray-500">Nog geen notities bij deze sessie</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {topLevel.map(note => (
+            <li key={note.id} className="p-4 space-y-3">
+              {renderNote(note)}
+
+              {repliesFor(note.id).map(reply => (
+                <div key={reply.id} className="ml-6 flex gap-2">
+                  <CornerDownRight className="h-4 w-4 text-gray-300 flex-shrink-0" />
+                  <div className="flex-1">{renderNote(reply)}</div>
+                </div>
+              ))}
+
+              {canWrite && (
+                replyTo === note.id ? (
+                  <div className="ml-6">
+                    <NoteForm
+                      placeholder="Reageren"
+                      submitLabel="Reageren"
+                      onSubmit={body => runAction(() => addSessionNote(sessionId, body, note.id), 'Reactie plaatsen mislukt').then(() => setReplyTo(null))}
+                      onCancel={() => setReplyTo(null)}
+                    />
+                  </div>
+                ) : (
+                  <button onClick={() => setReplyTo(note.id)} className="ml-6 text-xs text-[#ce861b] hover:text-[#b67616]">
+                    Reageren
+                  </button>
+                )
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canWrite && (
+        <div className="p-4 border-t border-gray-200">
+          <NoteForm
+            placeholder="Interne notitie toevoegen, alleen zichtbaar voor het team"
+            submitLabel="Notitie plaatsen"
+            onSubmit={body => runAction(() => addSessionNote(sessionId, body), 'Notitie plaatsen mislukt')}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
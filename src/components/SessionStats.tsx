@@ -1,14 +1,27 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
 
-interface SessionStats {
-  session_id: string;
-  totalmessages: number;
-  usermessages: number;
-  avatarmessages: number;
-  averageresponsetime: number;
-  sessionduration: string;
-}
+type SessionStats = Database['public']['Tables']['session_stats']['Row'];
+
+// session_stats wordt door de database bijgehouden (refresh_session_stats); hier alleen lezen en luisteren
+
+const formatSeconds = (seconds: number | null) => {
+  if (seconds === null) return '-';
+  if (seconds < 60) return `${seconds.toFixed(1)}s`;
+  return `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+};
+
+const formatWords = (words: number | null) => (words === null ? '-' : words.toFixed(1));
+
+// Postgres interval als 'HH:MM:SS(.ffffff)', eventueel met dagen ervoor
+const intervalToMinutes = (interval: string | null) => {
+  if (!interval) return null;
+  const match = interval.match(/(?:(\d+) days? )?(\d+):(\d+):(\d+(?:\.\d+)?)/);
+  if (!match) return null;
+  const [, days = '0', hours, minutes, seconds] = match;
+  return Number(days) * 1440 + Number(hours) * 60 + Number(minutes) + Number(seconds) / 60;
+};
 
 export default function SessionStats({ sessionId }: { sessionId: string }) {
   const [stats, setStats] = useState<SessionStats | null>(null);
@@ -16,151 +29,91 @@ export default function SessionStats({ sessionId }: { sessionId: string }) {
 
   useEffect(() => {
     const fetchStats = async () => {
-      if (!sessionId) return;
-
       try {
-        console.log('Fetching stats for session:', sessionId);
         const { data, error } = await supabase
           .from('session_stats')
           .select('*')
           .eq('session_id', sessionId)
-          .single();
-
-        if (error) {
-          console.error('Error fetching stats:', error);
-          return;
-        }
+          .maybeSingle();
 
-        console.log('Received stats:', data);
+        if (error) throw error;
         setStats(data);
+      } catch (err) {
+        console.error('Error fetching stats:', err);
       } finally {
         setLoading(false);
       }
     };
 
+    setLoading(true);
     fetchStats();
+
+    const channel = supabase.channel(`session_stats_${sessionId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'session_stats', filter: `session_id=eq.${sessionId}` },
+        (payload) => {
+          setStats(payload.eventType === 'DELETE' ? null : payload.new as SessionStats);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
   }, [sessionId]);
 
   if (loading) return <div>Loading...</div>;
   if (!stats) return <div>Geen statistieken beschikbaar</div>;
 
-  // Formateer de responstijd naar seconden
-  const responseTimeInSeconds = (stats.averageresponsetime * 60).toFixed(1);
-  
-  // Formateer de sessieduur naar minuten
-  const [hours, minutes, seconds] = stats.sessionduration.split(':');
-  const durationInMinutes = (
-    parseInt(hours) * 60 + 
-    parseInt(minutes) + 
-    parseInt(seconds.split('.')[0]) / 60
-  ).toFixed(1);
+  const durationInMinutes = intervalToMinutes(stats.sessionduration);
+  const userShare = stats.user_talk_share === null ? null : Math.round(stats.user_talk_share * 100);
+
+  const tiles = [
+    { label: 'Totaal Berichten', value: stats.totalmessages },
+    { label: 'Gebruiker Berichten', value: stats.usermessages },
+    { label: 'Adviseur Berichten', value: stats.avatarmessages },
+    { label: 'Beurten', value: stats.turn_count },
+    { label: 'Gemiddelde Responstijd', value: formatSeconds(stats.avg_response_seconds) },
+    { label: 'Langste Stilte', value: formatSeconds(stats.longest_silence_seconds) },
+    {
+      label: 'Woorden per Bericht',
+      value: `${formatWords(stats.user_words_per_message)} / ${formatWords(stats.avatar_words_per_message)}`,
+      hint: 'gebruiker / adviseur',
+    },
+    { label: 'Sessie Duur', value: durationInMinutes === null ? 'Loopt nog' : `${durationInMinutes.toFixed(1)}m` },
+  ];
 
   return (
     <div className="bg-white p-6 rounded-lg shadow-md">
       <h2 className="text-lg font-bold mb-4 border-b pb-2">Sessie Statistieken</h2>
       <div className="space-y-4">
+        {tiles.map(({ label, value, hint }) => (
+          <div key={label} className="bg-gray-50 p-4 rounded-lg">
+            <h3 className="text-sm text-gray-500 mb-1">{label}</h3>
+            <p className="text-2xl font-medium">{value}</p>
+            {hint && <p className="text-xs text-gray-500">{hint}</p>}
+          </div>
+        ))}
+
         <div className="bg-gray-50 p-4 rounded-lg">
-          <h3 className="text-sm text-gray-500 mb-1">Totaal Berichten</h3>
-          <p className="text-2xl font-medium">{stats.totalmessages}</p>
-        </div>
-        <div className="bg-gray-50 p-4 rounded-lg">
-          <h3 className="text-sm text-gray-500 mb-1">Gebruiker Berichten</h3>
-          <p className="text-2xl font-medium">{stats.usermessages}</p>
-        </div>
-        <div className="bg-gray-50 p-4 rounded-lg">
-          <h3 className="text-sm text-gray-500 mb-1">Adviseur Berichten</h3>
-          <p className="text-2xl font-medium">{stats.avatarmessages}</p>
-        </div>
-        <div className="bg-gray-50 p-4 rounded-lg">
-          <h3 className="text-sm text-gray-500 mb-1">Gemiddelde Responstijd</h3>
-          <p className="text-2xl font-medium">{responseTimeInSeconds}s</p>
-        </div>
-        <div className="bg-gray-50 p-4 rounded-lg">
-          <h3 className="text-sm text-gray-500 mb-1">Sessie Duur</h3>
-          <p className="text-2xl font-medium">{durationInMinutes}m</p>
+          <h3 className="text-sm text-gray-500 mb-2">Spreektijd Verdeling</h3>
+          {userShare === null ? (
+            <p className="text-2xl font-medium">-</p>
+          ) : (
+            <>
+              <div className="flex h-3 rounded-full overflow-hidden bg-gray-200">
+                <div className="bg-[#ce861b]" style={{ width: `${userShare}%` }} />
+                <div className="bg-gray-400" style={{ width: `${100 - userShare}%` }} />
+              </div>
+              <div className="flex justify-between text-xs text-gray-500 mt-1">
+                <span>Gebruiker {userShare}%</span>
+                <span>Adviseur {100 - userShare}%</span>
+              </div>
+            </>
+          )}
         </div>
       </div>
     </div>
   );
 }
-
-async function calculateAndStoreStats(sessionId: string) {
-  try {
-    // Haal eerst alle berichten op voor deze sessie
-    const { data: messages, error: messagesError } = await supabase
-      .from('messages')
-      .select('*')
-      .eq('session_id', sessionId);
-
-    if (messagesError) throw messagesError;
-
-    // Haal sessie informatie op
-    const { data: session, error: sessionError } = await supabase
-      .from('sessions')
-      .select('*')
-      .eq('session_id', sessionId)
-      .single();
-
-    if (sessionError) throw sessionError;
-
-    // Bereken de statistieken
-    const totalMessages = messages?.length || 0;
-    const userMessages = messages?.filter(m => m.sender === 'user').length || 0;
-    const avatarMessages = messages?.filter(m => m.sender === 'avatar').length || 0;
-    const averageResponseTime = session?.duration 
-      ? parseFloat((Date.parse(session.duration) / (1000 * 60)).toFixed(2))
-      : 0;
-    const sessionDuration = session?.duration || '00:00:00';
-
-    // Sla de statistieken op
-    const { error: insertError } = await supabase
-      .from('session_stats')
-      .insert({
-        session_id: sessionId,
-        totalmessages: totalMessages,
-        usermessages: userMessages,
-        avatarmessages: avatarMessages,
-        averageresponsetime: averageResponseTime,
-        sessionduration: sessionDuration
-      });
-
-    if (insertError) throw insertError;
-
-    console.log('Stats stored successfully for session:', sessionId);
-    
-  } catch (error) {
-    console.error('Error calculating/storing stats:', error);
-  }
-}
-
-async function onSessionEnd(sessionId) {
-  // Andere logica voor het beëindigen van de sessie
-
-  // Bereken en sla statistieken op
-  await calculateAndStoreStats(sessionId);
-}
-
-async function updateAllSessions() {
-  try {
-    const { data: sessions, error } = await supabase
-      .from('sessions')
-      .select('session_id')
-      .eq('status', 'completed');
-
-    if (error) throw error;
-
-    console.log(`Found ${sessions?.length} completed sessions to update`);
-
-    for (const session of sessions || []) {
-      await calculateAndStoreStats(session.session_id);
-    }
-
-    console.log('All session stats updated successfully');
-    
-  } catch (error) {
-    console.error('Error updating all sessions:', error);
-  }
-}
-
-// Roep de functie aan om alle sessies bij te werken
-updateAllSessions();
@@ -0,0 +1,131 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import { Tag, X } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { usePermission } from '../lib/roleContext';
+import {
+  addSessionTag,
+  fetchSessionTags,
+  fetchTagCounts,
+  normalizeTag,
+  removeSessionTag,
+  type SessionTag,
+  type TagCount,
+} from '../lib/sessionReview';
+
+interface SessionTagEditorProps {
+  sessionId: string;
+  onError: (message: string) => void;
+}
+
+// Handmatige tags van reviewers; wijzigingen van anderen komen binnen via realtime
+export function SessionTagEditor({ sessionId, onError }: SessionTagEditorProps) {
+  const [tags, setTags] = useState<SessionTag[]>([]);
+  const [suggestions, setSuggestions] = useState<TagCount[]>([]);
+  const [newTag, setNewTag] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const canAnnotate = usePermission('annotateSessions');
+
+  useEffect(() => {
+    const loadTags = () => {
+      fetchSessionTags(sessionId)
+        .then(setTags)
+        .catch(err => console.error('Error fetching session tags:', err));
+    };
+
+    loadTags();
+
+    // DELETE events laten zich niet filteren; de primary key (session_id, tag) zit wel in `old`
+    const channel = supabase.channel(`session_tags_${sessionId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'session_tags', filter: `session_id=eq.${sessionId}` },
+        () => loadTags()
+      )
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'session_tags' },
+        (payload) => {
+          const removed = payload.old as Pick<SessionTag, 'session_id' | 'tag'>;
+          if (removed.session_id !== sessionId) return;
+          setTags(prev => prev.filter(({ tag }) => tag !== removed.tag));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (!canAnnotate) return;
+    fetchTagCounts()
+      .then(setSuggestions)
+      .catch(err => console.error('Error fetching tag suggestions:', err));
+  }, [canAnnotate]);
+
+  const handleAdd = async (e: FormEvent) => {
+    e.preventDefault();
+    const tag = normalizeTag(newTag);
+    if (!tag) return;
+
+    try {
+      setIsSaving(true);
+      await addSessionTag(sessionId, tag);
+      setNewTag('');
+    } catch (err) {
+      console.error('Error adding tag:', err);
+      onError(err instanceof Error ? err.message : 'Tag toevoegen mislukt');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (tag: string) => {
+    try {
+      await removeSessionTag(sessionId, tag);
+      setTags(prev => prev.filter(existing => existing.tag !== tag));
+    } catch (err) {
+      console.error('Error removing tag:', err);
+      onError(err instanceof Error ? err.message : 'Tag verwijderen mislukt');
+    }
+  };
+
+  if (tags.length === 0 && !canAnnotate) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      <Tag className="h-3 w-3 text-gray-400" />
+      {tags.map(({ tag }) => (
+        <span key={tag} className="inline-flex items-center gap-1 px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700">
+          {tag}
+          {canAnnotate && (
+            <button onClick={() => handleRemove(tag)} className="hover:text-red-600" title="Tag verwijderen">
+              <X className="h-3 w-3" />
+            </button>
+          )}
+        </span>
+      ))}
+      {canAnnotate && (
+        <form onSubmit={handleAdd}>
+          <input
+            value={newTag}
+            onChange={(e) => setNewTag(e.target.value)}
+            disabled={isSaving}
+            list={`tag-suggestions-${sessionId}`}
+            placeholder="Tag toevoegen"
+            maxLength={40}
+            className="text-xs border-0 border-b border-dashed border-gray-300 px-1 py-0.5 w-28 focus:ring-0 focus:border-[#ce861b]"
+          />
+          <datalist id={`tag-suggestions-${sessionId}`}>
+            {suggestions
+              .filter(suggestion => !tags.some(({ tag }) => tag === suggestion.tag))
+              .map(suggestion => (
+                <option key={suggestion.tag} value={suggestion.tag} />
+              ))}
+          </datalist>
+        </form>
+      )}
+    </div>
+  );
+}
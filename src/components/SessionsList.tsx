@@ -1,30 +1,63 @@
-import React, { useEffect, useState } from 'react';
-import { format, formatDistance, subDays } from 'date-fns';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { addDays, format, formatDistance } from 'date-fns';
 import { nl } from 'date-fns/locale';
 import { supabase } from '../lib/supabase';
-import { stopHeyGenSession, getHeyGenSessionStatus, getAllActiveSessions, syncHeyGenMessages } from '../lib/heygen';
-import { StopCircle, Star, Archive, Calendar, RefreshCw, Trash2, RotateCcw } from 'lucide-react';
+import { stopHeyGenSession, requestHeyGenSync } from '../lib/heygen';
+import { StopCircle, Star, Archive, RefreshCw, Trash2, RotateCcw, Search, X, XCircle } from 'lucide-react';
 import DatePicker from 'react-datepicker';
 import { motion, AnimatePresence } from 'framer-motion';
 import "react-datepicker/dist/react-datepicker.css";
+import { SearchResults, type SearchHit } from './SearchResults';
+import { ExportMenu } from './ExportMenu';
+import { usePermission } from '../lib/roleContext';
+import { formatDateParam, getEnumParam, updateSearchParams } from '../lib/urlState';
+import {
+  DEFAULT_REPORTING_TIMEZONE,
+  dayToDate,
+  getCustomRange,
+  getRangeBounds,
+  shiftDay,
+  todayIn,
+} from '../lib/dateRange';
+import { DEFAULT_TRASH_RETENTION_DAYS, fetchAppSettings } from '../lib/settings';
+import { fetchTopics, type TopicChip } from '../lib/topics';
+import { TopicChips } from './TopicChips';
+import { fetchTagCounts, type TagCount } from '../lib/sessionReview';
+import {
+  bulkDeleteSessions,
+  bulkStopSessions,
+  bulkUpdateSessions,
+  undoBulkUpdate,
+  type BulkField,
+  type BulkUndo,
+  type BulkValue,
+} from '../lib/sessionBulk';
+import { UndoToast } from './UndoToast';
+import {
+  applySessionPatches,
+  fetchMatchingSessions,
+  fetchSessionPage,
+  fetchSessionsById,
+  matchesSessionFilters,
+  type SessionListFilters,
+  type SessionListItem,
+  type SessionSummary,
+} from '../lib/sessionList';
+import { useVirtualList } from '../lib/virtualList';
+import type { SessionCloseReason } from '../lib/database.types';
 
-interface Session {
-  id: string;
-  session_id: string;
-  start_time: string;
-  end_time: string | null;
-  status: 'active' | 'connecting' | 'connected' | 'completed' | 'error';
-  heygen_status: string | null;
-  last_sync_at: string | null;
-  duration: string | null;
-  is_relevant: boolean;
-  is_archived: boolean;
-  deleted_at: string | null;
+type Session = SessionListItem;
+
+interface SessionListState {
+  sessions: Session[];
+  hasMore: boolean;
+  totalCount: number;
 }
 
 interface SessionsListProps {
   selectedSessionId: string | null;
-  onSessionSelect: (sessionId: string) => void;
+  onSessionSelect: (sessionId: string, messageId?: string) => void;
 }
 
 const DATE_PRESETS = [
@@ -41,6 +74,17 @@ const STATUS_TRANSLATIONS = {
   error: 'Fout',
 };
 
+// Waarom de sync worker of een beheerder de sessie heeft afgesloten
+const CLOSE_REASON_LABELS: Record<SessionCloseReason, string> = {
+  stopped: 'handmatig gestopt',
+  heygen_ended: 'beëindigd bij HeyGen',
+  heygen_error: 'mislukt bij HeyGen',
+  not_found: 'onbekend bij HeyGen',
+  idle_timeout: 'gesloten na inactiviteit',
+};
+
+const STATUS_FILTERS = ['all', 'active', 'connecting', 'connected', 'completed', 'error'] as const;
+
 const VIEW_MODES = {
   ACTIVE: 'active',
   ARCHIVED: 'archived',
@@ -49,74 +93,113 @@ const VIEW_MODES = {
 
 type ViewMode = typeof VIEW_MODES[keyof typeof VIEW_MODES];
 
+const formatSessionCount = (count: number) => (count === 1 ? '1 sessie' : `${count} sessies`);
+
+// Binnen zoveel rijen van het einde wordt de volgende pagina al geladen
+const LOAD_MORE_THRESHOLD = 10;
+
+// Zelfde voorwaarde als de stopknop per sessie
+const isStoppable = (session: SessionSummary) => session.status === 'active' && session.heygen_status !== 'completed';
+
 export function SessionsList({ selectedSessionId, onSessionSelect }: SessionsListProps) {
-  const [sessions, setSessions] = useState<Session[]>([]);
-  const [filter, setFilter] = useState('all');
+  const [{ sessions, hasMore, totalCount }, setList] = useState<SessionListState>({ sessions: [], hasMore: false, totalCount: 0 });
+  const [searchParams, setSearchParams] = useSearchParams();
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [isSelectingAll, setIsSelectingAll] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [stoppingSession, setStoppingSession] = useState<string | null>(null);
-  const [startDate, setStartDate] = useState<Date>(subDays(new Date(), 7));
-  const [endDate, setEndDate] = useState<Date>(new Date());
-  const [viewMode, setViewMode] = useState<ViewMode>(VIEW_MODES.ACTIVE);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [updatingSession, setUpdatingSession] = useState<string | null>(null);
   const [animatingSessionId, setAnimatingSessionId] = useState<string | null>(null);
   const [animationType, setAnimationType] = useState<'archive' | 'delete' | null>(null);
+  const [searchResults, setSearchResults] = useState<SearchHit[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [retentionDays, setRetentionDays] = useState(DEFAULT_TRASH_RETENTION_DAYS);
+  const [reportingTimezone, setReportingTimezone] = useState(DEFAULT_REPORTING_TIMEZONE);
+  const [topicsById, setTopicsById] = useState<Map<string, TopicChip>>(new Map());
+  const [tagCounts, setTagCounts] = useState<TagCount[]>([]);
+  const [isEmptyingTrash, setIsEmptyingTrash] = useState(false);
+  // Geselecteerde sessies, ook sessies die via "alles selecteren" nog niet geladen zijn
+  const [selection, setSelection] = useState<Map<string, SessionSummary>>(new Map());
+  const [bulkProgress, setBulkProgress] = useState<{ label: string; done: number; total: number } | null>(null);
+  const [undoAction, setUndoAction] = useState<{ message: string; undo: BulkUndo } | null>(null);
+  // Laatst aangeklikte checkbox, het beginpunt voor shift-klik
+  const selectionAnchor = useRef<string | null>(null);
+  // Volgnummer van de laatste lading, om antwoorden van een oude filterstand te negeren
+  const loadGeneration = useRef(0);
+  const canAnnotate = usePermission('annotateSessions');
+  const canTrash = usePermission('trashSessions');
+  const canStop = usePermission('stopSessions');
+  const canReconcile = usePermission('reconcileSessions');
+  const canDelete = usePermission('deleteSessions');
+
+  // Filters staan in de URL, zodat een gefilterde lijst te delen is en terug/vooruit werkt
+  const filter = getEnumParam(searchParams, 'status', STATUS_FILTERS, 'all');
+  const viewMode = getEnumParam<ViewMode>(searchParams, 'view', Object.values(VIEW_MODES), VIEW_MODES.ACTIVE);
+  const fromParam = searchParams.get('from');
+  const toParam = searchParams.get('to');
+  const submittedQuery = searchParams.get('q') ?? '';
+  const tagsParam = searchParams.get('tags') ?? '';
+  const selectedTags = useMemo(() => tagsParam.split(',').filter(Boolean), [tagsParam]);
+  const [searchQuery, setSearchQuery] = useState(submittedQuery);
+
+  // Hele kalenderdagen in de rapportagetijdzone, zelfde indeling als het dashboard
+  const dayRange = useMemo(() => {
+    const today = todayIn(reportingTimezone);
+    const defaultStart = shiftDay(today, -7);
+    return getCustomRange(fromParam ?? defaultStart, toParam ?? today) ?? { start: defaultStart, end: today };
+  }, [fromParam, toParam, reportingTimezone]);
+
+  const { from: rangeFrom, until: rangeUntil } = useMemo(
+    () => getRangeBounds(dayRange, reportingTimezone),
+    [dayRange, reportingTimezone]
+  );
+
+  const filters = useMemo<SessionListFilters>(
+    () => ({ status: filter, view: viewMode, from: rangeFrom, until: rangeUntil, tags: selectedTags }),
+    [filter, viewMode, rangeFrom, rangeUntil, selectedTags]
+  );
+
+  const startDate = dayToDate(dayRange.start);
+  const endDate = dayToDate(dayRange.end);
+
+  const setFilter = (value: string) => {
+    updateSearchParams(setSearchParams, { status: value === 'all' ? null : value });
+  };
+
+  const setSelectedTags = (tags: string[]) => {
+    updateSearchParams(setSearchParams, { tags: tags.join(',') });
+  };
+
+  const setViewMode = (mode: ViewMode) => {
+    updateSearchParams(setSearchParams, { view: mode === VIEW_MODES.ACTIVE ? null : mode });
+  };
+
+  const setStartDate = (date: Date) => {
+    updateSearchParams(setSearchParams, { from: formatDateParam(date) });
+  };
+
+  const setEndDate = (date: Date) => {
+    updateSearchParams(setSearchParams, { to: formatDateParam(date) });
+  };
 
   const handleDatePresetChange = (days: number) => {
-    setStartDate(subDays(new Date(), days));
-    setEndDate(new Date());
+    updateSearchParams(setSearchParams, { from: shiftDay(todayIn(reportingTimezone), -days), to: null });
   };
 
   const handleRefresh = async () => {
     if (isRefreshing) return;
-    
+
     try {
       setIsRefreshing(true);
       setError(null);
 
-      // Get all active sessions from Supabase
-      const { data: activeSessions, error: fetchError } = await supabase
-        .from('sessions')
-        .select('*')
-        .in('status', ['active', 'connecting', 'connected'])
-        .is('end_time', null);
-
-      if (fetchError) throw fetchError;
-
-      if (!activeSessions || activeSessions.length === 0) {
-        setIsRefreshing(false);
-        return;
+      // De sync worker draait periodiek server-side; dit forceert alleen een directe run (admins)
+      if (canReconcile) {
+        await requestHeyGenSync();
       }
-
-      // Get all active sessions from HeyGen
-      const heygenSessions = await getAllActiveSessions();
-      const activeHeygenSessionIds = new Set(heygenSessions.map(s => s.session_id));
-
-      // Process each session
-      await Promise.all(
-        activeSessions.map(async (session) => {
-          const isActiveInHeyGen = activeHeygenSessionIds.has(session.session_id);
-          
-          if (!isActiveInHeyGen) {
-            // If session is not active in HeyGen, mark it as completed
-            await supabase
-              .from('sessions')
-              .update({
-                status: 'completed',
-                heygen_status: 'completed',
-                end_time: new Date().toISOString(),
-                last_sync_at: new Date().toISOString()
-              })
-              .eq('session_id', session.session_id);
-          } else {
-            // If session is active, sync its messages
-            await syncHeyGenMessages(session.session_id);
-          }
-        })
-      );
-
-      fetchSessions();
+      loadSessions();
     } catch (err) {
       console.error('Error refreshing sessions:', err);
       setError(err instanceof Error ? err.message : 'Sessies vernieuwen mislukt');
@@ -125,71 +208,328 @@ export function SessionsList({ selectedSessionId, onSessionSelect }: SessionsLis
     }
   };
 
-  const fetchSessions = async () => {
-    try {
-      setIsLoading(true);
-      setError(null);
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateSearchParams(setSearchParams, { q: searchQuery.trim() });
+  };
 
-      let query = supabase
-        .from('sessions')
-        .select('*')
-        .gte('start_time', startDate.toISOString())
-        .lte('start_time', endDate.toISOString())
-        .order('start_time', { ascending: false });
+  const handleClearSearch = () => {
+    setSearchQuery('');
+    updateSearchParams(setSearchParams, { q: null, message: null });
+  };
 
-      if (filter !== 'all') {
-        query = query.eq('status', filter);
-      }
+  useEffect(() => {
+    setSearchQuery(submittedQuery);
+    if (!submittedQuery) {
+      setSearchResults(null);
+      return;
+    }
 
-      switch (viewMode) {
-        case VIEW_MODES.ACTIVE:
-          query = query.eq('is_archived', false).is('deleted_at', null);
-          break;
-        case VIEW_MODES.ARCHIVED:
-          query = query.eq('is_archived', true).is('deleted_at', null);
-          break;
-        case VIEW_MODES.TRASH:
-          query = query.not('deleted_at', 'is', null);
-          break;
-      }
+    const runSearch = async () => {
+      try {
+        setIsSearching(true);
+        setError(null);
 
-      const { data: supabaseSessions, error: supabaseError } = await query;
+        const { data, error: searchError } = await supabase.rpc('search_messages', {
+          search_query: submittedQuery,
+        });
 
-      if (supabaseError) {
-        throw supabaseError;
-      }
+        if (searchError) throw searchError;
 
-      if (supabaseSessions) {
-        setSessions(supabaseSessions);
+        setSearchResults(data || []);
+      } catch (err) {
+        console.error('Error searching messages:', err);
+        setError(err instanceof Error ? err.message : 'Zoeken mislukt');
+      } finally {
+        setIsSearching(false);
       }
+    };
+
+    runSearch();
+  }, [submittedQuery]);
+
+  useEffect(() => {
+    fetchAppSettings()
+      .then(settings => {
+        setRetentionDays(settings.trash_retention_days);
+        setReportingTimezone(settings.reporting_timezone);
+      })
+      .catch(err => console.error('Error fetching settings:', err));
+
+    fetchTopics()
+      .then(topics => setTopicsById(new Map(topics.map(topic => [topic.id, topic]))))
+      .catch(err => console.error('Error fetching topics:', err));
+
+    fetchTagCounts()
+      .then(setTagCounts)
+      .catch(err => console.error('Error fetching tags:', err));
+  }, []);
+
+  // Eerste pagina voor de huidige filters; verdere pagina's komen met loadMore bij het scrollen
+  const loadSessions = useCallback(async () => {
+    const generation = ++loadGeneration.current;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const page = await fetchSessionPage(filters, null);
+      if (generation !== loadGeneration.current) return;
+
+      setList({ sessions: page.sessions, hasMore: page.hasMore, totalCount: page.totalCount ?? page.sessions.length });
     } catch (err) {
       console.error('Error fetching sessions:', err);
       setError(err instanceof Error ? err.message : 'Sessies ophalen mislukt');
     } finally {
-      setIsLoading(false);
+      if (generation === loadGeneration.current) setIsLoading(false);
     }
-  };
+  }, [filters]);
+
+  const loadMore = useCallback(async () => {
+    const last = sessions[sessions.length - 1];
+    if (isLoading || isLoadingMore || !hasMore || !last) return;
+    const generation = loadGeneration.current;
+
+    try {
+      setIsLoadingMore(true);
+      const page = await fetchSessionPage(filters, last);
+      if (generation !== loadGeneration.current) return;
+
+      setList(prev => {
+        // Een realtime patch kan een sessie van deze pagina al hebben ingevoegd
+        const loaded = new Set(prev.sessions.map(session => session.session_id));
+        return {
+          ...prev,
+          sessions: [...prev.sessions, ...page.sessions.filter(session => !loaded.has(session.session_id))],
+          hasMore: page.hasMore,
+        };
+      });
+    } catch (err) {
+      console.error('Error fetching more sessions:', err);
+      setError(err instanceof Error ? err.message : 'Sessies ophalen mislukt');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [sessions, isLoading, isLoadingMore, hasMore, filters]);
+
+  // Haalt de actuele rijen van gewijzigde sessies op en werkt alleen die bij in de geladen lijst
+  const patchSessions = useCallback(async (sessionIds: string[]) => {
+    if (sessionIds.length === 0) return;
+    const generation = loadGeneration.current;
+
+    try {
+      const rows = await fetchSessionsById(sessionIds);
+      if (generation !== loadGeneration.current) return;
+
+      setList(prev => {
+        const next = applySessionPatches(prev.sessions, sessionIds, rows, filters, prev.hasMore);
+        return { ...prev, sessions: next, totalCount: Math.max(0, prev.totalCount + next.length - prev.sessions.length) };
+      });
+
+      // Sessies die niet meer aan de filters voldoen horen ook niet meer bij de selectie
+      const visible = new Set(rows.filter(row => matchesSessionFilters(row, filters)).map(row => row.session_id));
+      setSelection(prev => {
+        if (!sessionIds.some(id => prev.has(id) && !visible.has(id))) return prev;
+        const next = new Map(prev);
+        for (const id of sessionIds) {
+          if (!visible.has(id)) next.delete(id);
+        }
+        return next;
+      });
+    } catch (err) {
+      console.error('Error patching sessions:', err);
+    }
+  }, [filters]);
 
   useEffect(() => {
-    fetchSessions();
+    loadSessions();
+
+    // Een bulk actie levert een event per sessie op; die samen afhandelen met één patch
+    const pending = new Set<string>();
+    let patchTimer: ReturnType<typeof setTimeout> | undefined;
+    const schedulePatch = (sessionId: string) => {
+      pending.add(sessionId);
+      clearTimeout(patchTimer);
+      patchTimer = setTimeout(() => {
+        const sessionIds = [...pending];
+        pending.clear();
+        patchSessions(sessionIds);
+      }, 300);
+    };
 
     const subscription = supabase
       .channel('sessions_changes')
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'sessions' }, fetchSessions)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'sessions' }, (payload) => {
+        // Bij DELETE bevat de payload alleen de primary key
+        if (payload.eventType === 'DELETE') {
+          const { id } = payload.old as Pick<Session, 'id'>;
+          setList(prev => {
+            const next = prev.sessions.filter(session => session.id !== id);
+            return { ...prev, sessions: next, totalCount: Math.max(0, prev.totalCount + next.length - prev.sessions.length) };
+          });
+          return;
+        }
+        schedulePatch((payload.new as Session).session_id);
+      })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'session_tags' }, (payload) => {
+        const row = (payload.eventType === 'DELETE' ? payload.old : payload.new) as { session_id: string };
+        schedulePatch(row.session_id);
+      })
       .subscribe();
 
     return () => {
+      clearTimeout(patchTimer);
       subscription.unsubscribe();
     };
-  }, [filter, startDate, endDate, viewMode]);
+  }, [loadSessions, patchSessions]);
 
+  const virtualList = useVirtualList({
+    count: sessions.length,
+    getKey: index => sessions[index].session_id,
+    estimateSize: 96,
+  });
+
+  // Volgende pagina laden zodra het einde van de geladen lijst in beeld komt
   useEffect(() => {
-    const interval = setInterval(() => {
-      handleRefresh();
-    }, 10000); // Elke 10 seconden
+    if (hasMore && virtualList.lastVisibleIndex >= sessions.length - LOAD_MORE_THRESHOLD) {
+      loadMore();
+    }
+  }, [virtualList.lastVisibleIndex, sessions.length, hasMore, loadMore]);
 
-    return () => clearInterval(interval);
-  }, []);
+  // Een selectie hoort bij één filterstand
+  useEffect(() => {
+    setSelection(new Map());
+    selectionAnchor.current = null;
+  }, [filters, submittedQuery]);
+
+  const selectedSessions = [...selection.values()];
+  const allSelected = totalCount > 0 && selection.size >= totalCount;
+
+  const handleSelect = (sessionId: string, withRange: boolean) => {
+    const shouldSelect = !selection.has(sessionId);
+    const anchorIndex = sessions.findIndex(session => session.session_id === selectionAnchor.current);
+    const index = sessions.findIndex(session => session.session_id === sessionId);
+    const range = withRange && anchorIndex !== -1
+      ? sessions.slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1)
+      : sessions.slice(index, index + 1);
+
+    setSelection(prev => {
+      const next = new Map(prev);
+      for (const session of range) {
+        if (shouldSelect) next.set(session.session_id, session);
+        else next.delete(session.session_id);
+      }
+      return next;
+    });
+    selectionAnchor.current = sessionId;
+  };
+
+  // Selecteert alles wat aan het filter voldoet, ook de pagina's die nog niet geladen zijn
+  const handleSelectAll = async () => {
+    selectionAnchor.current = null;
+    if (allSelected) {
+      setSelection(new Map());
+      return;
+    }
+    if (!hasMore) {
+      setSelection(new Map(sessions.map(session => [session.session_id, session])));
+      return;
+    }
+
+    try {
+      setIsSelectingAll(true);
+      const matching = await fetchMatchingSessions(filters);
+      setSelection(new Map(matching.map(session => [session.session_id, session])));
+    } catch (err) {
+      console.error('Error selecting all sessions:', err);
+      setError(err instanceof Error ? err.message : 'Alle sessies selecteren mislukt');
+    } finally {
+      setIsSelectingAll(false);
+    }
+  };
+
+  const fetchAllSessionIds = async () => {
+    const matching = hasMore ? await fetchMatchingSessions(filters) : sessions;
+    return matching.map(session => session.session_id);
+  };
+
+  const dismissUndo = useCallback(() => setUndoAction(null), []);
+
+  const updateProgress = (label: string) => (done: number, total: number) => setBulkProgress({ label, done, total });
+
+  const runBulkUpdate = async (field: BulkField, value: BulkValue, label: string, describe: (count: number) => string) => {
+    if (bulkProgress) return;
+
+    try {
+      setError(null);
+      setUndoAction(null);
+      const undo = await bulkUpdateSessions(
+        selectedSessions.map(session => session.session_id),
+        field,
+        value,
+        updateProgress(label)
+      );
+      setSelection(new Map());
+      if (undo.previous.length > 0) {
+        setUndoAction({ message: describe(undo.previous.length), undo });
+      }
+      patchSessions(undo.previous.map(({ sessionId }) => sessionId));
+    } catch (err) {
+      console.error('Error running bulk action:', err);
+      setError(err instanceof Error ? err.message : 'Bulk actie mislukt');
+    } finally {
+      setBulkProgress(null);
+    }
+  };
+
+  const handleUndo = async () => {
+    if (!undoAction || bulkProgress) return;
+    const { undo } = undoAction;
+    setUndoAction(null);
+
+    try {
+      await undoBulkUpdate(undo, updateProgress('Ongedaan maken'));
+      patchSessions(undo.previous.map(({ sessionId }) => sessionId));
+    } catch (err) {
+      console.error('Error undoing bulk action:', err);
+      setError(err instanceof Error ? err.message : 'Ongedaan maken mislukt');
+    } finally {
+      setBulkProgress(null);
+    }
+  };
+
+  const handleBulkStop = async () => {
+    const stoppable = selectedSessions.filter(isStoppable).map(session => session.session_id);
+    if (bulkProgress || stoppable.length === 0) return;
+    if (!confirm(`${formatSessionCount(stoppable.length)} stoppen? Dit kan niet ongedaan worden gemaakt.`)) return;
+
+    setError(null);
+    const failed = await bulkStopSessions(stoppable, updateProgress('Stoppen'));
+    setBulkProgress(null);
+    setSelection(new Map());
+    if (failed.length > 0) {
+      setError(`${failed.length} van ${formatSessionCount(stoppable.length)} konden niet worden gestopt`);
+    }
+    patchSessions(stoppable);
+  };
+
+  const handleBulkDelete = async () => {
+    if (bulkProgress) return;
+    if (!confirm(`${formatSessionCount(selectedSessions.length)} definitief verwijderen? Berichten en statistieken worden ook verwijderd.`)) return;
+
+    try {
+      setError(null);
+      const sessionIds = selectedSessions.map(session => session.session_id);
+      await bulkDeleteSessions(sessionIds, updateProgress('Verwijderen'));
+      setSelection(new Map());
+      patchSessions(sessionIds);
+    } catch (err) {
+      console.error('Error deleting sessions permanently:', err);
+      setError(err instanceof Error ? err.message : 'Sessies definitief verwijderen mislukt');
+    } finally {
+      setBulkProgress(null);
+    }
+  };
 
   const handleStopSession = async (sessionId: string, e: React.MouseEvent) => {
     e.stopPropagation();
@@ -200,20 +540,7 @@ export function SessionsList({ selectedSessionId, onSessionSelect }: SessionsLis
       setError(null);
 
       await stopHeyGenSession(sessionId);
-
-      const { error: updateError } = await supabase
-        .from('sessions')
-        .update({ 
-          status: 'completed',
-          heygen_status: 'completed',
-          end_time: new Date().toISOString(),
-          last_sync_at: new Date().toISOString()
-        })
-        .eq('session_id', sessionId);
-
-      if (updateError) throw updateError;
-
-      fetchSessions();
+      patchSessions([sessionId]);
     } catch (err) {
       console.error('Error stopping session:', err);
       setError(err instanceof Error ? err.message : 'Sessie stoppen mislukt');
@@ -235,7 +562,7 @@ export function SessionsList({ selectedSessionId, onSessionSelect }: SessionsLis
 
       if (error) throw error;
 
-      fetchSessions();
+      patchSessions([sessionId]);
     } catch (err) {
       console.error('Error toggling relevant status:', err);
       setError(err instanceof Error ? err.message : 'Sessie bijwerken mislukt');
@@ -257,7 +584,7 @@ export function SessionsList({ selectedSessionId, onSessionSelect }: SessionsLis
 
       if (error) throw error;
 
-      fetchSessions();
+      patchSessions([sessionId]);
     } catch (err) {
       console.error('Error moving session to trash:', err);
       setError(err instanceof Error ? err.message : 'Sessie naar prullenbak verplaatsen mislukt');
@@ -279,7 +606,7 @@ export function SessionsList({ selectedSessionId, onSessionSelect }: SessionsLis
 
       if (error) throw error;
 
-      fetchSessions();
+      patchSessions([sessionId]);
     } catch (err) {
       console.error('Error restoring session from trash:', err);
       setError(err instanceof Error ? err.message : 'Sessie herstellen mislukt');
@@ -288,6 +615,46 @@ export function SessionsList({ selectedSessionId, onSessionSelect }: SessionsLis
     }
   };
 
+  const handleDeletePermanently = async (sessionId: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (updatingSession === sessionId) return;
+    if (!confirm('Deze sessie definitief verwijderen? Berichten en statistieken worden ook verwijderd.')) return;
+
+    try {
+      setUpdatingSession(sessionId);
+      const { error } = await supabase.rpc('delete_trashed_sessions', { session_ids: [sessionId] });
+
+      if (error) throw error;
+
+      patchSessions([sessionId]);
+    } catch (err) {
+      console.error('Error deleting session permanently:', err);
+      setError(err instanceof Error ? err.message : 'Sessie definitief verwijderen mislukt');
+    } finally {
+      setUpdatingSession(null);
+    }
+  };
+
+  // Leegt de hele prullenbak, ook sessies buiten het huidige datumbereik
+  const handleEmptyTrash = async () => {
+    if (isEmptyingTrash) return;
+    if (!confirm('De prullenbak legen? Alle sessies in de prullenbak worden definitief verwijderd.')) return;
+
+    try {
+      setIsEmptyingTrash(true);
+      const { error } = await supabase.rpc('delete_trashed_sessions');
+
+      if (error) throw error;
+
+      loadSessions();
+    } catch (err) {
+      console.error('Error emptying trash:', err);
+      setError(err instanceof Error ? err.message : 'Prullenbak legen mislukt');
+    } finally {
+      setIsEmptyingTrash(false);
+    }
+  };
+
   const handleToggleArchived = async (sessionId: string, currentValue: boolean, e: React.MouseEvent) => {
     e.stopPropagation();
     if (updatingSession === sessionId) return;
@@ -307,7 +674,7 @@ export function SessionsList({ selectedSessionId, onSessionSelect }: SessionsLis
       }
 
       console.log('Archive status updated successfully');
-      fetchSessions();
+      patchSessions([sessionId]);
     } catch (err) {
       console.error('Error toggling archive status:', err);
       setError(err instanceof Error ? err.message : 'Sessie archiveren mislukt');
@@ -368,17 +735,18 @@ export function SessionsList({ selectedSessionId, onSessionSelect }: SessionsLis
 
   const getStatusDisplay = (session: Session) => {
     const statusTranslation = STATUS_TRANSLATIONS[session.status as keyof typeof STATUS_TRANSLATIONS];
+    if (session.close_reason) {
+      return `${statusTranslation}, ${CLOSE_REASON_LABELS[session.close_reason]}`;
+    }
     if (session.status === session.heygen_status || !session.heygen_status) {
       return statusTranslation;
     }
     return `${statusTranslation} (HeyGen: ${session.heygen_status})`;
   };
 
+  // De purge job draait elk uur, dus verwijderen gebeurt uiterlijk een uur na deze datum
   const getDeleteDate = (deletedAt: string) => {
-    const deleteDate = new Date(deletedAt);
-    const permanentDeleteDate = new Date(deleteDate);
-    permanentDeleteDate.setDate(permanentDeleteDate.getDate() + 30);
-    return format(permanentDeleteDate, 'dd/MM/yyyy');
+    return format(addDays(new Date(deletedAt), retentionDays), 'dd/MM/yyyy');
   };
 
   if (error) {
@@ -402,68 +770,159 @@ export function SessionsList({ selectedSessionId, onSessionSelect }: SessionsLis
       <div className="p-4 border-b border-gray-200 space-y-4">
         <div className="flex items-center justify-between">
           <h2 className="text-lg font-semibold text-gray-900">Sessies</h2>
-          <button
-            onClick={handleRefresh}
-            disabled={isRefreshing}
-            className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#ce861b] disabled:opacity-50"
-          >
-            <RefreshCw className={`h-4 w-4 mr-2 ${isRefreshing ? 'animate-spin' : ''}`} />
-            {isRefreshing ? 'Vernieuwen...' : 'Vernieuwen'}
-          </button>
-        </div>
-        
-        <div className="flex items-center gap-4">
-          <div className="flex-1">
-            <label className="block text-sm font-medium text-gray-700 mb-1">Status</label>
-            <select
-              value={filter}
-              onChange={(e) => setFilter(e.target.value)}
-              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-[#ce861b] focus:ring-[#ce861b] sm:text-sm"
-            >
-              <option value="all">Alle Sessies</option>
-              <option value="active">Actief</option>
-              <option value="connecting">Verbinden</option>
-              <option value="connected">Verbonden</option>
-              <option value="completed">Voltooid</option>
-              <option value="error">Fout</option>
-            </select>
-          </div>
-          
-          <div className="flex items-center gap-4">
+          <div className="flex items-center gap-2">
+            <ExportMenu
+              sessionIds={fetchAllSessionIds}
+              sessionCount={totalCount}
+              label={`Exporteer (${totalCount})`}
+              onError={setError}
+            />
             <button
-              onClick={() => setViewMode(VIEW_MODES.ACTIVE)}
-              className={`px-3 py-2 rounded-md text-sm font-medium ${
-                viewMode === VIEW_MODES.ACTIVE
-                  ? 'bg-[#ce861b] text-white'
-                  : 'text-gray-700 hover:bg-gray-100'
-              }`}
+              onClick={handleRefresh}
+              disabled={isRefreshing}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#ce861b] disabled:opacity-50"
             >
-              Actief
-            </button>
-            <button
-              onClick={() => setViewMode(VIEW_MODES.ARCHIVED)}
-              className={`px-3 py-2 rounded-md text-sm font-medium ${
-                viewMode === VIEW_MODES.ARCHIVED
-                  ? 'bg-[#ce861b] text-white'
-                  : 'text-gray-700 hover:bg-gray-100'
-              }`}
-            >
-              Gearchiveerd
+              <RefreshCw className={`h-4 w-4 mr-2 ${isRefreshing ? 'animate-spin' : ''}`} />
+              {isRefreshing ? 'Vernieuwen...' : 'Vernieuwen'}
             </button>
+          </div>
+        </div>
+        
+        <form onSubmit={handleSearch} className="flex items-center gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <input
+              type="search"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="Zoek in alle gesprekken, bijv. promotie-traject OR subsidie"
+              className="block w-full pl-9 rounded-md border-gray-300 shadow-sm focus:border-[#ce861b] focus:ring-[#ce861b] sm:text-sm"
+            />
+          </div>
+          {searchResults && (
             <button
-              onClick={() => setViewMode(VIEW_MODES.TRASH)}
-              className={`px-3 py-2 rounded-md text-sm font-medium ${
-                viewMode === VIEW_MODES.TRASH
-                  ? 'bg-[#ce861b] text-white'
-                  : 'text-gray-700 hover:bg-gray-100'
-              }`}
+              type="button"
+              onClick={handleClearSearch}
+              className="p-2 rounded-md text-gray-500 hover:bg-gray-100"
+              title="Zoeken wissen"
             >
-              Prullenbak
+              <X className="h-4 w-4" />
             </button>
+          )}
+          <button
+            type="submit"
+            disabled={isSearching}
+            className="px-3 py-2 rounded-md text-sm font-medium bg-[#ce861b] text-white hover:bg-[#b67616] disabled:opacity-50"
+          >
+            {isSearching ? 'Zoeken...' : 'Zoeken'}
+          </button>
+        </form>
+
+        {!searchResults && (
+          <div className="flex items-center gap-4">
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Status</label>
+              <select
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-[#ce861b] focus:ring-[#ce861b] sm:text-sm"
+              >
+                <option value="all">Alle Sessies</option>
+                <option value="active">Actief</option>
+                <option value="connecting">Verbinden</option>
+                <option value="connected">Verbonden</option>
+                <option value="completed">Voltooid</option>
+                <option value="error">Fout</option>
+              </select>
+            </div>
+
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Tag</label>
+              <select
+                value=""
+                onChange={(e) => setSelectedTags([...selectedTags, e.target.value])}
+                disabled={tagCounts.length === 0}
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-[#ce861b] focus:ring-[#ce861b] sm:text-sm disabled:opacity-50"
+              >
+                <option value="">{tagCounts.length === 0 ? 'Nog geen tags' : 'Filter op tag'}</option>
+                {tagCounts
+                  .filter(({ tag }) => !selectedTags.includes(tag))
+                  .map(({ tag, session_count }) => (
+                    <option key={tag} value={tag}>{tag} ({session_count})</option>
+                  ))}
+              </select>
+            </div>
+            
+            <div className="flex items-center gap-4">
+              <button
+                onClick={() => setViewMode(VIEW_MODES.ACTIVE)}
+                className={`px-3 py-2 rounded-md text-sm font-medium ${
+                  viewMode === VIEW_MODES.ACTIVE
+                    ? 'bg-[#ce861b] text-white'
+                    : 'text-gray-700 hover:bg-gray-100'
+                }`}
+              >
+                Actief
+              </button>
+              <button
+                onClick={() => setViewMode(VIEW_MODES.ARCHIVED)}
+                className={`px-3 py-2 rounded-md text-sm font-medium ${
+                  viewMode === VIEW_MODES.ARCHIVED
+                    ? 'bg-[#ce861b] text-white'
+                    : 'text-gray-700 hover:bg-gray-100'
+                }`}
+              >
+                Gearchiveerd
+              </button>
+              <button
+                onClick={() => setViewMode(VIEW_MODES.TRASH)}
+                className={`px-3 py-2 rounded-md text-sm font-medium ${
+                  viewMode === VIEW_MODES.TRASH
+                    ? 'bg-[#ce861b] text-white'
+                    : 'text-gray-700 hover:bg-gray-100'
+                }`}
+              >
+                Prullenbak
+              </button>
+            </div>
           </div>
-        </div>
 
-        {viewMode !== VIEW_MODES.TRASH && (
+        )}
+
+        {!searchResults && selectedTags.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1 text-sm">
+            <span className="text-gray-500 mr-1">Sessies met tag</span>
+            {selectedTags.map(tag => (
+              <span key={tag} className="inline-flex items-center gap-1 px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700">
+                {tag}
+                <button
+                  onClick={() => setSelectedTags(selectedTags.filter(t => t !== tag))}
+                  className="text-gray-400 hover:text-gray-700"
+                  title="Tag uit filter halen"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+
+        {!searchResults && viewMode === VIEW_MODES.TRASH && (
+          <div className="flex items-center justify-between gap-4 text-sm text-gray-600">
+            <span>Sessies in de prullenbak worden na {retentionDays} dagen definitief verwijderd.</span>
+            {canDelete && (
+              <button
+                onClick={handleEmptyTrash}
+                disabled={isEmptyingTrash}
+                className="shrink-0 px-3 py-1 rounded-md border border-red-300 text-red-700 hover:bg-red-50 disabled:opacity-50"
+              >
+                {isEmptyingTrash ? 'Legen...' : 'Prullenbak legen'}
+              </button>
+            )}
+          </div>
+        )}
+
+        {!searchResults && viewMode !== VIEW_MODES.TRASH && (
           <div className="space-y-4">
             <div className="flex gap-2">
               {DATE_PRESETS.map((preset) => (
@@ -506,8 +965,133 @@ export function SessionsList({ selectedSessionId, onSessionSelect }: SessionsLis
         )}
       </div>
 
-      <div className="flex-1 overflow-y-auto">
-        {isLoading ? (
+      {!searchResults && sessions.length > 0 && (
+        <div className="px-4 py-2 border-b border-gray-200 bg-gray-50 space-y-2">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <label className="flex items-center gap-2 mr-2 text-gray-700">
+              <input
+                type="checkbox"
+                checked={allSelected}
+                ref={el => {
+                  if (el) el.indeterminate = selectedSessions.length > 0 && !allSelected;
+                }}
+                onChange={handleSelectAll}
+                disabled={isSelectingAll}
+                className="rounded text-[#ce861b] focus:ring-[#ce861b]"
+              />
+              {isSelectingAll
+                ? 'Selecteren...'
+                : selectedSessions.length > 0
+                ? `${selectedSessions.length} van ${formatSessionCount(totalCount)} geselecteerd`
+                : `Alle ${formatSessionCount(totalCount)} selecteren`}
+            </label>
+
+            {selectedSessions.length > 0 && (
+              <>
+                {viewMode !== VIEW_MODES.TRASH && canAnnotate && (
+                  <button
+                    onClick={() => viewMode === VIEW_MODES.ARCHIVED
+                      ? runBulkUpdate('is_archived', false, 'Dearchiveren', count => `${formatSessionCount(count)} uit archief gehaald`)
+                      : runBulkUpdate('is_archived', true, 'Archiveren', count => `${formatSessionCount(count)} gearchiveerd`)}
+                    disabled={bulkProgress !== null}
+                    className="inline-flex items-center gap-1 px-2 py-1 rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    <Archive className="h-4 w-4" />
+                    {viewMode === VIEW_MODES.ARCHIVED ? 'Dearchiveren' : 'Archiveren'}
+                  </button>
+                )}
+                {viewMode !== VIEW_MODES.TRASH && canAnnotate && (
+                  <button
+                    onClick={() => selectedSessions.every(session => session.is_relevant)
+                      ? runBulkUpdate('is_relevant', false, 'Bijwerken', count => `${formatSessionCount(count)} niet meer relevant`)
+                      : runBulkUpdate('is_relevant', true, 'Bijwerken', count => `${formatSessionCount(count)} als relevant gemarkeerd`)}
+                    disabled={bulkProgress !== null}
+                    className="inline-flex items-center gap-1 px-2 py-1 rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    <Star className="h-4 w-4 text-yellow-400" />
+                    {selectedSessions.every(session => session.is_relevant) ? 'Niet relevant' : 'Relevant'}
+                  </button>
+                )}
+                {viewMode !== VIEW_MODES.TRASH && canTrash && (
+                  <button
+                    onClick={() => runBulkUpdate('deleted_at', new Date().toISOString(), 'Naar prullenbak', count => `${formatSessionCount(count)} naar de prullenbak verplaatst`)}
+                    disabled={bulkProgress !== null}
+                    className="inline-flex items-center gap-1 px-2 py-1 rounded-md border border-gray-300 bg-white text-red-700 hover:bg-red-50 disabled:opacity-50"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    Prullenbak
+                  </button>
+                )}
+                {viewMode === VIEW_MODES.TRASH && canTrash && (
+                  <button
+                    onClick={() => runBulkUpdate('deleted_at', null, 'Herstellen', count => `${formatSessionCount(count)} hersteld`)}
+                    disabled={bulkProgress !== null}
+                    className="inline-flex items-center gap-1 px-2 py-1 rounded-md border border-gray-300 bg-white text-green-700 hover:bg-green-50 disabled:opacity-50"
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                    Herstellen
+                  </button>
+                )}
+                {viewMode === VIEW_MODES.TRASH && canDelete && (
+                  <button
+                    onClick={handleBulkDelete}
+                    disabled={bulkProgress !== null}
+                    className="inline-flex items-center gap-1 px-2 py-1 rounded-md border border-red-300 bg-white text-red-700 hover:bg-red-50 disabled:opacity-50"
+                  >
+                    <XCircle className="h-4 w-4" />
+                    Definitief verwijderen
+                  </button>
+                )}
+                {viewMode === VIEW_MODES.ACTIVE && canStop && selectedSessions.some(isStoppable) && (
+                  <button
+                    onClick={handleBulkStop}
+                    disabled={bulkProgress !== null}
+                    className="inline-flex items-center gap-1 px-2 py-1 rounded-md border border-gray-300 bg-white text-red-700 hover:bg-red-50 disabled:opacity-50"
+                  >
+                    <StopCircle className="h-4 w-4" />
+                    Stoppen ({selectedSessions.filter(isStoppable).length})
+                  </button>
+                )}
+                <ExportMenu
+                  sessionIds={selectedSessions.map(session => session.session_id)}
+                  label={`Exporteer (${selectedSessions.length})`}
+                  onError={setError}
+                />
+                <button
+                  onClick={() => setSelection(new Map())}
+                  className="text-gray-500 hover:text-gray-700"
+                >
+                  Selectie wissen
+                </button>
+              </>
+            )}
+          </div>
+
+          {bulkProgress && (
+            <div>
+              <div className="flex justify-between text-xs text-gray-500 mb-1">
+                <span>{bulkProgress.label}...</span>
+                <span>{bulkProgress.done} / {bulkProgress.total}</span>
+              </div>
+              <div className="h-1.5 rounded-full bg-gray-200 overflow-hidden">
+                <div
+                  className="h-full bg-[#ce861b] transition-all"
+                  style={{ width: `${bulkProgress.total === 0 ? 100 : (bulkProgress.done / bulkProgress.total) * 100}%` }}
+                />
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div ref={virtualList.scrollRef} className="flex-1 overflow-y-auto">
+        {searchResults ? (
+          <SearchResults
+            results={searchResults}
+            selectedSessionId={selectedSessionId}
+            onHitSelect={onSessionSelect}
+          />
+        ) : isLoading ? (
           <div className="p-4 text-gray-600">Sessies laden...</div>
         ) : sessions.length === 0 ? (
           <div className="p-4 text-gray-600">
@@ -518,151 +1102,196 @@ export function SessionsList({ selectedSessionId, onSessionSelect }: SessionsLis
               : 'Geen sessies gevonden'}
           </div>
         ) : (
-          <AnimatePresence mode="popLayout">
-            {sessions.map((session) => (
-              <motion.div
-                key={session.session_id}
-                initial={{ opacity: 1, x: 0, height: "auto" }}
-                animate={{
-                  x: animatingSessionId === session.session_id 
-                    ? animationType === 'archive' 
-                      ? -400
-                      : animationType === 'delete'
-                      ? 400
-                      : 0
-                    : 0,
-                  backgroundColor: animatingSessionId === session.session_id
-                    ? animationType === 'archive'
-                      ? ['#fef3c7', '#fef3c7']
-                      : animationType === 'delete'
-                      ? ['#fee2e2', '#fee2e2']
-                      : 'transparent'
-                    : 'transparent',
-                  transition: {
-                    x: { duration: 0.5, ease: "easeInOut" },
-                    backgroundColor: { duration: 0.3 }
-                  }
-                }}
-                exit={{
-                  opacity: 0,
-                  x: animationType === 'archive' ? -400 : 400,
-                  height: 0,
-                  marginTop: 0,
-                  marginBottom: 0,
-                  padding: 0,
-                  transition: { 
-                    duration: 0.3,
-                    ease: "easeInOut"
-                  }
-                }}
-                onClick={() => onSessionSelect(session.session_id)}
-                className={`p-4 border-b border-gray-200 hover:bg-gray-50 cursor-pointer ${
-                  selectedSessionId === session.session_id ? 'bg-gray-50' : ''
-                } ${session.is_archived ? 'opacity-75' : ''}`}
-              >
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center space-x-2">
-                    <span className={`w-2 h-2 rounded-full ${getStatusColor(session.status)}`} />
-                    <span className="font-medium text-gray-900">
-                      Sessie {session.session_id.slice(0, 8)}
-                    </span>
-                    {session.deleted_at && (
-                      <span className="text-sm text-red-600">
-                        Wordt permanent verwijderd op {getDeleteDate(session.deleted_at)}
-                      </span>
-                    )}
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    {!session.deleted_at && (
-                      <>
-                        <motion.button
-                          whileHover={{ scale: 1.1 }}
-                          whileTap={{ scale: 0.95 }}
-                          onClick={(e) => handleToggleRelevant(session.session_id, session.is_relevant, e)}
-                          className={`p-1 hover:bg-gray-100 rounded transition-colors ${
-                            updatingSession === session.session_id ? 'opacity-50 cursor-not-allowed' : ''
-                          }`}
-                          disabled={updatingSession === session.session_id}
-                          title={session.is_relevant ? "Verwijder uit relevant" : "Markeer als relevant"}
-                        >
-                          <Star className={`h-5 w-5 ${session.is_relevant ? 'text-yellow-400' : 'text-gray-400'}`} />
-                        </motion.button>
-                        {viewMode === VIEW_MODES.ARCHIVED ? (
+          <div className="relative" style={{ height: virtualList.totalSize }}>
+            {virtualList.items.map(({ index, key, start }) => {
+              const session = sessions[index];
+
+              return (
+                <div
+                  key={key}
+                  ref={virtualList.measureElement(key)}
+                  className="absolute inset-x-0 top-0"
+                  style={{ transform: `translateY(${start}px)` }}
+                >
+                  <motion.div
+                    animate={{
+                      x: animatingSessionId === session.session_id 
+                        ? animationType === 'archive' 
+                          ? -400
+                          : animationType === 'delete'
+                          ? 400
+                          : 0
+                        : 0,
+                      backgroundColor: animatingSessionId === session.session_id
+                        ? animationType === 'archive'
+                          ? ['#fef3c7', '#fef3c7']
+                          : animationType === 'delete'
+                          ? ['#fee2e2', '#fee2e2']
+                          : 'transparent'
+                        : 'transparent',
+                      transition: {
+                        x: { duration: 0.5, ease: "easeInOut" },
+                        backgroundColor: { duration: 0.3 }
+                      }
+                    }}
+                    onClick={() => onSessionSelect(session.session_id)}
+                    className={`p-4 border-b border-gray-200 hover:bg-gray-50 cursor-pointer ${
+                      selectedSessionId === session.session_id ? 'bg-gray-50' : ''
+                    } ${session.is_archived ? 'opacity-75' : ''}`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-2">
+                        <input
+                          type="checkbox"
+                          checked={selection.has(session.session_id)}
+                          readOnly
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleSelect(session.session_id, e.shiftKey);
+                          }}
+                          className="rounded text-[#ce861b] focus:ring-[#ce861b]"
+                          title="Selecteren (shift-klik voor een reeks)"
+                        />
+                        <span className={`w-2 h-2 rounded-full ${getStatusColor(session.status)}`} />
+                        <span className="font-medium text-gray-900">
+                          Sessie {session.session_id.slice(0, 8)}
+                        </span>
+                        {session.deleted_at && (
+                          <span className="text-sm text-red-600">
+                            Wordt permanent verwijderd op {getDeleteDate(session.deleted_at)}
+                          </span>
+                        )}
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        {!session.deleted_at && (
+                          <>
+                            <motion.button
+                              whileHover={{ scale: 1.1 }}
+                              whileTap={{ scale: 0.95 }}
+                              onClick={(e) => handleToggleRelevant(session.session_id, session.is_relevant, e)}
+                              className={`p-1 hover:bg-gray-100 rounded transition-colors ${
+                                updatingSession === session.session_id ? 'opacity-50 cursor-not-allowed' : ''
+                              } ${!canAnnotate ? 'cursor-default hover:bg-transparent' : ''}`}
+                              disabled={!canAnnotate || updatingSession === session.session_id}
+                              title={!canAnnotate
+                                ? (session.is_relevant ? "Relevant" : "Niet relevant")
+                                : session.is_relevant ? "Verwijder uit relevant" : "Markeer als relevant"}
+                            >
+                              <Star className={`h-5 w-5 ${session.is_relevant ? 'text-yellow-400' : 'text-gray-400'}`} />
+                            </motion.button>
+                            {viewMode === VIEW_MODES.ARCHIVED ? canTrash && (
+                              <motion.button
+                                whileHover={{ scale: 1.1 }}
+                                whileTap={{ scale: 0.95 }}
+                                onClick={(e) => handleDeleteAnimation(session.session_id, e)}
+                                className={`p-1 hover:bg-gray-100 rounded transition-colors ${
+                                  updatingSession === session.session_id ? 'opacity-50 cursor-not-allowed' : ''
+                                }`}
+                                disabled={updatingSession === session.session_id}
+                                title="Verplaats naar prullenbak"
+                              >
+                                <Trash2 className="h-5 w-5 text-red-600 hover:text-red-800" />
+                              </motion.button>
+                            ) : canAnnotate && (
+                              <motion.button
+                                whileHover={{ scale: 1.1 }}
+                                whileTap={{ scale: 0.95 }}
+                                onClick={(e) => handleArchiveAnimation(session.session_id, session.is_archived, e)}
+                                className={`p-1 hover:bg-gray-100 rounded transition-colors ${
+                                  updatingSession === session.session_id ? 'opacity-50 cursor-not-allowed' : ''
+                                }`}
+                                disabled={updatingSession === session.session_id}
+                                title={session.is_archived ? "Dearchiveren" : "Archiveren"}
+                              >
+                                <Archive className={`h-5 w-5 ${session.is_archived ? 'text-blue-400' : 'text-gray-400'}`} />
+                              </motion.button>
+                            )}
+                            {canStop && isStoppable(session) && (
+                              <motion.button
+                                whileHover={{ scale: 1.1 }}
+                                whileTap={{ scale: 0.95 }}
+                                onClick={(e) => handleStopSession(session.session_id, e)}
+                                disabled={stoppingSession === session.session_id}
+                                className="p-1 hover:bg-gray-100 rounded transition-colors disabled:opacity-50"
+                                title="Sessie stoppen"
+                              >
+                                <StopCircle className="h-5 w-5 text-red-600 hover:text-red-800" />
+                              </motion.button>
+                            )}
+                          </>
+                        )}
+                        {session.deleted_at && canTrash && (
                           <motion.button
                             whileHover={{ scale: 1.1 }}
                             whileTap={{ scale: 0.95 }}
-                            onClick={(e) => handleDeleteAnimation(session.session_id, e)}
+                            onClick={(e) => handleRestoreFromTrash(session.session_id, e)}
                             className={`p-1 hover:bg-gray-100 rounded transition-colors ${
                               updatingSession === session.session_id ? 'opacity-50 cursor-not-allowed' : ''
                             }`}
                             disabled={updatingSession === session.session_id}
-                            title="Verplaats naar prullenbak"
+                            title="Herstel uit prullenbak"
                           >
-                            <Trash2 className="h-5 w-5 text-red-600 hover:text-red-800" />
+                            <RotateCcw className="h-5 w-5 text-green-600 hover:text-green-800" />
                           </motion.button>
-                        ) : (
+                        )}
+                        {session.deleted_at && canDelete && (
                           <motion.button
                             whileHover={{ scale: 1.1 }}
                             whileTap={{ scale: 0.95 }}
-                            onClick={(e) => handleArchiveAnimation(session.session_id, session.is_archived, e)}
+                            onClick={(e) => handleDeletePermanently(session.session_id, e)}
                             className={`p-1 hover:bg-gray-100 rounded transition-colors ${
                               updatingSession === session.session_id ? 'opacity-50 cursor-not-allowed' : ''
                             }`}
                             disabled={updatingSession === session.session_id}
-                            title={session.is_archived ? "Dearchiveren" : "Archiveren"}
+                            title="Definitief verwijderen"
                           >
-                            <Archive className={`h-5 w-5 ${session.is_archived ? 'text-blue-400' : 'text-gray-400'}`} />
+                            <XCircle className="h-5 w-5 text-red-600 hover:text-red-800" />
                           </motion.button>
                         )}
-                        {session.status === 'active' && session.heygen_status !== 'completed' && (
-                          <motion.button
-                            whileHover={{ scale: 1.1 }}
-                            whileTap={{ scale: 0.95 }}
-                            onClick={(e) => handleStopSession(session.session_id, e)}
-                            disabled={stoppingSession === session.session_id}
-                            className="p-1 hover:bg-gray-100 rounded transition-colors disabled:opacity-50"
-                            title="Sessie stoppen"
-                          >
-                            <StopCircle className="h-5 w-5 text-red-600 hover:text-red-800" />
-                          </motion.button>
-                        )}
-                      </>
-                    )}
-                    {session.deleted_at && (
-                      <motion.button
-                        whileHover={{ scale: 1.1 }}
-                        whileTap={{ scale: 0.95 }}
-                        onClick={(e) => handleRestoreFromTrash(session.session_id, e)}
-                        className={`p-1 hover:bg-gray-100 rounded transition-colors ${
-                          updatingSession === session.session_id ? 'opacity-50 cursor-not-allowed' : ''
-                        }`}
-                        disabled={updatingSession === session.session_id}
-                        title="Herstel uit prullenbak"
-                      >
-                        <RotateCcw className="h-5 w-5 text-green-600 hover:text-green-800" />
-                      </motion.button>
+                      </div>
+                    </div>
+                    <div className="mt-1 text-sm text-gray-500 flex justify-between items-center">
+                      <span className={`px-2 py-0.5 text-sm rounded-full ${
+                        session.status === 'active' 
+                          ? 'bg-green-100 text-green-800'
+                          : session.status === 'error'
+                            ? 'bg-red-100 text-red-800'
+                            : 'bg-gray-100 text-gray-800'
+                      }`}>
+                        {session.status === 'active' ? 'Actief' : session.status === 'error' ? 'Fout' : 'Voltooid'}
+                      </span>
+                      <span>{getStatusDisplay(session)}</span>
+                      <div className="flex space-x-4">
+                        <span>Duur: {getDuration(session.start_time, session.end_time)}</span>
+                        <span>{format(new Date(session.start_time), 'dd/MM/yyyy HH:mm:ss')}</span>
+                      </div>
+                    </div>
+                    {(session.session_topics.length > 0 || session.session_tags.length > 0) && (
+                      <div className="mt-2 flex flex-wrap items-center gap-1">
+                        <TopicChips topics={session.session_topics.flatMap(st => topicsById.get(st.topic_id) ?? [])} />
+                        {session.session_tags.map(({ tag }) => (
+                          <span key={tag} className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700">
+                            {tag}
+                          </span>
+                        ))}
+                      </div>
                     )}
-                  </div>
-                </div>
-                <div className="mt-1 text-sm text-gray-500 flex justify-between items-center">
-                  <span className={`px-2 py-0.5 text-sm rounded-full ${
-                    session.status === 'active' 
-                      ? 'bg-green-100 text-green-800'
-                      : 'bg-gray-100 text-gray-800'
-                  }`}>
-                    {session.status === 'active' ? 'Actief' : 'Voltooid'}
-                  </span>
-                  <span>{getStatusDisplay(session)}</span>
-                  <div className="flex space-x-4">
-                    <span>Duur: {getDuration(session.start_time, session.end_time)}</span>
-                    <span>{format(new Date(session.start_time), 'dd/MM/yyyy HH:mm:ss')}</span>
-                  </div>
+                  </motion.div>
                 </div>
-              </motion.div>
-            ))}
-          </AnimatePresence>
+              );
+            })}
+          </div>
+        )}
+        {!searchResults && isLoadingMore && (
+          <div className="p-4 text-sm text-gray-500">Meer sessies laden...</div>
         )}
       </div>
+
+      <AnimatePresence>
+        {undoAction && (
+          <UndoToast message={undoAction.message} onUndo={handleUndo} onDismiss={dismissUndo} />
+        )}
+      </AnimatePresence>
     </div>
   );
 }
\ No newline at end of file
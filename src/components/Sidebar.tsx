@@ -0,0 +1,40 @@
+import { NavLink } from 'react-router-dom';
+import { Activity, Flag, History, LayoutDashboard, MessageSquare, Settings, Users } from 'lucide-react';
+import { usePermission } from '../lib/roleContext';
+
+export function Sidebar() {
+  const canManageUsers = usePermission('manageUsers');
+  const canViewAuditLog = usePermission('viewAuditLog');
+  const canManageSettings = usePermission('manageSettings');
+
+  const items = [
+    { to: '/dashboard', title: 'Dashboard', icon: LayoutDashboard, visible: true },
+    { to: '/live', title: 'Live sessies', icon: Activity, visible: true },
+    { to: '/sessions', title: 'Sessies', icon: MessageSquare, visible: true },
+    { to: '/flagged', title: 'Gemarkeerde antwoorden', icon: Flag, visible: true },
+    { to: '/users', title: 'Gebruikers', icon: Users, visible: canManageUsers },
+    { to: '/audit', title: 'Audit log', icon: History, visible: canViewAuditLog },
+    { to: '/settings', title: 'Instellingen', icon: Settings, visible: canManageSettings },
+  ];
+
+  return (
+    <nav className="w-16 bg-white border-r border-gray-200">
+      <div className="flex flex-col items-center py-4 space-y-4">
+        {items.filter(item => item.visible).map(({ to, title, icon: Icon }) => (
+          <NavLink
+            key={to}
+            to={to}
+            className={({ isActive }) => `p-3 rounded-lg transition-colors ${
+              isActive
+                ? 'bg-[#ce861b] text-white'
+                : 'text-gray-600 hover:bg-gray-100'
+            }`}
+            title={title}
+          >
+            <Icon className="w-6 h-6" />
+          </NavLink>
+        ))}
+      </div>
+    </nav>
+  );
+}
@@ -0,0 +1,90 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { fetchSessionTopics, fetchTopics, type SessionTopic, type TopicChip } from '../lib/topics';
+
+interface TopicChipsProps {
+  topics: TopicChip[];
+  // Per topic een toelichting in de tooltip, bijvoorbeeld de gematchte keywords
+  hints?: Record<string, string>;
+}
+
+export function TopicChips({ topics, hints = {} }: TopicChipsProps) {
+  if (topics.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {topics.map(topic => (
+        <span
+          key={topic.id}
+          className="px-2 py-0.5 text-xs rounded-full font-medium"
+          // Achtergrond is de topickleur op 15% dekking
+          style={{ backgroundColor: `${topic.color}26`, color: topic.color }}
+          title={hints[topic.id] ?? topic.label}
+        >
+          {topic.label}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+interface SessionTopicChipsProps {
+  sessionId: string;
+}
+
+// Topics van één sessie; volgt de classify-topics worker via realtime
+export function SessionTopicChips({ sessionId }: SessionTopicChipsProps) {
+  const [topics, setTopics] = useState<TopicChip[]>([]);
+  const [sessionTopics, setSessionTopics] = useState<SessionTopic[]>([]);
+
+  useEffect(() => {
+    fetchTopics()
+      .then(setTopics)
+      .catch(err => console.error('Error fetching topics:', err));
+  }, []);
+
+  useEffect(() => {
+    const loadSessionTopics = () => {
+      fetchSessionTopics(sessionId)
+        .then(setSessionTopics)
+        .catch(err => console.error('Error fetching session topics:', err));
+    };
+
+    loadSessionTopics();
+
+    // DELETE events laten zich niet filteren; de primary key (session_id, topic_id) zit wel in `old`
+    const channel = supabase.channel(`session_topics_${sessionId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'session_topics', filter: `session_id=eq.${sessionId}` },
+        () => loadSessionTopics()
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'session_topics', filter: `session_id=eq.${sessionId}` },
+        () => loadSessionTopics()
+      )
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'session_topics' },
+        (payload) => {
+          const removed = payload.old as Pick<SessionTopic, 'session_id' | 'topic_id'>;
+          if (removed.session_id !== sessionId) return;
+          setSessionTopics(prev => prev.filter(({ topic_id }) => topic_id !== removed.topic_id));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [sessionId]);
+
+  const topicsById = new Map(topics.map(topic => [topic.id, topic]));
+  const chips = sessionTopics.flatMap(st => topicsById.get(st.topic_id) ?? []);
+  const hints = Object.fromEntries(
+    sessionTopics.map(st => [st.topic_id, `Herkend op: ${st.matched_keywords.join(', ')} (score ${st.score})`])
+  );
+
+  return <TopicChips topics={chips} hints={hints} />;
+}
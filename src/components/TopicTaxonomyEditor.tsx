@@ -0,0 +1,310 @@
+import { useCallback, useEffect, useState, type FormEvent } from 'react';
+import { Plus, RefreshCw, Trash2 } from 'lucide-react';
+import {
+  deleteTopic,
+  fetchTopics,
+  requestTopicClassification,
+  saveTopic,
+  type Topic,
+} from '../lib/topics';
+import { KeywordClassifier, type TopicMatch } from '../lib/topicClassifier';
+import { TopicChips } from './TopicChips';
+
+// Keywords worden als komma-gescheiden tekst bewerkt
+const parseKeywords = (value: string) =>
+  value.split(',').map(keyword => keyword.trim()).filter(Boolean);
+
+const toSlug = (label: string) =>
+  label.toLowerCase().normalize('NFD').replace(/\p{M}/gu, '').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+interface TopicDraft {
+  label: string;
+  keywords: string;
+  color: string;
+  is_active: boolean;
+}
+
+const toDraft = (topic: Topic): TopicDraft => ({
+  label: topic.label,
+  keywords: topic.keywords.join(', '),
+  color: topic.color,
+  is_active: topic.is_active,
+});
+
+export function TopicTaxonomyEditor() {
+  const [topics, setTopics] = useState<Topic[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, TopicDraft>>({});
+  const [newLabel, setNewLabel] = useState('');
+  const [newKeywords, setNewKeywords] = useState('');
+  const [previewText, setPreviewText] = useState('');
+  const [previewMatches, setPreviewMatches] = useState<TopicMatch[]>([]);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [isClassifying, setIsClassifying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadTopics = useCallback(async () => {
+    try {
+      const data = await fetchTopics({ includeInactive: true });
+      setTopics(data);
+      setDrafts(Object.fromEntries(data.map(topic => [topic.id, toDraft(topic)])));
+    } catch (err) {
+      console.error('Error fetching topics:', err);
+      setError(err instanceof Error ? err.message : 'Onderwerpen ophalen mislukt');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTopics();
+  }, [loadTopics]);
+
+  // Preview met de lokale keyword engine en de nog niet opgeslagen keywords
+  useEffect(() => {
+    if (!previewText.trim()) {
+      setPreviewMatches([]);
+      return;
+    }
+
+    const definitions = topics
+      .filter(topic => drafts[topic.id]?.is_active)
+      .map(topic => ({ id: topic.id, label: drafts[topic.id].label, keywords: parseKeywords(drafts[topic.id].keywords) }));
+
+    new KeywordClassifier()
+      .classify([{ sender: 'user', message: previewText }], definitions)
+      .then(setPreviewMatches);
+  }, [previewText, topics, drafts]);
+
+  const updateDraft = (topicId: string, changes: Partial<TopicDraft>) => {
+    setDrafts(prev => ({ ...prev, [topicId]: { ...prev[topicId], ...changes } }));
+  };
+
+  const handleSave = async (topic: Topic) => {
+    const draft = drafts[topic.id];
+    if (!draft.label.trim()) {
+      setError('Een onderwerp heeft een naam nodig');
+      return;
+    }
+
+    try {
+      setSavingId(topic.id);
+      setError(null);
+      setNotice(null);
+      await saveTopic({
+        ...topic,
+        label: draft.label.trim(),
+        keywords: parseKeywords(draft.keywords),
+        color: draft.color,
+        is_active: draft.is_active,
+      });
+      await loadTopics();
+      setNotice('Onderwerp opgeslagen. Alle sessies worden opnieuw geclassificeerd.');
+    } catch (err) {
+      console.error('Error saving topic:', err);
+      setError(err instanceof Error ? err.message : 'Onderwerp opslaan mislukt');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleDelete = async (topic: Topic) => {
+    if (!window.confirm(`Onderwerp "${topic.label}" verwijderen? De tags op sessies verdwijnen ook.`)) return;
+
+    try {
+      setSavingId(topic.id);
+      setError(null);
+      setNotice(null);
+      await deleteTopic(topic.id);
+      await loadTopics();
+    } catch (err) {
+      console.error('Error deleting topic:', err);
+      setError(err instanceof Error ? err.message : 'Onderwerp verwijderen mislukt');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleAdd = async (e: FormEvent) => {
+    e.preventDefault();
+
+    const id = toSlug(newLabel);
+    if (!id) {
+      setError('Een onderwerp heeft een naam nodig');
+      return;
+    }
+    if (topics.some(topic => topic.id === id)) {
+      setError(`Er bestaat al een onderwerp "${id}"`);
+      return;
+    }
+
+    try {
+      setSavingId(id);
+      setError(null);
+      setNotice(null);
+      await saveTopic({
+        id,
+        label: newLabel.trim(),
+        keywords: parseKeywords(newKeywords),
+        position: Math.max(0, ...topics.map(topic => topic.position)) + 1,
+      });
+      setNewLabel('');
+      setNewKeywords('');
+      await loadTopics();
+    } catch (err) {
+      console.error('Error adding topic:', err);
+      setError(err instanceof Error ? err.message : 'Onderwerp toevoegen mislukt');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleClassifyNow = async () => {
+    try {
+      setIsClassifying(true);
+      setError(null);
+      setNotice(null);
+      await requestTopicClassification();
+      setNotice('Classificatie gestart. Grote aantallen sessies worden in delen verwerkt.');
+    } catch (err) {
+      console.error('Error requesting classification:', err);
+      setError(err instanceof Error ? err.message : 'Classificatie starten mislukt');
+    } finally {
+      setIsClassifying(false);
+    }
+  };
+
+  const topicsById = new Map(topics.map(topic => [topic.id, { ...topic, label: drafts[topic.id]?.label ?? topic.label }]));
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 space-y-4">
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-lg font-semibold">Onderwerpen</h2>
+          <p className="text-sm text-gray-500">
+            Afgeronde sessies krijgen automatisch onderwerpen op basis van deze keywords. Een <code>*</code> aan het
+            eind matcht elke woordvorm, bijvoorbeeld <code>subsidie*</code>.
+          </p>
+        </div>
+        <button
+          onClick={handleClassifyNow}
+          disabled={isClassifying}
+          className="inline-flex items-center gap-1 px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+        >
+          <RefreshCw className={`h-4 w-4 ${isClassifying ? 'animate-spin' : ''}`} />
+          Nu classificeren
+        </button>
+      </div>
+
+      {error && <div className="bg-red-50 text-red-500 p-3 rounded-md text-sm">{error}</div>}
+      {notice && <div className="bg-green-50 text-green-700 p-3 rounded-md text-sm">{notice}</div>}
+
+      <div className="divide-y divide-gray-100 border rounded-md">
+        {topics.map(topic => {
+          const draft = drafts[topic.id];
+          if (!draft) return null;
+
+          return (
+            <div key={topic.id} className="p-3 flex gap-3 items-start">
+              <input
+                type="color"
+                value={draft.color}
+                onChange={(e) => updateDraft(topic.id, { color: e.target.value })}
+                className="h-9 w-9 rounded border"
+                title="Kleur"
+              />
+              <div className="flex-1 space-y-2">
+                <input
+                  value={draft.label}
+                  onChange={(e) => updateDraft(topic.id, { label: e.target.value })}
+                  className="border rounded-md px-2 py-1 w-full font-medium"
+                />
+                <textarea
+                  value={draft.keywords}
+                  onChange={(e) => updateDraft(topic.id, { keywords: e.target.value })}
+                  rows={2}
+                  className="border rounded-md px-2 py-1 w-full text-sm"
+                  placeholder="keyword, woordgroep, prefix*"
+                />
+              </div>
+              <div className="flex flex-col items-end gap-2">
+                <label className="flex items-center gap-1 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={draft.is_active}
+                    onChange={(e) => updateDraft(topic.id, { is_active: e.target.checked })}
+                  />
+                  Actief
+                </label>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleDelete(topic)}
+                    disabled={savingId === topic.id}
+                    className="p-1 hover:bg-gray-100 rounded disabled:opacity-50"
+                    title="Verwijderen"
+                  >
+                    <Trash2 className="h-4 w-4 text-red-600" />
+                  </button>
+                  <button
+                    onClick={() => handleSave(topic)}
+                    disabled={savingId === topic.id}
+                    className="bg-[#ce861b] text-white px-3 py-1 text-sm rounded-md hover:bg-[#b67616] disabled:opacity-50"
+                  >
+                    {savingId === topic.id ? 'Opslaan...' : 'Opslaan'}
+                  </button>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <form onSubmit={handleAdd} className="flex gap-2 items-start">
+        <input
+          value={newLabel}
+          onChange={(e) => setNewLabel(e.target.value)}
+          placeholder="Nieuw onderwerp"
+          className="border rounded-md px-2 py-1"
+        />
+        <input
+          value={newKeywords}
+          onChange={(e) => setNewKeywords(e.target.value)}
+          placeholder="keywords, komma-gescheiden"
+          className="border rounded-md px-2 py-1 flex-1"
+        />
+        <button
+          type="submit"
+          disabled={savingId !== null}
+          className="inline-flex items-center gap-1 px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+        >
+          <Plus className="h-4 w-4" />
+          Toevoegen
+        </button>
+      </form>
+
+      <div>
+        <label htmlFor="topic-preview" className="block text-sm font-medium text-gray-700 mb-1">
+          Testen
+        </label>
+        <textarea
+          id="topic-preview"
+          value={previewText}
+          onChange={(e) => setPreviewText(e.target.value)}
+          rows={2}
+          className="border rounded-md px-2 py-1 w-full text-sm"
+          placeholder="Typ een vraag van een promovendus om te zien welke onderwerpen herkend worden"
+        />
+        {previewText.trim() && (
+          <div className="mt-2">
+            {previewMatches.length === 0 ? (
+              <p className="text-sm text-gray-500">Geen onderwerpen herkend</p>
+            ) : (
+              <TopicChips
+                topics={previewMatches.flatMap(match => topicsById.get(match.topic_id) ?? [])}
+                hints={Object.fromEntries(previewMatches.map(match => [match.topic_id, match.matched_keywords.join(', ')]))}
+              />
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { X } from 'lucide-react';
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+  durationMs?: number;
+}
+
+// Melding na een actie met een knop om hem terug te draaien; verdwijnt vanzelf na `durationMs`
+export function UndoToast({ message, onUndo, onDismiss, durationMs = 10000 }: UndoToastProps) {
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, durationMs);
+    return () => clearTimeout(timer);
+  }, [message, onDismiss, durationMs]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 20 }}
+      className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 bg-gray-900 text-white text-sm px-4 py-3 rounded-lg shadow-lg"
+    >
+      <span>{message}</span>
+      <button onClick={onUndo} className="font-medium text-[#f5b95f] hover:text-[#ffd7a3]">
+        Ongedaan maken
+      </button>
+      <button onClick={onDismiss} className="text-gray-400 hover:text-white" title="Sluiten">
+        <X className="h-4 w-4" />
+      </button>
+    </motion.div>
+  );
+}
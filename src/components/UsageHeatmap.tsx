@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import type { DashboardData } from '../lib/database.types';
+
+type HeatmapMetric = 'sessions' | 'messages';
+
+interface UsageHeatmapProps {
+  cells: DashboardData['usage_heatmap'];
+  timeZone: string;
+}
+
+// ISO weekdagen: 1 = maandag
+const WEEKDAYS = [
+  { value: 1, label: 'Ma' },
+  { value: 2, label: 'Di' },
+  { value: 3, label: 'Wo' },
+  { value: 4, label: 'Do' },
+  { value: 5, label: 'Vr' },
+  { value: 6, label: 'Za' },
+  { value: 7, label: 'Zo' },
+];
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+export function UsageHeatmap({ cells, timeZone }: UsageHeatmapProps) {
+  const [metric, setMetric] = useState<HeatmapMetric>('sessions');
+
+  const countFor = (cell: UsageHeatmapProps['cells'][number]) =>
+    metric === 'sessions' ? cell.session_count : cell.message_count;
+
+  const counts = new Map(cells.map(cell => [`${cell.weekday}-${cell.hour}`, countFor(cell)]));
+  const max = Math.max(0, ...counts.values());
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold">Gebruik per weekdag en uur</h2>
+        <select
+          className="border rounded-md p-2"
+          value={metric}
+          onChange={(e) => setMetric(e.target.value as HeatmapMetric)}
+        >
+          <option value="sessions">Sessies</option>
+          <option value="messages">Berichten</option>
+        </select>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="border-separate" style={{ borderSpacing: 2 }}>
+          <thead>
+            <tr>
+              <th />
+              {HOURS.map(hour => (
+                <th key={hour} className="text-xs font-normal text-gray-500 w-8">
+                  {hour % 3 === 0 ? String(hour).padStart(2, '0') : ''}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {WEEKDAYS.map(({ value: weekday, label }) => (
+              <tr key={weekday}>
+                <th className="text-xs font-normal text-gray-500 pr-2 text-left">{label}</th>
+                {HOURS.map(hour => {
+                  const count = counts.get(`${weekday}-${hour}`) ?? 0;
+                  return (
+                    <td
+                      key={hour}
+                      className="w-8 h-6 rounded-sm bg-gray-100"
+                      style={count > 0 ? { backgroundColor: '#ce861b', opacity: 0.15 + 0.85 * (count / max) } : undefined}
+                      title={`${label} ${String(hour).padStart(2, '0')}:00 - ${count} ${metric === 'sessions' ? 'sessies' : 'berichten'}`}
+                    />
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="mt-2 text-xs text-gray-500">Tijden in {timeZone}</p>
+    </div>
+  );
+}
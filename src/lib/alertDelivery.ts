@@ -0,0 +1,157 @@
+import type { AlertRuleKind, AlertSeverity } from './database.types.ts';
+
+/**
+ * Bezorging van alerts buiten de app, per kanaal van een regel.
+ *
+ * Zonder afhankelijkheden op Vite of Supabase, zodat de edge function `evaluate-alerts` dit
+ * bestand direct kan laden. Een ander kanaal (bijvoorbeeld Slack) implementeert `AlertChannel`
+ * en wordt met `registerAlertChannel` onder een eigen naam beschikbaar gemaakt. E-mail loopt
+ * via een `EmailTransport`; `ConsoleEmailTransport` is de lokale stand-in zonder mailprovider.
+ */
+
+export interface AlertNotification {
+  id: string;
+  kind: AlertRuleKind;
+  severity: AlertSeverity;
+  title: string;
+  body: string;
+  session_id: string | null;
+  created_at: string;
+  // Link naar de sessie in het dashboard, als de app URL bekend is
+  url: string | null;
+}
+
+// Ontvangers zoals ingesteld op de regel
+export interface AlertRecipients {
+  email_recipients: string[];
+  webhook_url: string | null;
+}
+
+export interface AlertChannel {
+  readonly name: string;
+  // Gooit bij een mislukte bezorging; de worker legt de fout vast in `alert_deliveries`
+  deliver(alert: AlertNotification, recipients: AlertRecipients): Promise<void>;
+}
+
+export interface EmailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+export interface EmailTransport {
+  send(email: EmailMessage): Promise<void>;
+}
+
+export class AlertDeliveryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AlertDeliveryError';
+  }
+}
+
+// Webhooks en mailproviders die niet antwoorden houden de worker niet op
+const REQUEST_TIMEOUT_MS = 10000;
+
+const SEVERITY_PREFIXES: Record<AlertSeverity, string> = {
+  info: 'Info',
+  warning: 'Waarschuwing',
+  critical: 'Kritiek',
+};
+
+async function postJson(url: string, body: unknown, headers: Record<string, string> = {}) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new AlertDeliveryError(`POST ${url} failed with ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+  }
+}
+
+// Lokale stand-in: schrijft de e-mail naar de logs in plaats van hem te versturen
+export class ConsoleEmailTransport implements EmailTransport {
+  async send(email: EmailMessage) {
+    console.log(`[alert e-mail] to: ${email.to.join(', ')}\nsubject: ${email.subject}\n\n${email.text}`);
+  }
+}
+
+export interface HttpEmailTransportOptions {
+  endpoint: string;
+  from: string;
+  apiKey?: string;
+}
+
+/**
+ * Verstuurt via een HTTP mail API met `{ from, to, subject, text }` en een Bearer token, zoals
+ * Resend. Lokaal werkt `scripts/mock-alert-sink.js` als endpoint.
+ */
+export class HttpEmailTransport implements EmailTransport {
+  private readonly options: HttpEmailTransportOptions;
+
+  constructor(options: HttpEmailTransportOptions) {
+    this.options = options;
+  }
+
+  async send(email: EmailMessage) {
+    const { endpoint, from, apiKey } = this.options;
+    await postJson(endpoint, { from, ...email }, apiKey ? { Authorization: `Bearer ${apiKey}` } : {});
+  }
+}
+
+export class EmailChannel implements AlertChannel {
+  readonly name = 'email';
+  private readonly transport: EmailTransport;
+
+  constructor(transport: EmailTransport = new ConsoleEmailTransport()) {
+    this.transport = transport;
+  }
+
+  async deliver(alert: AlertNotification, recipients: AlertRecipients) {
+    if (recipients.email_recipients.length === 0) {
+      throw new AlertDeliveryError('No e-mail recipients configured');
+    }
+
+    await this.transport.send({
+      to: recipients.email_recipients,
+      subject: `[${SEVERITY_PREFIXES[alert.severity]}] ${alert.title}`,
+      text: [alert.body, alert.url, `Gemeld op ${new Date(alert.created_at).toLocaleString('nl-NL')}`]
+        .filter(Boolean)
+        .join('\n\n'),
+    });
+  }
+}
+
+// POST van de alert als JSON naar de URL van de regel
+export class WebhookChannel implements AlertChannel {
+  readonly name = 'webhook';
+
+  async deliver(alert: AlertNotification, recipients: AlertRecipients) {
+    if (!recipients.webhook_url) {
+      throw new AlertDeliveryError('No webhook URL configured');
+    }
+
+    await postJson(recipients.webhook_url, { type: 'alert', alert });
+  }
+}
+
+const channelFactories = new Map<string, () => AlertChannel>([
+  ['email', () => new EmailChannel()],
+  ['webhook', () => new WebhookChannel()],
+]);
+
+export function registerAlertChannel(name: string, factory: () => AlertChannel) {
+  channelFactories.set(name, factory);
+}
+
+export function createAlertChannel(name: string) {
+  const factory = channelFactories.get(name);
+  if (!factory) {
+    throw new Error(`Unknown alert channel: ${name}`);
+  }
+  return factory();
+}
@@ -0,0 +1,197 @@
+import { compileKeyword, normalizeText } from './topicClassifier.ts';
+import type { AlertRuleKind, AlertSeverity, Database, Json } from './database.types.ts';
+
+/**
+ * Alert regels: wanneer een sessie of bericht een melding oplevert.
+ *
+ * Zonder afhankelijkheden op Vite of Supabase, zodat de edge function `evaluate-alerts`
+ * dezelfde evaluatie gebruikt als de instellingen voor hun omschrijvingen en preview.
+ * De parameters staan als jsonb in `alert_rules.params`; `parseAlertRuleConfig` maakt er
+ * een getypeerde configuratie van, met de standaardwaarden voor wat ontbreekt.
+ */
+
+export type AlertRuleConfig =
+  | { kind: 'session_error' }
+  | { kind: 'long_session'; minutes: number }
+  | { kind: 'session_rate'; max_sessions: number; window_minutes: number }
+  // Zelfde notatie als de topics: woordgrenzen, `*` aan het eind voor elke woordvorm
+  | { kind: 'keyword'; keywords: string[] };
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  severity: AlertSeverity;
+  config: AlertRuleConfig;
+}
+
+type AlertRuleRow = Database['public']['Tables']['alert_rules']['Row'];
+type SessionRow = Database['public']['Tables']['sessions']['Row'];
+type MessageRow = Database['public']['Tables']['messages']['Row'];
+
+export type AlertSession = Pick<SessionRow, 'session_id' | 'status' | 'start_time' | 'end_time'>;
+export type AlertMessage = Pick<MessageRow, 'id' | 'session_id' | 'message'>;
+
+// Eén rij voor `alerts`; (rule_id, dedupe_key) is uniek, dus dezelfde melding komt er maar één keer in
+export type AlertCandidate = Database['public']['Tables']['alerts']['Insert'] & { rule_id: string };
+
+export const ALERT_RULE_KIND_LABELS: Record<AlertRuleKind, string> = {
+  session_error: 'Sessie met fout',
+  long_session: 'Lange sessie',
+  session_rate: 'Veel sessies',
+  keyword: 'Signaalwoorden',
+};
+
+export const ALERT_SEVERITY_LABELS: Record<AlertSeverity, string> = {
+  info: 'Info',
+  warning: 'Waarschuwing',
+  critical: 'Kritiek',
+};
+
+export const DEFAULT_ALERT_RULE_CONFIGS: { [Kind in AlertRuleKind]: Extract<AlertRuleConfig, { kind: Kind }> } = {
+  session_error: { kind: 'session_error' },
+  long_session: { kind: 'long_session', minutes: 60 },
+  session_rate: { kind: 'session_rate', max_sessions: 20, window_minutes: 60 },
+  keyword: { kind: 'keyword', keywords: [] },
+};
+
+const OPEN_STATUSES: SessionRow['status'][] = ['active', 'connecting', 'connected'];
+
+// Langere berichten worden in de melding afgekapt
+const EXCERPT_LENGTH = 200;
+
+const positiveNumber = (value: Json | undefined, fallback: number) =>
+  typeof value === 'number' && value >= 1 ? value : fallback;
+
+export function parseAlertRuleConfig(kind: AlertRuleKind, params: Json): AlertRuleConfig {
+  const values: { [key: string]: Json | undefined } =
+    params && typeof params === 'object' && !Array.isArray(params) ? params : {};
+
+  switch (kind) {
+    case 'session_error':
+      return DEFAULT_ALERT_RULE_CONFIGS.session_error;
+    case 'long_session':
+      return { kind, minutes: positiveNumber(values.minutes, DEFAULT_ALERT_RULE_CONFIGS.long_session.minutes) };
+    case 'session_rate':
+      return {
+        kind,
+        max_sessions: positiveNumber(values.max_sessions, DEFAULT_ALERT_RULE_CONFIGS.session_rate.max_sessions),
+        window_minutes: positiveNumber(values.window_minutes, DEFAULT_ALERT_RULE_CONFIGS.session_rate.window_minutes),
+      };
+    case 'keyword':
+      return {
+        kind,
+        keywords: Array.isArray(values.keywords)
+          ? values.keywords.filter((keyword): keyword is string => typeof keyword === 'string' && keyword.trim() !== '')
+          : [],
+      };
+  }
+}
+
+// Tegenhanger van parseAlertRuleConfig, voor `alert_rules.params`
+export function toAlertRuleParams(config: AlertRuleConfig): Json {
+  switch (config.kind) {
+    case 'session_error':
+      return {};
+    case 'long_session':
+      return { minutes: config.minutes };
+    case 'session_rate':
+      return { max_sessions: config.max_sessions, window_minutes: config.window_minutes };
+    case 'keyword':
+      return { keywords: config.keywords };
+  }
+}
+
+export function toAlertRule(row: Pick<AlertRuleRow, 'id' | 'name' | 'severity' | 'kind' | 'params'>): AlertRule {
+  return { id: row.id, name: row.name, severity: row.severity, config: parseAlertRuleConfig(row.kind, row.params) };
+}
+
+// Eén zin voor in de instellingen, bijvoorbeeld 'Als een sessie langer dan 60 minuten loopt'
+export function describeAlertRule(config: AlertRuleConfig) {
+  switch (config.kind) {
+    case 'session_error':
+      return 'Zodra een sessie de status Fout krijgt';
+    case 'long_session':
+      return `Als een sessie langer dan ${config.minutes} minuten loopt`;
+    case 'session_rate':
+      return `Als er meer dan ${config.max_sessions} sessies starten binnen ${config.window_minutes} minuten`;
+    case 'keyword':
+      return config.keywords.length > 0
+        ? `Als een gebruiker een van deze woorden gebruikt: ${config.keywords.join(', ')}`
+        : 'Nog geen woorden ingesteld';
+  }
+}
+
+// De keywords die in de tekst voorkomen, in de volgorde van de regel
+export function matchAlertKeywords(text: string, keywords: string[]) {
+  const normalized = normalizeText(text);
+  return keywords.filter(keyword => keyword.trim() && compileKeyword(keyword).test(normalized));
+}
+
+const shortId = (sessionId: string) => sessionId.slice(0, 8);
+
+const excerpt = (text: string) =>
+  text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH).trimEnd()}…` : text;
+
+function candidate(rule: AlertRule, alert: Omit<AlertCandidate, 'rule_id' | 'kind' | 'severity' | 'title'>): AlertCandidate {
+  return { rule_id: rule.id, kind: rule.config.kind, severity: rule.severity, title: rule.name, ...alert };
+}
+
+/**
+ * Regels op één sessie: een fout, of een sessie die na `minutes` nog open staat.
+ * Per sessie hooguit één melding per regel, ook als de sessie daarna opnieuw verandert.
+ */
+export function evaluateSession(rule: AlertRule, session: AlertSession, now = Date.now()): AlertCandidate | null {
+  const dedupe_key = `session:${session.session_id}`;
+
+  switch (rule.config.kind) {
+    case 'session_error':
+      if (session.status !== 'error') return null;
+      return candidate(rule, {
+        session_id: session.session_id,
+        body: `Sessie ${shortId(session.session_id)} heeft de status Fout gekregen`,
+        dedupe_key,
+      });
+    case 'long_session': {
+      if (session.end_time !== null || !OPEN_STATUSES.includes(session.status)) return null;
+
+      const minutes = Math.floor((now - new Date(session.start_time).getTime()) / 60000);
+      if (minutes < rule.config.minutes) return null;
+      return candidate(rule, {
+        session_id: session.session_id,
+        body: `Sessie ${shortId(session.session_id)} loopt al ${minutes} minuten`,
+        dedupe_key,
+      });
+    }
+    default:
+      return null;
+  }
+}
+
+// Keyword regels op een bericht van de gebruiker
+export function evaluateMessage(rule: AlertRule, message: AlertMessage): AlertCandidate | null {
+  if (rule.config.kind !== 'keyword') return null;
+
+  const matched = matchAlertKeywords(message.message, rule.config.keywords);
+  if (matched.length === 0) return null;
+
+  return candidate(rule, {
+    session_id: message.session_id,
+    message_id: message.id,
+    body: `Sessie ${message.session_id ? shortId(message.session_id) : 'onbekend'}: "${excerpt(message.message)}" (${matched.join(', ')})`,
+    dedupe_key: `message:${message.id}`,
+  });
+}
+
+/**
+ * Aantal gestarte sessies in het venster van de regel. Eén melding per vast tijdvak van
+ * `window_minutes`, zodat een aanhoudende piek niet elke run opnieuw meldt.
+ */
+export function evaluateSessionRate(rule: AlertRule, startedSessions: number, now = Date.now()): AlertCandidate | null {
+  if (rule.config.kind !== 'session_rate' || startedSessions <= rule.config.max_sessions) return null;
+
+  const windowMs = rule.config.window_minutes * 60000;
+  return candidate(rule, {
+    body: `${startedSessions} sessies gestart in de laatste ${rule.config.window_minutes} minuten (drempel ${rule.config.max_sessions})`,
+    dedupe_key: `window:${new Date(Math.floor(now / windowMs) * windowMs).toISOString()}`,
+  });
+}
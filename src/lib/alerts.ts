@@ -0,0 +1,85 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+
+export type Alert = Database['public']['Tables']['alerts']['Row'];
+export type AlertRuleRow = Database['public']['Tables']['alert_rules']['Row'];
+export type AlertRuleInsert = Database['public']['Tables']['alert_rules']['Insert'];
+
+// Met `alert_reads` van de ingelogde gebruiker (RLS); een lege lijst is ongelezen
+export type NotificationItem = Alert & { alert_reads: { read_at: string }[] };
+
+export interface TestAlertDelivery {
+  channel: string;
+  status: 'sent' | 'failed';
+  error: string | null;
+}
+
+export const NOTIFICATION_LIMIT = 20;
+
+export const isUnread = (alert: NotificationItem) => alert.alert_reads.length === 0;
+
+export async function fetchNotifications(limit = NOTIFICATION_LIMIT) {
+  const { data, error } = await supabase
+    .from('alerts')
+    .select('*, alert_reads(read_at)')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data;
+}
+
+export async function fetchUnreadAlertCount() {
+  const { data, error } = await supabase.rpc('unread_alert_count');
+
+  if (error) throw error;
+  return data;
+}
+
+// Zonder alertIds worden alle ongelezen alerts van de gebruiker gelezen
+export async function markAlertsRead(alertIds?: string[]) {
+  const { error } = await supabase.rpc('mark_alerts_read', { alert_ids: alertIds ?? null });
+
+  if (error) throw error;
+}
+
+export async function fetchAlertRules() {
+  const { data, error } = await supabase
+    .from('alert_rules')
+    .select('*')
+    .order('created_at');
+
+  if (error) throw error;
+  return data;
+}
+
+// Insert of update op id
+export async function saveAlertRule(rule: AlertRuleInsert) {
+  const { data, error } = await supabase
+    .from('alert_rules')
+    .upsert(rule)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteAlertRule(ruleId: string) {
+  const { error } = await supabase
+    .from('alert_rules')
+    .delete()
+    .eq('id', ruleId);
+
+  if (error) throw error;
+}
+
+// Testmelding via de e-mail- en webhookkanalen van de regel; geeft het resultaat per kanaal terug
+export async function sendTestAlert(ruleId: string) {
+  const { data, error } = await supabase.functions.invoke<{ deliveries: TestAlertDelivery[] }>('evaluate-alerts', {
+    body: { rule_id: ruleId },
+  });
+
+  if (error) throw error;
+  return data?.deliveries ?? [];
+}
@@ -0,0 +1,98 @@
+import { format } from 'date-fns';
+import { supabase } from './supabase';
+import { downloadFile, escapeCsv } from './transcriptExport';
+import type { AnswerErrorCategory, AnswerReviewStatus, Database } from './database.types';
+
+// Oordelen van reviewers over antwoorden van de avatar; de negatieve vormen de input voor de kennisbank.
+// session_id, annotated_by en de afhandeling vult de database zelf in (prepare_message_annotation).
+
+export type MessageAnnotation = Database['public']['Tables']['message_annotations']['Row'];
+export type MessageAnnotationInput = Pick<
+  Database['public']['Tables']['message_annotations']['Insert'],
+  'message_id' | 'rating' | 'error_category' | 'suggested_answer'
+>;
+export type FlaggedAnswer = Database['public']['Functions']['flagged_answers']['Returns'][number];
+
+// Moet in sync blijven met de CHECK constraint op message_annotations.error_category
+export const ERROR_CATEGORIES: { value: AnswerErrorCategory; label: string; description: string }[] = [
+  { value: 'hallucination', label: 'Hallucinatie', description: 'Verzonnen of feitelijk onjuist' },
+  { value: 'off_topic', label: 'Niet ter zake', description: 'Gaat niet over de vraag' },
+  { value: 'unclear', label: 'Onduidelijk', description: 'Vaag, verwarrend of onvolledig' },
+  { value: 'inappropriate', label: 'Ongepast', description: 'Toon of inhoud niet passend' },
+];
+
+export function getErrorCategoryLabel(category: AnswerErrorCategory | null) {
+  return ERROR_CATEGORIES.find(c => c.value === category)?.label ?? 'Geen categorie';
+}
+
+export async function fetchMessageAnnotations(sessionId: string) {
+  const { data, error } = await supabase
+    .from('message_annotations')
+    .select('*')
+    .eq('session_id', sessionId);
+
+  if (error) throw error;
+  return data;
+}
+
+// Geeft de opgeslagen rij terug, met wat de triggers invullen (annotator, review status)
+export async function saveMessageAnnotation(annotation: MessageAnnotationInput) {
+  const { data, error } = await supabase
+    .from('message_annotations')
+    .upsert(annotation, { onConflict: 'message_id' })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteMessageAnnotation(messageId: string) {
+  const { error } = await supabase
+    .from('message_annotations')
+    .delete()
+    .eq('message_id', messageId);
+
+  if (error) throw error;
+}
+
+export async function setAnswerReviewStatus(messageId: string, status: AnswerReviewStatus) {
+  const { error } = await supabase
+    .from('message_annotations')
+    .update({ review_status: status })
+    .eq('message_id', messageId);
+
+  if (error) throw error;
+}
+
+export interface FlaggedAnswerFilters {
+  // null toont open en afgehandelde antwoorden samen
+  status?: AnswerReviewStatus | null;
+  category?: AnswerErrorCategory | null;
+}
+
+export async function fetchFlaggedAnswers({ status = 'open', category = null }: FlaggedAnswerFilters = {}) {
+  const { data, error } = await supabase.rpc('flagged_answers', { p_status: status, p_category: category });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+// Vraag, fout antwoord en voorgestelde verbetering per regel, om in de kennisbank van de avatar te verwerken
+export function exportFlaggedAnswers(answers: FlaggedAnswer[]) {
+  const header = ['session_id', 'answered_at', 'question', 'answer', 'error_category', 'suggested_answer', 'flagged_by', 'review_status'];
+  const rows = answers.map(answer => [
+    answer.session_id,
+    answer.answered_at,
+    answer.question,
+    answer.answer,
+    answer.error_category,
+    answer.suggested_answer,
+    answer.annotator_email,
+    answer.review_status,
+  ]);
+  const csv = [header, ...rows].map(row => row.map(escapeCsv).join(',')).join('\r\n');
+
+  // BOM zodat Excel de UTF-8 tekens goed toont
+  downloadFile(`gemarkeerde-antwoorden-${format(new Date(), 'yyyyMMdd-HHmm')}.csv`, `\uFEFF${csv}`, 'text/csv;charset=utf-8');
+}
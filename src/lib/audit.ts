@@ -0,0 +1,77 @@
+import { supabase } from './supabase';
+import { ROLES } from './roles';
+import type { Database } from './database.types';
+
+export type AuditLogEntry = Database['public']['Tables']['audit_log']['Row'];
+
+// Moet in sync blijven met de acties in audit_session_changes() en audit_user_changes()
+export const AUDIT_ACTIONS = [
+  { value: 'session.trashed', label: 'Naar prullenbak' },
+  { value: 'session.restored', label: 'Hersteld uit prullenbak' },
+  { value: 'session.archived', label: 'Gearchiveerd' },
+  { value: 'session.unarchived', label: 'Uit archief gehaald' },
+  { value: 'session.marked_relevant', label: 'Als relevant gemarkeerd' },
+  { value: 'session.unmarked_relevant', label: 'Niet meer relevant' },
+  { value: 'session.stopped', label: 'Sessie gestopt' },
+  { value: 'session.deleted', label: 'Definitief verwijderd' },
+  { value: 'user.invited', label: 'Gebruiker uitgenodigd' },
+  { value: 'user.invite_revoked', label: 'Uitnodiging ingetrokken' },
+  { value: 'user.role_changed', label: 'Rol gewijzigd' },
+  { value: 'user.deactivated', label: 'Gebruiker gedeactiveerd' },
+  { value: 'user.reactivated', label: 'Gebruiker geheractiveerd' },
+  { value: 'user.deleted', label: 'Gebruiker verwijderd' },
+] as const;
+
+export interface AuditLogFilters {
+  actorId?: string | null;
+  sessionId?: string | null;
+  action?: string | null;
+  limit?: number;
+}
+
+const DEFAULT_LIMIT = 200;
+
+export function getActionLabel(action: string) {
+  return AUDIT_ACTIONS.find(a => a.value === action)?.label ?? action;
+}
+
+export async function fetchAuditLog({ actorId, sessionId, action, limit = DEFAULT_LIMIT }: AuditLogFilters = {}) {
+  let query = supabase
+    .from('audit_log')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (actorId) query = query.eq('actor_id', actorId);
+  if (sessionId) query = query.eq('session_id', sessionId);
+  if (action) query = query.eq('action', action);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as AuditLogEntry[];
+}
+
+function snapshot(value: AuditLogEntry['before']) {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+}
+
+const roleLabel = (role: unknown) => ROLES.find(r => r.value === role)?.label ?? String(role);
+
+// Korte omschrijving van het onderwerp en de wijziging, voor tabellen en tijdlijnen
+export function describeAuditEntry(entry: AuditLogEntry) {
+  const before = snapshot(entry.before);
+  const after = snapshot(entry.after);
+
+  if (entry.entity_type === 'user') {
+    const email = String(after.email ?? before.email ?? entry.entity_id);
+    if (entry.action === 'user.role_changed') {
+      return `${email}: ${roleLabel(before.role)} → ${roleLabel(after.role)}`;
+    }
+    if (entry.action === 'user.invited') {
+      return `${email} als ${roleLabel(after.role)}`;
+    }
+    return email;
+  }
+
+  return `Sessie ${entry.entity_id.slice(0, 8)}`;
+}
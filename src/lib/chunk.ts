@@ -0,0 +1,9 @@
+// Splitst een lijst in stukken van hooguit `size`, bijvoorbeeld voor `.in()` filters.
+// Zonder afhankelijkheden, zodat ook de edge functions hem kunnen importeren.
+export function chunk<T>(items: T[], size: number) {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
@@ -6,6 +6,92 @@ export type Json =
   | { [key: string]: Json | undefined }
   | Json[]
 
+export type SessionStatus = 'active' | 'connecting' | 'connected' | 'completed' | 'error'
+export type SessionCloseReason = 'stopped' | 'heygen_ended' | 'heygen_error' | 'not_found' | 'idle_timeout'
+export type MessageSender = 'user' | 'avatar'
+export type UserRole = 'admin' | 'analyst' | 'viewer'
+export type UserStatus = 'invited' | 'active' | 'deactivated'
+export type AnswerRating = 'up' | 'down'
+export type AnswerErrorCategory = 'hallucination' | 'off_topic' | 'unclear' | 'inappropriate'
+export type AnswerReviewStatus = 'open' | 'resolved'
+export type AlertRuleKind = 'session_error' | 'long_session' | 'session_rate' | 'keyword'
+export type AlertSeverity = 'info' | 'warning' | 'critical'
+export type AlertChannelName = 'in_app' | 'email' | 'webhook'
+export type AlertDeliveryStatus = 'sent' | 'failed'
+
+// Vorm van `dashboard_data` uit get_dashboard_stats(); durations in minuten, alleen afgeronde sessies
+export interface DurationStats {
+  session_count: number
+  avg_minutes: number | null
+  median_minutes: number | null
+  p90_minutes: number | null
+}
+
+// Totalen achter de vier stat cards op het dashboard
+export interface DashboardKpis {
+  session_count: number
+  message_count: number
+  avg_messages_per_session: number | null
+  avg_duration_minutes: number | null
+}
+
+// Eén bucket uit `series`; bucket_start is lokale tijd in de rapportagetijdzone ('yyyy-MM-ddTHH:mm')
+export interface DashboardBucket extends DurationStats {
+  bucket_start: string
+  message_count: number
+  avg_messages_per_session: number | null
+  // Beoordeelde antwoorden van de avatar in sessies die in deze bucket begonnen
+  rated_answer_count: number
+  positive_answer_count: number
+  // Percentage duim omhoog; null zonder beoordelingen
+  answer_quality_rate: number | null
+}
+
+// Eén periode uit dashboard_period_stats()
+export interface DashboardPeriodData {
+  time_zone: string
+  kpis: DashboardKpis
+  // Alle buckets in de periode, ook lege; weken beginnen op maandag
+  series: DashboardBucket[]
+  duration_summary: DurationStats
+  duration_histogram: {
+    min_minutes: number
+    max_minutes: number | null
+    session_count: number
+  }[]
+  // Alleen cellen met activiteit; weekday is ISO (1 = maandag), tijden in time_zone
+  usage_heatmap: {
+    weekday: number
+    hour: number
+    session_count: number
+    message_count: number
+  }[]
+  // Alle actieve topics, ook zonder sessies, in de volgorde van de taxonomie
+  topics: {
+    topic_id: string
+    label: string
+    color: string
+    session_count: number
+  }[]
+  classified_session_count: number
+  answer_quality: {
+    rated_count: number
+    positive_count: number
+    negative_count: number
+    quality_rate: number | null
+    // Altijd alle vier de categorieën, ook met 0
+    categories: {
+      category: AnswerErrorCategory
+      count: number
+    }[]
+  }
+}
+
+// Even lange periode direct vóór start_date, voor de vergelijking op het dashboard
+export interface DashboardData extends DashboardPeriodData {
+  previous_period: DashboardPeriodData
+}
+
 export type Database = {
   public: {
     Tables: {
@@ -15,74 +101,879 @@ export type Database = {
           session_id: string
           start_time: string
           end_time: string | null
-          status: 'active' | 'connecting' | 'connected' | 'completed' | 'error'
+          duration: string | null
+          status: SessionStatus
           heygen_status: string | null
           last_sync_at: string | null
           created_at: string
-          updated_at: string
           is_relevant: boolean
           is_archived: boolean
           deleted_at: string | null
+          sync_cursor: string | null
+          close_reason: SessionCloseReason | null
         }
         Insert: {
           id?: string
           session_id: string
           start_time?: string
           end_time?: string | null
-          status?: 'active' | 'connecting' | 'connected' | 'completed' | 'error'
+          status?: SessionStatus
           heygen_status?: string | null
           last_sync_at?: string | null
           created_at?: string
-          updated_at?: string
           is_relevant?: boolean
           is_archived?: boolean
           deleted_at?: string | null
+          sync_cursor?: string | null
+          close_reason?: SessionCloseReason | null
         }
         Update: {
           id?: string
           session_id?: string
           start_time?: string
           end_time?: string | null
-          status?: 'active' | 'connecting' | 'connected' | 'completed' | 'error'
+          status?: SessionStatus
           heygen_status?: string | null
           last_sync_at?: string | null
           created_at?: string
-          updated_at?: string
           is_relevant?: boolean
           is_archived?: boolean
           deleted_at?: string | null
+          sync_cursor?: string | null
+          close_reason?: SessionCloseReason | null
         }
+        Relationships: []
       }
       messages: {
         Row: {
           id: string
           session_id: string
-          sender: 'user' | 'avatar'
+          sender: MessageSender
           message: string
           timestamp: string
           created_at: string
+          external_id: string | null
+          message_hash: string
         }
         Insert: {
           id?: string
           session_id: string
-          sender: 'user' | 'avatar'
+          sender: MessageSender
           message: string
           timestamp?: string
           created_at?: string
+          external_id?: string | null
         }
         Update: {
           id?: string
           session_id?: string
-          sender?: 'user' | 'avatar'
+          sender?: MessageSender
           message?: string
           timestamp?: string
           created_at?: string
+          external_id?: string | null
         }
+        Relationships: [
+          {
+            foreignKeyName: 'messages_session_id_fkey'
+            columns: ['session_id']
+            isOneToOne: false
+            referencedRelation: 'sessions'
+            referencedColumns: ['session_id']
+          }
+        ]
+      }
+      session_stats: {
+        Row: {
+          session_id: string
+          totalmessages: number
+          usermessages: number
+          avatarmessages: number
+          sessionduration: string | null
+          turn_count: number
+          avg_response_seconds: number | null
+          user_words: number
+          avatar_words: number
+          user_talk_share: number | null
+          user_words_per_message: number | null
+          avatar_words_per_message: number | null
+          longest_silence_seconds: number | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          session_id: string
+          totalmessages?: number
+          usermessages?: number
+          avatarmessages?: number
+          sessionduration?: string | null
+          turn_count?: number
+          avg_response_seconds?: number | null
+          user_words?: number
+          avatar_words?: number
+          user_talk_share?: number | null
+          user_words_per_message?: number | null
+          avatar_words_per_message?: number | null
+          longest_silence_seconds?: number | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          session_id?: string
+          totalmessages?: number
+          usermessages?: number
+          avatarmessages?: number
+          sessionduration?: string | null
+          turn_count?: number
+          avg_response_seconds?: number | null
+          user_words?: number
+          avatar_words?: number
+          user_talk_share?: number | null
+          user_words_per_message?: number | null
+          avatar_words_per_message?: number | null
+          longest_silence_seconds?: number | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'session_stats_session_id_fkey'
+            columns: ['session_id']
+            isOneToOne: true
+            referencedRelation: 'sessions'
+            referencedColumns: ['session_id']
+          }
+        ]
+      }
+      users: {
+        Row: {
+          id: string
+          email: string
+          role: UserRole
+          created_at: string
+          status: UserStatus
+          invited_at: string | null
+          invited_by: string | null
+          last_sign_in_at: string | null
+          deactivated_at: string | null
+        }
+        Insert: {
+          id: string
+          email: string
+          role?: UserRole
+          created_at?: string
+          status?: UserStatus
+          invited_at?: string | null
+          invited_by?: string | null
+          last_sign_in_at?: string | null
+          deactivated_at?: string | null
+        }
+        Update: {
+          id?: string
+          email?: string
+          role?: UserRole
+          created_at?: string
+          status?: UserStatus
+          invited_at?: string | null
+          invited_by?: string | null
+          last_sign_in_at?: string | null
+          deactivated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'users_invited_by_fkey'
+            columns: ['invited_by']
+            isOneToOne: false
+            referencedRelation: 'users'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      audit_log: {
+        Row: {
+          id: number
+          created_at: string
+          actor_id: string | null
+          actor_email: string | null
+          action: string
+          entity_type: 'session' | 'user'
+          entity_id: string
+          session_id: string | null
+          before: Json | null
+          after: Json | null
+        }
+        Insert: {
+          id?: number
+          created_at?: string
+          actor_id?: string | null
+          actor_email?: string | null
+          action: string
+          entity_type: 'session' | 'user'
+          entity_id: string
+          session_id?: string | null
+          before?: Json | null
+          after?: Json | null
+        }
+        Update: {
+          id?: number
+          created_at?: string
+          actor_id?: string | null
+          actor_email?: string | null
+          action?: string
+          entity_type?: 'session' | 'user'
+          entity_id?: string
+          session_id?: string | null
+          before?: Json | null
+          after?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'audit_log_actor_id_fkey'
+            columns: ['actor_id']
+            isOneToOne: false
+            referencedRelation: 'users'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      app_settings: {
+        Row: {
+          id: boolean
+          trash_retention_days: number
+          reporting_timezone: string
+          session_idle_timeout_minutes: number
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          id?: boolean
+          trash_retention_days?: number
+          reporting_timezone?: string
+          session_idle_timeout_minutes?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          id?: boolean
+          trash_retention_days?: number
+          reporting_timezone?: string
+          session_idle_timeout_minutes?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'app_settings_updated_by_fkey'
+            columns: ['updated_by']
+            isOneToOne: false
+            referencedRelation: 'users'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      topics: {
+        Row: {
+          id: string
+          label: string
+          description: string | null
+          keywords: string[]
+          color: string
+          position: number
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id: string
+          label: string
+          description?: string | null
+          keywords?: string[]
+          color?: string
+          position?: number
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          label?: string
+          description?: string | null
+          keywords?: string[]
+          color?: string
+          position?: number
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      session_topics: {
+        Row: {
+          session_id: string
+          topic_id: string
+          score: number
+          matched_keywords: string[]
+          classifier: string
+          created_at: string
+        }
+        Insert: {
+          session_id: string
+          topic_id: string
+          score: number
+          matched_keywords?: string[]
+          classifier: string
+          created_at?: string
+        }
+        Update: {
+          session_id?: string
+          topic_id?: string
+          score?: number
+          matched_keywords?: string[]
+          classifier?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'session_topics_session_id_fkey'
+            columns: ['session_id']
+            isOneToOne: false
+            referencedRelation: 'sessions'
+            referencedColumns: ['session_id']
+          },
+          {
+            foreignKeyName: 'session_topics_topic_id_fkey'
+            columns: ['topic_id']
+            isOneToOne: false
+            referencedRelation: 'topics'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      session_classifications: {
+        Row: {
+          session_id: string
+          classifier: string
+          classified_at: string
+        }
+        Insert: {
+          session_id: string
+          classifier: string
+          classified_at?: string
+        }
+        Update: {
+          session_id?: string
+          classifier?: string
+          classified_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'session_classifications_session_id_fkey'
+            columns: ['session_id']
+            isOneToOne: true
+            referencedRelation: 'sessions'
+            referencedColumns: ['session_id']
+          }
+        ]
+      }
+      session_tags: {
+        Row: {
+          session_id: string
+          tag: string
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          session_id: string
+          tag: string
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          session_id?: string
+          tag?: string
+          created_by?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'session_tags_session_id_fkey'
+            columns: ['session_id']
+            isOneToOne: false
+            referencedRelation: 'sessions'
+            referencedColumns: ['session_id']
+          },
+          {
+            foreignKeyName: 'session_tags_created_by_fkey'
+            columns: ['created_by']
+            isOneToOne: false
+            referencedRelation: 'users'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      session_notes: {
+        Row: {
+          id: string
+          session_id: string
+          parent_id: string | null
+          author_id: string | null
+          author_email: string | null
+          body: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          session_id: string
+          parent_id?: string | null
+          author_id?: string | null
+          author_email?: string | null
+          body: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          session_id?: string
+          parent_id?: string | null
+          author_id?: string | null
+          author_email?: string | null
+          body?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'session_notes_session_id_fkey'
+            columns: ['session_id']
+            isOneToOne: false
+            referencedRelation: 'sessions'
+            referencedColumns: ['session_id']
+          },
+          {
+            foreignKeyName: 'session_notes_parent_id_fkey'
+            columns: ['parent_id']
+            isOneToOne: false
+            referencedRelation: 'session_notes'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'session_notes_author_id_fkey'
+            columns: ['author_id']
+            isOneToOne: false
+            referencedRelation: 'users'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      message_annotations: {
+        Row: {
+          message_id: string
+          session_id: string
+          rating: AnswerRating
+          error_category: AnswerErrorCategory | null
+          suggested_answer: string | null
+          annotated_by: string | null
+          annotator_email: string | null
+          review_status: AnswerReviewStatus
+          resolved_by: string | null
+          resolved_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          message_id: string
+          // Wordt door de database uit messages overgenomen
+          session_id?: string
+          rating: AnswerRating
+          error_category?: AnswerErrorCategory | null
+          suggested_answer?: string | null
+          annotated_by?: string | null
+          annotator_email?: string | null
+          review_status?: AnswerReviewStatus
+          resolved_by?: string | null
+          resolved_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          message_id?: string
+          session_id?: string
+          rating?: AnswerRating
+          error_category?: AnswerErrorCategory | null
+          suggested_answer?: string | null
+          annotated_by?: string | null
+          annotator_email?: string | null
+          review_status?: AnswerReviewStatus
+          resolved_by?: string | null
+          resolved_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'message_annotations_message_id_fkey'
+            columns: ['message_id']
+            isOneToOne: true
+            referencedRelation: 'messages'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'message_annotations_session_id_fkey'
+            columns: ['session_id']
+            isOneToOne: false
+            referencedRelation: 'sessions'
+            referencedColumns: ['session_id']
+          }
+        ]
+      }
+      alert_rules: {
+        Row: {
+          id: string
+          name: string
+          kind: AlertRuleKind
+          // Vorm per soort: zie AlertRuleParams in alertRules.ts
+          params: Json
+          severity: AlertSeverity
+          channels: AlertChannelName[]
+          email_recipients: string[]
+          webhook_url: string | null
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          kind: AlertRuleKind
+          params?: Json
+          severity?: AlertSeverity
+          channels?: AlertChannelName[]
+          email_recipients?: string[]
+          webhook_url?: string | null
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          kind?: AlertRuleKind
+          params?: Json
+          severity?: AlertSeverity
+          channels?: AlertChannelName[]
+          email_recipients?: string[]
+          webhook_url?: string | null
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      alerts: {
+        Row: {
+          id: string
+          rule_id: string | null
+          kind: AlertRuleKind
+          severity: AlertSeverity
+          title: string
+          body: string
+          session_id: string | null
+          message_id: string | null
+          dedupe_key: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          rule_id?: string | null
+          kind: AlertRuleKind
+          severity: AlertSeverity
+          title: string
+          body?: string
+          session_id?: string | null
+          message_id?: string | null
+          dedupe_key: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          rule_id?: string | null
+          kind?: AlertRuleKind
+          severity?: AlertSeverity
+          title?: string
+          body?: string
+          session_id?: string | null
+          message_id?: string | null
+          dedupe_key?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'alerts_rule_id_fkey'
+            columns: ['rule_id']
+            isOneToOne: false
+            referencedRelation: 'alert_rules'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'alerts_session_id_fkey'
+            columns: ['session_id']
+            isOneToOne: false
+            referencedRelation: 'sessions'
+            referencedColumns: ['session_id']
+          },
+          {
+            foreignKeyName: 'alerts_message_id_fkey'
+            columns: ['message_id']
+            isOneToOne: false
+            referencedRelation: 'messages'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      alert_reads: {
+        Row: {
+          alert_id: string
+          user_id: string
+          read_at: string
+        }
+        Insert: {
+          alert_id: string
+          user_id?: string
+          read_at?: string
+        }
+        Update: {
+          alert_id?: string
+          user_id?: string
+          read_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'alert_reads_alert_id_fkey'
+            columns: ['alert_id']
+            isOneToOne: false
+            referencedRelation: 'alerts'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'alert_reads_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: false
+            referencedRelation: 'users'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      alert_deliveries: {
+        Row: {
+          id: string
+          alert_id: string
+          channel: AlertChannelName
+          status: AlertDeliveryStatus
+          error: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          alert_id: string
+          channel: AlertChannelName
+          status: AlertDeliveryStatus
+          error?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          alert_id?: string
+          channel?: AlertChannelName
+          status?: AlertDeliveryStatus
+          error?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'alert_deliveries_alert_id_fkey'
+            columns: ['alert_id']
+            isOneToOne: false
+            referencedRelation: 'alerts'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      alert_events: {
+        Row: {
+          id: number
+          source: 'session' | 'message'
+          record_id: string
+          created_at: string
+        }
+        Insert: {
+          id?: number
+          source: 'session' | 'message'
+          record_id: string
+          created_at?: string
+        }
+        Update: {
+          id?: number
+          source?: 'session' | 'message'
+          record_id?: string
+          created_at?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      current_user_role: {
+        Args: Record<PropertyKey, never>
+        Returns: UserRole | null
+      }
+      get_dashboard_stats: {
+        Args: {
+          // Kalenderdagen 'yyyy-MM-dd' in de rapportagetijdzone, beide inclusief
+          start_date: string
+          end_date: string
+          bucket?: 'hour' | 'day' | 'week'
+        }
+        Returns: {
+          dashboard_data: DashboardData
+        }[]
+      }
+      dashboard_period_stats: {
+        Args: {
+          // Kalenderdagen 'yyyy-MM-dd' in de rapportagetijdzone, beide inclusief
+          start_date: string
+          end_date: string
+          bucket?: 'hour' | 'day' | 'week'
+        }
+        Returns: DashboardPeriodData
+      }
+      reporting_timezone: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      search_messages: {
+        Args: {
+          search_query: string
+          max_results?: number
+        }
+        Returns: {
+          message_id: string
+          session_id: string
+          sender: MessageSender
+          timestamp: string
+          session_start_time: string
+          snippet: string
+          rank: number
+        }[]
+      }
+      delete_trashed_sessions: {
+        Args: {
+          session_ids?: string[] | null
+        }
+        Returns: number
+      }
+      write_audit_log: {
+        Args: {
+          p_actor_id: string | null
+          p_action: string
+          p_entity_type: 'session' | 'user'
+          p_entity_id: string
+          p_session_id: string | null
+          p_before: Json | null
+          p_after: Json | null
+        }
+        Returns: undefined
+      }
+      pending_topic_classifications: {
+        Args: {
+          max_sessions?: number
+        }
+        Returns: string[]
+      }
+      flagged_answers: {
+        Args: {
+          p_status?: AnswerReviewStatus | null
+          p_category?: AnswerErrorCategory | null
+          max_rows?: number
+        }
+        Returns: {
+          message_id: string
+          session_id: string
+          // Vragen van de gebruiker sinds het vorige antwoord; null als er geen waren
+          question: string | null
+          answer: string
+          answered_at: string
+          error_category: AnswerErrorCategory | null
+          suggested_answer: string | null
+          annotator_email: string | null
+          review_status: AnswerReviewStatus
+          resolved_at: string | null
+          updated_at: string
+        }[]
+      }
+      live_sessions: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          session_id: string
+          status: SessionStatus
+          heygen_status: string | null
+          start_time: string
+          message_count: number
+          last_message: string | null
+          last_message_sender: MessageSender | null
+          // Laatste bericht, of de start van de sessie als er nog geen berichten zijn
+          last_activity_at: string
+        }[]
+      }
+      // Computed column op sessions, te gebruiken als filter (`tag_list=cs.{...}`)
+      tag_list: {
+        Args: {
+          '': Database['public']['Tables']['sessions']['Row']
+        }
+        Returns: string[]
+      }
+      session_tag_counts: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          tag: string
+          session_count: number
+        }[]
+      }
+      unread_alert_count: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      mark_alerts_read: {
+        Args: {
+          alert_ids?: string[] | null
+        }
+        Returns: undefined
+      }
+      pending_alert_deliveries: {
+        Args: {
+          max_rows?: number
+        }
+        Returns: {
+          alert_id: string
+          channel: AlertChannelName
+        }[]
+      }
+      store_session_topics: {
+        Args: {
+          p_session_id: string
+          p_classifier: string
+          p_topics: Json
+        }
+        Returns: undefined
       }
     }
     Enums: {
-      session_status: 'active' | 'connecting' | 'connected' | 'completed' | 'error'
-      message_sender: 'user' | 'avatar'
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
     }
   }
 }
@@ -96,4 +987,30 @@ export interface HeyGenSession {
 
 export interface HeyGenResponse {
   sessions: HeyGenSession[]
+}
+
+// created_at en ended_at zijn seconden sinds epoch
+export interface HeyGenSessionStatus {
+  session_id: string
+  status: string
+  created_at?: number
+  ended_at?: number | null
+}
+
+export interface HeyGenMessage {
+  id: string
+  role: 'user' | 'avatar'
+  content: string
+  timestamp: number
+}
+
+export interface HeyGenChatResponse {
+  task_id?: string
+  duration_ms?: number
+}
+
+export interface HeyGenEnvelope<T> {
+  code?: number
+  message?: string | null
+  data?: T
 }
\ No newline at end of file
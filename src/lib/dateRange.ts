@@ -0,0 +1,103 @@
+import { addDays, format, parse } from 'date-fns';
+import { nl } from 'date-fns/locale';
+import { formatDateParam, parseDateParam } from './urlState';
+
+// Zelfde default als app_settings.reporting_timezone, voor als de instellingen nog niet geladen zijn
+export const DEFAULT_REPORTING_TIMEZONE = 'Europe/Amsterdam';
+
+export type Bucket = 'hour' | 'day' | 'week';
+export type DatePreset = 'yesterday' | '7days' | '14days' | '30days';
+
+/**
+ * Periode in hele kalenderdagen ('yyyy-MM-dd'), beide grenzen inclusief.
+ * Dagen zijn tijdzoneloos; pas bij het filteren worden ze in de rapportagetijdzone omgerekend.
+ */
+export interface DayRange {
+  start: string;
+  end: string;
+}
+
+const PRESET_DAYS: Record<DatePreset, { offset: number; length: number }> = {
+  yesterday: { offset: 1, length: 1 },
+  '7days': { offset: 0, length: 7 },
+  '14days': { offset: 0, length: 14 },
+  '30days': { offset: 0, length: 30 },
+};
+
+// Kalenderdag als Date in de tijdzone van de browser, voor date pickers
+export function dayToDate(day: string) {
+  return parse(day, 'yyyy-MM-dd', new Date());
+}
+
+export function shiftDay(day: string, amount: number) {
+  return formatDateParam(addDays(dayToDate(day), amount));
+}
+
+// Vandaag in de gegeven tijdzone, los van de tijdzone van de browser
+export function todayIn(timeZone: string) {
+  // en-CA formatteert als yyyy-MM-dd
+  return new Intl.DateTimeFormat('en-CA', { timeZone }).format(new Date());
+}
+
+export function getPresetRange(preset: DatePreset, timeZone: string): DayRange {
+  const { offset, length } = PRESET_DAYS[preset];
+  const end = shiftDay(todayIn(timeZone), -offset);
+  return { start: shiftDay(end, -(length - 1)), end };
+}
+
+// null als een van de dagen ontbreekt of ongeldig is, of als het einde voor het begin ligt
+export function getCustomRange(start: string | null, end: string | null): DayRange | null {
+  const startDate = parseDateParam(start);
+  const endDate = parseDateParam(end);
+  if (!startDate || !endDate || endDate < startDate) return null;
+  return { start: formatDateParam(startDate), end: formatDateParam(endDate) };
+}
+
+// Verschil tussen lokale tijd in `timeZone` en UTC op dat moment, in milliseconden
+function getTimeZoneOffset(instant: Date, timeZone: string) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    })
+      .formatToParts(instant)
+      .map(part => [part.type, Number(part.value)])
+  );
+  const localAsUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return localAsUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+// Middernacht van `day` in `timeZone` als tijdstip; tweede ronde corrigeert voor een zomertijdwissel
+export function getDayStart(day: string, timeZone: string) {
+  const [year, month, date] = day.split('-').map(Number);
+  const midnightUtc = Date.UTC(year, month - 1, date);
+  const guess = midnightUtc - getTimeZoneOffset(new Date(midnightUtc), timeZone);
+  return new Date(midnightUtc - getTimeZoneOffset(new Date(guess), timeZone));
+}
+
+// Grenzen voor een query op timestamptz: `from` inclusief, `until` exclusief
+export function getRangeBounds(range: DayRange, timeZone: string) {
+  return {
+    from: getDayStart(range.start, timeZone).toISOString(),
+    until: getDayStart(shiftDay(range.end, 1), timeZone).toISOString(),
+  };
+}
+
+// bucket_start uit get_dashboard_stats is lokale tijd zonder offset ('yyyy-MM-ddTHH:mm')
+export function formatBucketLabel(bucketStart: string, bucket: Bucket) {
+  const date = parse(bucketStart, "yyyy-MM-dd'T'HH:mm", new Date());
+  switch (bucket) {
+    case 'hour':
+      return format(date, 'd MMM HH:00', { locale: nl });
+    case 'day':
+      return format(date, 'EEE d MMM', { locale: nl });
+    case 'week':
+      return `Week ${format(date, 'I')} (${format(date, 'd MMM', { locale: nl })})`;
+  }
+}
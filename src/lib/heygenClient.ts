@@ -0,0 +1,160 @@
+import type {
+  HeyGenChatResponse,
+  HeyGenEnvelope,
+  HeyGenMessage,
+  HeyGenResponse,
+  HeyGenSession,
+  HeyGenSessionStatus,
+} from './database.types.ts';
+
+export const DEFAULT_HEYGEN_API_BASE = 'https://api.heygen.com/v1';
+
+export class HeyGenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HeyGenError';
+  }
+}
+
+// Gegooid wanneer de client zonder (geldige) API key wordt aangemaakt
+export class HeyGenConfigError extends HeyGenError {
+  constructor(message = 'HeyGen API key not configured') {
+    super(message);
+    this.name = 'HeyGenConfigError';
+  }
+}
+
+// De API gaf een non-2xx response of een foutcode in de envelope terug
+export class HeyGenApiError extends HeyGenError {
+  readonly status: number;
+  readonly endpoint: string;
+  readonly code: number | null;
+
+  constructor(endpoint: string, status: number, message: string, code: number | null = null) {
+    super(message);
+    this.name = 'HeyGenApiError';
+    this.endpoint = endpoint;
+    this.status = status;
+    this.code = code;
+  }
+}
+
+// De API was niet bereikbaar of gaf geen geldige JSON terug
+export class HeyGenNetworkError extends HeyGenError {
+  readonly endpoint: string;
+  readonly cause: unknown;
+
+  constructor(endpoint: string, cause: unknown) {
+    super(`HeyGen request to ${endpoint} failed`);
+    this.name = 'HeyGenNetworkError';
+    this.endpoint = endpoint;
+    this.cause = cause;
+  }
+}
+
+export interface HeyGenClientOptions {
+  apiKey: string;
+  baseUrl?: string;
+  fetch?: typeof fetch;
+}
+
+// HeyGen retourneert succes als code 100; andere codes zijn fouten
+const HEYGEN_SUCCESS_CODE = 100;
+
+/**
+ * Dunne, getypeerde wrapper om de HeyGen streaming API.
+ *
+ * Bevat geen afhankelijkheden op Vite of Supabase, zodat dezelfde client in de
+ * browser, in edge functions en tegen de lokale mock server gebruikt kan worden.
+ * Imports gebruiken daarom expliciete `.ts` extensies, zodat Deno ze kan laden.
+ */
+export class HeyGenClient {
+  private readonly apiKey: string;
+  private readonly baseUrl: string;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor({ apiKey, baseUrl = DEFAULT_HEYGEN_API_BASE, fetch: fetchImpl }: HeyGenClientOptions) {
+    if (!apiKey) {
+      throw new HeyGenConfigError();
+    }
+
+    this.apiKey = apiKey;
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.fetchImpl = fetchImpl ?? globalThis.fetch.bind(globalThis);
+  }
+
+  async listSessions(): Promise<HeyGenSession[]> {
+    const data = await this.request<HeyGenResponse>('streaming.list', { method: 'GET' });
+    return data?.sessions ?? [];
+  }
+
+  async getSession(sessionId: string): Promise<HeyGenSessionStatus> {
+    return this.request<HeyGenSessionStatus>('streaming.get', {
+      method: 'POST',
+      body: { session_id: sessionId },
+    });
+  }
+
+  async stopSession(sessionId: string): Promise<void> {
+    await this.request<unknown>('streaming.stop', {
+      method: 'POST',
+      body: { session_id: sessionId },
+    });
+  }
+
+  async sendMessage(sessionId: string, message: string): Promise<HeyGenChatResponse> {
+    return this.request<HeyGenChatResponse>('streaming.chat', {
+      method: 'POST',
+      body: { session_id: sessionId, message },
+    });
+  }
+
+  // `since` (epoch ms, inclusief) beperkt het transcript tot berichten vanaf de laatste sync
+  async getMessages(sessionId: string, { since }: { since?: number } = {}): Promise<HeyGenMessage[]> {
+    const data = await this.request<{ messages: HeyGenMessage[] }>('streaming.messages', {
+      method: 'POST',
+      body: since === undefined ? { session_id: sessionId } : { session_id: sessionId, since },
+    });
+    return data?.messages ?? [];
+  }
+
+  private async request<T>(
+    endpoint: string,
+    { method, body }: { method: 'GET' | 'POST'; body?: Record<string, unknown> }
+  ): Promise<T> {
+    let response: Response;
+    try {
+      response = await this.fetchImpl(`${this.baseUrl}/${endpoint}`, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${this.apiKey}`,
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+    } catch (error) {
+      throw new HeyGenNetworkError(endpoint, error);
+    }
+
+    const payload = await response.json().catch(() => null) as HeyGenEnvelope<T> | null;
+
+    if (!response.ok) {
+      throw new HeyGenApiError(
+        endpoint,
+        response.status,
+        payload?.message || `HeyGen API returned ${response.status}`,
+        payload?.code ?? null
+      );
+    }
+
+    if (!payload) {
+      throw new HeyGenNetworkError(endpoint, new Error('Invalid JSON response'));
+    }
+
+    if (payload.code !== undefined && payload.code !== HEYGEN_SUCCESS_CODE) {
+      throw new HeyGenApiError(endpoint, response.status, payload.message || 'HeyGen API error', payload.code);
+    }
+
+    return payload.data as T;
+  }
+}
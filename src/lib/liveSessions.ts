@@ -0,0 +1,37 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+
+export type LiveSession = Database['public']['Functions']['live_sessions']['Returns'][number];
+type Message = Database['public']['Tables']['messages']['Row'];
+
+// Zonder activiteit na deze tijd wordt een live sessie als inactief gemarkeerd
+export const IDLE_THRESHOLD_MINUTES = 5;
+
+export async function fetchLiveSessions() {
+  const { data, error } = await supabase.rpc('live_sessions');
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+// Verwerkt een nieuw bericht uit realtime, zodat niet voor elk bericht het hele bord opnieuw geladen wordt
+export function applyLiveMessage(sessions: LiveSession[], message: Message) {
+  return sessions.map(session => {
+    if (session.session_id !== message.session_id) return session;
+
+    const isNewest = new Date(message.timestamp) >= new Date(session.last_activity_at);
+    return {
+      ...session,
+      message_count: session.message_count + 1,
+      ...(isNewest && {
+        last_message: message.message,
+        last_message_sender: message.sender,
+        last_activity_at: message.timestamp,
+      }),
+    };
+  });
+}
+
+export function isIdle(session: LiveSession, now: number) {
+  return now - new Date(session.last_activity_at).getTime() > IDLE_THRESHOLD_MINUTES * 60000;
+}
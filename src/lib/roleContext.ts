@@ -0,0 +1,12 @@
+import { createContext, useContext } from 'react';
+import { can, type Permission, type Role } from './roles';
+
+export const RoleContext = createContext<Role | null>(null);
+
+export function useRole() {
+  return useContext(RoleContext);
+}
+
+export function usePermission(permission: Permission) {
+  return can(useRole(), permission);
+}
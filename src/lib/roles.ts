@@ -0,0 +1,27 @@
+export type Role = 'admin' | 'analyst' | 'viewer';
+
+export const ROLES: { value: Role; label: string }[] = [
+  { value: 'admin', label: 'Beheerder' },
+  { value: 'analyst', label: 'Analist' },
+  { value: 'viewer', label: 'Lezer' },
+];
+
+// Moet in sync blijven met de RLS policies en `enforce_session_permissions()` in de database
+export const PERMISSIONS = {
+  annotateSessions: ['admin', 'analyst'],
+  moderateNotes: ['admin'],
+  trashSessions: ['admin'],
+  deleteSessions: ['admin'],
+  stopSessions: ['admin'],
+  syncSessions: ['admin', 'analyst', 'viewer'],
+  reconcileSessions: ['admin'],
+  manageUsers: ['admin'],
+  manageSettings: ['admin'],
+  viewAuditLog: ['admin', 'analyst'],
+} as const satisfies Record<string, readonly Role[]>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export function can(role: Role | null, permission: Permission) {
+  return role !== null && (PERMISSIONS[permission] as readonly Role[]).includes(role);
+}
@@ -0,0 +1,111 @@
+import { supabase } from './supabase';
+import { stopHeyGenSession } from './heygen';
+import { chunk } from './chunk';
+
+// Bulk acties op de sessielijst. Elke batch is één UPDATE met `in`; de batches houden de URL kort genoeg
+// voor PostgREST. De audit log schrijft per sessie een regel via audit_session_changes().
+
+const BATCH_SIZE = 100;
+
+export type BulkField = 'is_archived' | 'is_relevant' | 'deleted_at';
+export type BulkValue = boolean | string | null;
+export type BulkProgress = (done: number, total: number) => void;
+
+// Waarden van vóór de bulk actie, per sessie, zodat de actie ongedaan kan worden gemaakt
+export interface BulkUndo {
+  field: BulkField;
+  previous: { sessionId: string; value: BulkValue }[];
+}
+
+async function fetchCurrentValues(sessionIds: string[], field: BulkField) {
+  const previous: BulkUndo['previous'] = [];
+
+  for (const ids of chunk(sessionIds, BATCH_SIZE)) {
+    const { data, error } = await supabase
+      .from('sessions')
+      .select('session_id, is_archived, is_relevant, deleted_at')
+      .in('session_id', ids);
+
+    if (error) throw error;
+    previous.push(...data.map(row => ({ sessionId: row.session_id, value: row[field] })));
+  }
+
+  return previous;
+}
+
+async function updateInBatches(sessionIds: string[], field: BulkField, value: BulkValue, onBatch: (count: number) => void) {
+  for (const ids of chunk(sessionIds, BATCH_SIZE)) {
+    const { error } = await supabase
+      .from('sessions')
+      .update({ [field]: value })
+      .in('session_id', ids);
+
+    if (error) throw error;
+    onBatch(ids.length);
+  }
+}
+
+export async function bulkUpdateSessions(
+  sessionIds: string[],
+  field: BulkField,
+  value: BulkValue,
+  onProgress: BulkProgress
+): Promise<BulkUndo> {
+  // Al in de prullenbak telt als al gezet, ook met een ander tijdstip
+  const alreadySet = (current: BulkValue) =>
+    field === 'deleted_at' ? (current === null) === (value === null) : current === value;
+
+  // Sessies die de waarde al hebben blijven buiten de update, en dus ook buiten de undo
+  const changed = (await fetchCurrentValues(sessionIds, field)).filter(p => !alreadySet(p.value));
+
+  let done = 0;
+  onProgress(0, changed.length);
+  await updateInBatches(changed.map(p => p.sessionId), field, value, count => onProgress(done += count, changed.length));
+
+  return { field, previous: changed };
+}
+
+// Zet elke sessie terug op zijn eigen oude waarde; sessies met dezelfde waarde gaan samen in één batch
+export async function undoBulkUpdate({ field, previous }: BulkUndo, onProgress: BulkProgress) {
+  const groups = new Map<BulkValue, string[]>();
+  for (const { sessionId, value } of previous) {
+    groups.set(value, [...(groups.get(value) ?? []), sessionId]);
+  }
+
+  let done = 0;
+  onProgress(0, previous.length);
+  for (const [value, ids] of groups) {
+    await updateInBatches(ids, field, value, count => onProgress(done += count, previous.length));
+  }
+}
+
+// Stoppen loopt per sessie via de edge function; een mislukte sessie houdt de rest niet tegen
+export async function bulkStopSessions(sessionIds: string[], onProgress: BulkProgress) {
+  const failed: string[] = [];
+
+  onProgress(0, sessionIds.length);
+  for (const [index, sessionId] of sessionIds.entries()) {
+    try {
+      await stopHeyGenSession(sessionId);
+    } catch (err) {
+      console.error('Error stopping session:', sessionId, err);
+      failed.push(sessionId);
+    }
+    onProgress(index + 1, sessionIds.length);
+  }
+
+  return failed;
+}
+
+export async function bulkDeleteSessions(sessionIds: string[], onProgress: BulkProgress) {
+  let done = 0;
+
+  onProgress(0, sessionIds.length);
+  for (const ids of chunk(sessionIds, BATCH_SIZE)) {
+    const { error } = await supabase.rpc('delete_trashed_sessions', { session_ids: ids });
+
+    if (error) throw error;
+    done += ids.length;
+    onProgress(done, sessionIds.length);
+  }
+}
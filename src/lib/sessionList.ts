@@ -0,0 +1,187 @@
+import { supabase } from './supabase';
+import { chunk } from './chunk';
+import type { Database, SessionStatus } from './database.types';
+
+// Data van de sessielijst: pagina's met keyset paginering op (start_time, session_id), en
+// realtime wijzigingen die als patch op de geladen pagina's worden toegepast.
+
+export const SESSION_PAGE_SIZE = 50;
+
+// PostgREST levert standaard maximaal 1000 rijen per request
+const SELECTION_PAGE_SIZE = 1000;
+const PATCH_BATCH_SIZE = 100;
+
+export type SessionListView = 'active' | 'archived' | 'trash';
+
+export interface SessionListFilters {
+  status: SessionStatus | 'all';
+  view: SessionListView;
+  // Starttijd vanaf `from` (inclusief) tot `until` (exclusief)
+  from: string;
+  until: string;
+  // Meerdere tags betekent: de sessie heeft ze allemaal
+  tags: string[];
+}
+
+type SessionRow = Database['public']['Tables']['sessions']['Row'];
+
+export type SessionListItem = SessionRow & {
+  session_topics: { topic_id: string }[];
+  session_tags: { tag: string }[];
+};
+
+// Genoeg voor bulk acties op sessies die (nog) niet in de lijst geladen zijn
+export type SessionSummary = Pick<SessionRow, 'session_id' | 'status' | 'heygen_status' | 'is_relevant'>;
+
+// Positie in de lijst: nieuwste eerst, session_id als tiebreaker voor gelijke starttijden
+export type SessionCursor = Pick<SessionRow, 'start_time' | 'session_id'>;
+
+export interface SessionPage {
+  sessions: SessionListItem[];
+  hasMore: boolean;
+  // Alleen bij de eerste pagina
+  totalCount: number | null;
+}
+
+function filteredSessions<Columns extends string>(
+  columns: Columns,
+  filters: SessionListFilters,
+  { count }: { count?: 'exact' } = {}
+) {
+  let query = supabase
+    .from('sessions')
+    .select(columns, { count })
+    .gte('start_time', filters.from)
+    .lt('start_time', filters.until)
+    .order('start_time', { ascending: false })
+    .order('session_id', { ascending: false });
+
+  if (filters.status !== 'all') {
+    query = query.eq('status', filters.status);
+  }
+
+  // `tag_list` is een computed column (zie tag_list(sessions)), dus de tagfilter draait in de database
+  if (filters.tags.length > 0) {
+    query = query.contains('tag_list', filters.tags);
+  }
+
+  switch (filters.view) {
+    case 'active':
+      query = query.eq('is_archived', false).is('deleted_at', null);
+      break;
+    case 'archived':
+      query = query.eq('is_archived', true).is('deleted_at', null);
+      break;
+    case 'trash':
+      query = query.not('deleted_at', 'is', null);
+      break;
+  }
+
+  return query;
+}
+
+// Volgende pagina na `cursor`, of de eerste pagina zonder cursor
+export async function fetchSessionPage(filters: SessionListFilters, cursor: SessionCursor | null): Promise<SessionPage> {
+  let query = filteredSessions(
+    '*, session_topics(topic_id), session_tags(tag)',
+    filters,
+    { count: cursor ? undefined : 'exact' }
+  );
+
+  if (cursor) {
+    // Waarden tussen aanhalingstekens, want timestamps bevatten punten en dubbele punten
+    query = query.or(
+      `start_time.lt."${cursor.start_time}",and(start_time.eq."${cursor.start_time}",session_id.lt."${cursor.session_id}")`
+    );
+  }
+
+  // Eén rij extra om te weten of er nog een pagina volgt
+  const { data, count, error } = await query.limit(SESSION_PAGE_SIZE + 1);
+
+  if (error) throw error;
+  return {
+    sessions: data.slice(0, SESSION_PAGE_SIZE),
+    hasMore: data.length > SESSION_PAGE_SIZE,
+    totalCount: count,
+  };
+}
+
+// Alle sessies binnen de filters, ook die nog niet geladen zijn, voor "alles selecteren"
+export async function fetchMatchingSessions(filters: SessionListFilters) {
+  const sessions: SessionSummary[] = [];
+
+  for (let offset = 0; ; offset += SELECTION_PAGE_SIZE) {
+    const { data, error } = await filteredSessions('session_id, status, heygen_status, is_relevant', filters)
+      .range(offset, offset + SELECTION_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    sessions.push(...data);
+    if (data.length < SELECTION_PAGE_SIZE) return sessions;
+  }
+}
+
+// Actuele rijen van gewijzigde sessies; verwijderde sessies ontbreken in het resultaat
+export async function fetchSessionsById(sessionIds: string[]) {
+  const sessions: SessionListItem[] = [];
+
+  for (const ids of chunk(sessionIds, PATCH_BATCH_SIZE)) {
+    const { data, error } = await supabase
+      .from('sessions')
+      .select('*, session_topics(topic_id), session_tags(tag)')
+      .in('session_id', ids);
+
+    if (error) throw error;
+    sessions.push(...data);
+  }
+
+  return sessions;
+}
+
+// Zelfde volgorde als de query; negatief als `a` boven `b` hoort
+export function compareSessions(a: SessionCursor, b: SessionCursor) {
+  const byStart = new Date(b.start_time).getTime() - new Date(a.start_time).getTime();
+  if (byStart !== 0) return byStart;
+  return a.session_id < b.session_id ? 1 : a.session_id > b.session_id ? -1 : 0;
+}
+
+// Client-side tegenhanger van filteredSessions(), voor sessies die via realtime binnenkomen
+export function matchesSessionFilters(session: SessionListItem, filters: SessionListFilters) {
+  const start = new Date(session.start_time).getTime();
+  if (start < new Date(filters.from).getTime() || start >= new Date(filters.until).getTime()) return false;
+  if (filters.status !== 'all' && session.status !== filters.status) return false;
+
+  const tags = new Set(session.session_tags.map(({ tag }) => tag));
+  if (!filters.tags.every(tag => tags.has(tag))) return false;
+
+  switch (filters.view) {
+    case 'active':
+      return !session.is_archived && session.deleted_at === null;
+    case 'archived':
+      return session.is_archived && session.deleted_at === null;
+    case 'trash':
+      return session.deleted_at !== null;
+  }
+}
+
+/**
+ * Verwerkt gewijzigde sessies in de geladen lijst: bijgewerkte rijen vervangen de oude,
+ * sessies die niet meer aan de filters voldoen of verwijderd zijn vallen eruit, en nieuwe
+ * sessies worden op hun plek ingevoegd. Sessies voorbij de laatst geladen rij blijven weg;
+ * die komen mee met de volgende pagina.
+ */
+export function applySessionPatches(
+  sessions: SessionListItem[],
+  changedIds: string[],
+  rows: SessionListItem[],
+  filters: SessionListFilters,
+  hasMore: boolean
+) {
+  const changed = new Set(changedIds);
+  const last = sessions[sessions.length - 1];
+  const isLoadedRange = (session: SessionListItem) => !hasMore || !last || compareSessions(session, last) <= 0;
+
+  return [
+    ...sessions.filter(session => !changed.has(session.session_id)),
+    ...rows.filter(row => changed.has(row.session_id) && matchesSessionFilters(row, filters) && isLoadedRange(row)),
+  ].sort(compareSessions);
+}
@@ -0,0 +1,91 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+
+// Handmatige tags en interne notities van reviewers op een sessie.
+// created_by en author_id vult de database met auth.uid(); de policies staan niets anders toe.
+
+export type SessionTag = Database['public']['Tables']['session_tags']['Row'];
+export type SessionNote = Database['public']['Tables']['session_notes']['Row'];
+
+export interface TagCount {
+  tag: string;
+  session_count: number;
+}
+
+// Zelfde normalisatie als de CHECK constraint op session_tags.tag
+export function normalizeTag(tag: string) {
+  return tag.trim().toLowerCase().slice(0, 40);
+}
+
+export async function fetchTagCounts(): Promise<TagCount[]> {
+  const { data, error } = await supabase.rpc('session_tag_counts');
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function fetchSessionTags(sessionId: string) {
+  const { data, error } = await supabase
+    .from('session_tags')
+    .select('*')
+    .eq('session_id', sessionId)
+    .order('created_at');
+
+  if (error) throw error;
+  return data;
+}
+
+export async function addSessionTag(sessionId: string, tag: string) {
+  const { error } = await supabase
+    .from('session_tags')
+    .upsert({ session_id: sessionId, tag: normalizeTag(tag) }, { ignoreDuplicates: true });
+
+  if (error) throw error;
+}
+
+export async function removeSessionTag(sessionId: string, tag: string) {
+  const { error } = await supabase
+    .from('session_tags')
+    .delete()
+    .eq('session_id', sessionId)
+    .eq('tag', tag);
+
+  if (error) throw error;
+}
+
+export async function fetchSessionNotes(sessionId: string) {
+  const { data, error } = await supabase
+    .from('session_notes')
+    .select('*')
+    .eq('session_id', sessionId)
+    .order('created_at');
+
+  if (error) throw error;
+  return data;
+}
+
+export async function addSessionNote(sessionId: string, body: string, parentId: string | null = null) {
+  const { error } = await supabase
+    .from('session_notes')
+    .insert({ session_id: sessionId, body: body.trim(), parent_id: parentId });
+
+  if (error) throw error;
+}
+
+export async function updateSessionNote(noteId: string, body: string) {
+  const { error } = await supabase
+    .from('session_notes')
+    .update({ body: body.trim() })
+    .eq('id', noteId);
+
+  if (error) throw error;
+}
+
+export async function deleteSessionNote(noteId: string) {
+  const { error } = await supabase
+    .from('session_notes')
+    .delete()
+    .eq('id', noteId);
+
+  if (error) throw error;
+}
@@ -0,0 +1,36 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+
+export type AppSettings = Database['public']['Tables']['app_settings']['Row'];
+export type AppSettingsUpdate = Pick<
+  Database['public']['Tables']['app_settings']['Update'],
+  'trash_retention_days' | 'reporting_timezone' | 'session_idle_timeout_minutes'
+>;
+
+// Zelfde default als de kolom in de database, voor als de instellingen nog niet geladen zijn
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const DEFAULT_SESSION_IDLE_TIMEOUT_MINUTES = 30;
+
+// app_settings heeft precies één rij (id = true)
+export async function fetchAppSettings() {
+  const { data, error } = await supabase
+    .from('app_settings')
+    .select('*')
+    .eq('id', true)
+    .single();
+
+  if (error) throw error;
+  return data as AppSettings;
+}
+
+export async function updateAppSettings(updates: AppSettingsUpdate) {
+  const { data, error } = await supabase
+    .from('app_settings')
+    .update(updates)
+    .eq('id', true)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as AppSettings;
+}
@@ -0,0 +1,118 @@
+import type { MessageSender } from './database.types.ts';
+
+/**
+ * Topic classificatie van transcripten.
+ *
+ * Zonder afhankelijkheden op Vite of Supabase, zodat dezelfde code in de edge function
+ * `classify-topics` draait en in de browser voor de preview bij de taxonomie-instellingen.
+ * Een andere classifier (bijvoorbeeld een taalmodel) implementeert `TopicClassifier` en
+ * wordt met `registerTopicClassifier` onder een eigen naam beschikbaar gemaakt.
+ */
+
+export interface TopicDefinition {
+  id: string;
+  label: string;
+  keywords: string[];
+}
+
+export interface ClassifierMessage {
+  sender: MessageSender;
+  message: string;
+}
+
+export interface TopicMatch {
+  topic_id: string;
+  score: number;
+  matched_keywords: string[];
+}
+
+export interface TopicClassifier {
+  readonly name: string;
+  // Matches gesorteerd op score, hoogste eerst; een lege lijst als niets matcht
+  classify(messages: ClassifierMessage[], topics: TopicDefinition[]): Promise<TopicMatch[]>;
+}
+
+export interface KeywordClassifierOptions {
+  // Gewicht van een treffer per afzender; de vraag van de promovendus zegt meer dan het antwoord
+  senderWeights?: Record<MessageSender, number>;
+  minScore?: number;
+  maxTopics?: number;
+}
+
+// Kleine letters en zonder accenten, zodat 'Carrière' en 'carriere' hetzelfde matchen
+export function normalizeText(text: string) {
+  return text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+/**
+ * Zet een keyword om in een regex op woordgrenzen.
+ * Een `*` aan het eind matcht elke woordvorm ('subsidie*' → 'subsidies'), spaties matchen
+ * elke witruimte, zodat ook woordgroepen als 'peer review' mogelijk zijn.
+ */
+export function compileKeyword(keyword: string) {
+  const normalized = normalizeText(keyword.trim());
+  const isPrefix = normalized.endsWith('*');
+  const body = (isPrefix ? normalized.slice(0, -1) : normalized)
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/\s+/g, '\\s+');
+
+  return new RegExp(`(?<![\\p{L}\\p{N}])${body}${isPrefix ? '[\\p{L}\\p{N}]*' : ''}(?![\\p{L}\\p{N}])`, 'gu');
+}
+
+export class KeywordClassifier implements TopicClassifier {
+  readonly name = 'keywords';
+  private readonly senderWeights: Record<MessageSender, number>;
+  private readonly minScore: number;
+  private readonly maxTopics: number;
+
+  constructor({ senderWeights = { user: 1, avatar: 0.5 }, minScore = 1, maxTopics = 3 }: KeywordClassifierOptions = {}) {
+    this.senderWeights = senderWeights;
+    this.minScore = minScore;
+    this.maxTopics = maxTopics;
+  }
+
+  async classify(messages: ClassifierMessage[], topics: TopicDefinition[]): Promise<TopicMatch[]> {
+    const normalizedMessages = messages.map(m => ({ weight: this.senderWeights[m.sender], text: normalizeText(m.message) }));
+    const matches: TopicMatch[] = [];
+
+    for (const topic of topics) {
+      let score = 0;
+      const matchedKeywords = new Set<string>();
+
+      for (const keyword of topic.keywords) {
+        if (!keyword.trim()) continue;
+        const pattern = compileKeyword(keyword);
+
+        for (const { weight, text } of normalizedMessages) {
+          const hits = text.match(pattern)?.length ?? 0;
+          if (hits > 0) {
+            score += hits * weight;
+            matchedKeywords.add(keyword);
+          }
+        }
+      }
+
+      if (score >= this.minScore) {
+        matches.push({ topic_id: topic.id, score, matched_keywords: [...matchedKeywords] });
+      }
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, this.maxTopics);
+  }
+}
+
+const classifierFactories = new Map<string, () => TopicClassifier>([
+  ['keywords', () => new KeywordClassifier()],
+]);
+
+export function registerTopicClassifier(name: string, factory: () => TopicClassifier) {
+  classifierFactories.set(name, factory);
+}
+
+export function createTopicClassifier(name = 'keywords') {
+  const factory = classifierFactories.get(name);
+  if (!factory) {
+    throw new Error(`Unknown topic classifier: ${name}`);
+  }
+  return factory();
+}
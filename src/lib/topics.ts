@@ -0,0 +1,66 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+
+export type Topic = Database['public']['Tables']['topics']['Row'];
+export type TopicInsert = Database['public']['Tables']['topics']['Insert'];
+export type SessionTopic = Database['public']['Tables']['session_topics']['Row'];
+
+// Alleen wat een chip nodig heeft
+export type TopicChip = Pick<Topic, 'id' | 'label' | 'color'>;
+
+export async function fetchTopics({ includeInactive = false } = {}) {
+  let query = supabase
+    .from('topics')
+    .select('*')
+    .order('position')
+    .order('label');
+
+  if (!includeInactive) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data;
+}
+
+// Insert of update op id; elke wijziging zet de herclassificatie van alle sessies in gang
+export async function saveTopic(topic: TopicInsert) {
+  const { data, error } = await supabase
+    .from('topics')
+    .upsert(topic)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteTopic(topicId: string) {
+  const { error } = await supabase
+    .from('topics')
+    .delete()
+    .eq('id', topicId);
+
+  if (error) throw error;
+}
+
+export async function fetchSessionTopics(sessionId: string) {
+  const { data, error } = await supabase
+    .from('session_topics')
+    .select('*')
+    .eq('session_id', sessionId)
+    .order('score', { ascending: false });
+
+  if (error) throw error;
+  return data;
+}
+
+// Vraagt de classify-topics worker om een directe run; zonder sessionId alle openstaande sessies
+export async function requestTopicClassification(sessionId?: string) {
+  const { error } = await supabase.functions.invoke('classify-topics', {
+    body: sessionId ? { session_id: sessionId } : {},
+  });
+
+  if (error) throw error;
+}
@@ -0,0 +1,310 @@
+import { format } from 'date-fns';
+import { supabase } from './supabase';
+import { chunk } from './chunk';
+
+export type ExportFormat = 'csv' | 'json' | 'markdown' | 'pdf';
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'json', label: 'JSON' },
+  { value: 'markdown', label: 'Markdown' },
+  { value: 'pdf', label: 'PDF (afdrukken)' },
+];
+
+interface ExportSession {
+  session_id: string;
+  start_time: string;
+  end_time: string | null;
+  status: string;
+  is_relevant: boolean;
+}
+
+interface ExportMessage {
+  session_id: string;
+  sender: 'user' | 'avatar';
+  message: string;
+  timestamp: string;
+}
+
+interface ExportStats {
+  session_id: string;
+  totalmessages: number;
+  usermessages: number;
+  avatarmessages: number;
+  avg_response_seconds: number | null;
+}
+
+export interface TranscriptExport {
+  session: ExportSession;
+  durationMinutes: number | null;
+  stats: ExportStats | null;
+  messages: ExportMessage[];
+}
+
+// Houd `.in()` filters kort genoeg voor de query string
+const CHUNK_SIZE = 100;
+// PostgREST levert standaard maximaal 1000 rijen per request
+const MESSAGE_PAGE_SIZE = 1000;
+
+const SENDER_LABELS = {
+  user: 'Gebruiker',
+  avatar: 'Adviseur',
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  active: 'Actief',
+  connecting: 'Verbinden',
+  connected: 'Verbonden',
+  completed: 'Voltooid',
+  error: 'Fout',
+};
+
+function formatDateTime(value: string | null) {
+  return value ? format(new Date(value), 'dd/MM/yyyy HH:mm:ss') : '';
+}
+
+// Alle berichten van de sessies, per pagina; (session_id, timestamp, id) houdt de volgorde tussen pagina's vast
+async function fetchMessages(sessionIds: string[]) {
+  const messages: ExportMessage[] = [];
+
+  for (let offset = 0; ; offset += MESSAGE_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('messages')
+      .select('session_id, sender, message, timestamp')
+      .in('session_id', sessionIds)
+      .order('session_id')
+      .order('timestamp', { ascending: true })
+      .order('id')
+      .range(offset, offset + MESSAGE_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    messages.push(...data);
+    if (data.length < MESSAGE_PAGE_SIZE) return messages;
+  }
+}
+
+export async function fetchTranscripts(sessionIds: string[]): Promise<TranscriptExport[]> {
+  const sessions: ExportSession[] = [];
+  const messages: ExportMessage[] = [];
+  const stats: ExportStats[] = [];
+
+  for (const ids of chunk(sessionIds, CHUNK_SIZE)) {
+    const [sessionsResult, chunkMessages, statsResult] = await Promise.all([
+      supabase
+        .from('sessions')
+        .select('session_id, start_time, end_time, status, is_relevant')
+        .in('session_id', ids),
+      fetchMessages(ids),
+      supabase
+        .from('session_stats')
+        .select('session_id, totalmessages, usermessages, avatarmessages, avg_response_seconds')
+        .in('session_id', ids),
+    ]);
+
+    if (sessionsResult.error) throw sessionsResult.error;
+    if (statsResult.error) throw statsResult.error;
+
+    sessions.push(...(sessionsResult.data || []));
+    messages.push(...chunkMessages);
+    stats.push(...(statsResult.data || []));
+  }
+
+  const order = new Map(sessionIds.map((id, index) => [id, index]));
+
+  return sessions
+    .sort((a, b) => (order.get(a.session_id) ?? 0) - (order.get(b.session_id) ?? 0))
+    .map(session => ({
+      session,
+      durationMinutes: session.end_time
+        ? Number(((new Date(session.end_time).getTime() - new Date(session.start_time).getTime()) / 60000).toFixed(1))
+        : null,
+      stats: stats.find(s => s.session_id === session.session_id) ?? null,
+      messages: messages.filter(m => m.session_id === session.session_id),
+    }));
+}
+
+function responseTimeSeconds(stats: ExportStats | null) {
+  return stats?.avg_response_seconds != null ? Number(stats.avg_response_seconds.toFixed(1)) : null;
+}
+
+function metadataRows(transcript: TranscriptExport): [string, string][] {
+  const { session, durationMinutes, stats } = transcript;
+  return [
+    ['Sessie', session.session_id],
+    ['Starttijd', formatDateTime(session.start_time)],
+    ['Eindtijd', formatDateTime(session.end_time) || '-'],
+    ['Duur', durationMinutes === null ? '-' : `${durationMinutes}m`],
+    ['Status', STATUS_LABELS[session.status] ?? session.status],
+    ['Relevant', session.is_relevant ? 'Ja' : 'Nee'],
+    ['Totaal berichten', String(stats?.totalmessages ?? transcript.messages.length)],
+    ['Gebruiker berichten', String(stats?.usermessages ?? '-')],
+    ['Adviseur berichten', String(stats?.avatarmessages ?? '-')],
+    ['Gemiddelde responstijd', responseTimeSeconds(stats) === null ? '-' : `${responseTimeSeconds(stats)}s`],
+  ];
+}
+
+export function escapeCsv(value: string | number | boolean | null) {
+  const text = value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(transcripts: TranscriptExport[]) {
+  const header = [
+    'session_id', 'start_time', 'end_time', 'duration_minutes', 'status', 'is_relevant',
+    'total_messages', 'user_messages', 'avatar_messages', 'avg_response_time_s',
+    'timestamp', 'sender', 'message',
+  ];
+
+  const rows = transcripts.flatMap(transcript => {
+    const { session, durationMinutes, stats } = transcript;
+    const sessionColumns = [
+      session.session_id, session.start_time, session.end_time, durationMinutes, session.status, session.is_relevant,
+      stats?.totalmessages ?? null, stats?.usermessages ?? null, stats?.avatarmessages ?? null, responseTimeSeconds(stats),
+    ];
+    // Een sessie zonder berichten krijgt één rij met lege berichtkolommen
+    if (transcript.messages.length === 0) return [[...sessionColumns, null, null, null]];
+    return transcript.messages.map(message => [
+      ...sessionColumns, message.timestamp, message.sender, message.message,
+    ]);
+  });
+
+  return [header, ...rows].map(row => row.map(escapeCsv).join(',')).join('\r\n');
+}
+
+export function toJson(transcripts: TranscriptExport[]) {
+  return JSON.stringify(
+    transcripts.map(({ session, durationMinutes, stats, messages }) => ({
+      ...session,
+      duration_minutes: durationMinutes,
+      stats: stats && {
+        total_messages: stats.totalmessages,
+        user_messages: stats.usermessages,
+        avatar_messages: stats.avatarmessages,
+        avg_response_time_s: responseTimeSeconds(stats),
+      },
+      messages: messages.map(({ sender, message, timestamp }) => ({ timestamp, sender, message })),
+    })),
+    null,
+    2
+  );
+}
+
+export function toMarkdown(transcripts: TranscriptExport[]) {
+  return transcripts.map(transcript => {
+    const metadata = metadataRows(transcript)
+      .map(([label, value]) => `| ${label} | ${value.replace(/\|/g, '\\|')} |`)
+      .join('\n');
+    const lines = transcript.messages
+      .map(m => `**${SENDER_LABELS[m.sender]}** (${format(new Date(m.timestamp), 'HH:mm:ss')}): ${m.message}`)
+      .join('\n\n');
+
+    return `# Sessie ${transcript.session.session_id}\n\n| | |\n|---|---|\n${metadata}\n\n## Transcript\n\n${lines || '_Geen berichten_'}\n`;
+  }).join('\n---\n\n');
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function toPrintableHtml(transcripts: TranscriptExport[]) {
+  const body = transcripts.map(transcript => `
+    <section>
+      <h1>Sessie ${escapeHtml(transcript.session.session_id)}</h1>
+      <table>${metadataRows(transcript)
+        .map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`)
+        .join('')}</table>
+      ${transcript.messages.map(m => `
+        <div class="message ${m.sender}">
+          <div class="meta">${SENDER_LABELS[m.sender]} · ${format(new Date(m.timestamp), 'HH:mm:ss')}</div>
+          <div>${escapeHtml(m.message)}</div>
+        </div>`).join('') || '<p><em>Geen berichten</em></p>'}
+    </section>`).join('');
+
+  return `<!doctype html>
+<html lang="nl">
+<head>
+<meta charset="UTF-8" />
+<title>Transcript export</title>
+<style>
+  body { font-family: system-ui, sans-serif; font-size: 12px; color: #111827; margin: 24px; }
+  section { page-break-after: always; }
+  section:last-child { page-break-after: auto; }
+  h1 { font-size: 18px; margin-bottom: 8px; }
+  table { border-collapse: collapse; margin-bottom: 16px; }
+  th, td { text-align: left; padding: 2px 12px 2px 0; }
+  th { color: #6b7280; font-weight: normal; }
+  .message { margin: 6px 0; padding: 6px 10px; border-radius: 6px; white-space: pre-wrap; page-break-inside: avoid; }
+  .message.user { background: #fdf3e4; margin-left: 15%; }
+  .message.avatar { background: #f3f4f6; margin-right: 15%; }
+  .meta { font-size: 10px; color: #6b7280; margin-bottom: 2px; }
+</style>
+</head>
+<body>${body}</body>
+</html>`;
+}
+
+export function downloadFile(filename: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * PDF via de printdialoog van de browser ("Opslaan als PDF"), zodat er geen PDF library nodig is.
+ * Open het venster direct in de klik handler: na het ophalen van de transcripten is de klik
+ * "verbruikt" en houdt de pop-up blocker `window.open` tegen. Tot dan toont het een laadmelding.
+ */
+export function openPrintWindow() {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    throw new Error('Pop-up geblokkeerd: sta pop-ups toe om als PDF te exporteren');
+  }
+  printWindow.document.write('<!doctype html><html lang="nl"><head><meta charset="UTF-8" /><title>Transcript export</title></head>'
+    + '<body style="font-family: system-ui, sans-serif; color: #6b7280; margin: 24px;">Transcripten laden...</body></html>');
+  printWindow.document.close();
+  return printWindow;
+}
+
+function printHtml(printWindow: Window, html: string) {
+  printWindow.document.open();
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+}
+
+// Voor 'pdf' het venster van openPrintWindow(); zonder venster wordt het hier geopend
+export async function exportTranscripts(sessionIds: string[], exportFormat: ExportFormat, printWindow: Window | null = null) {
+  if (sessionIds.length === 0) {
+    printWindow?.close();
+    return;
+  }
+
+  const transcripts = await fetchTranscripts(sessionIds);
+  const basename = sessionIds.length === 1
+    ? `transcript-${sessionIds[0].slice(0, 8)}`
+    : `transcripts-${format(new Date(), 'yyyyMMdd-HHmm')}`;
+
+  switch (exportFormat) {
+    case 'csv':
+      // BOM zodat Excel de UTF-8 tekens goed toont
+      downloadFile(`${basename}.csv`, `\uFEFF${toCsv(transcripts)}`, 'text/csv;charset=utf-8');
+      break;
+    case 'json':
+      downloadFile(`${basename}.json`, toJson(transcripts), 'application/json');
+      break;
+    case 'markdown':
+      downloadFile(`${basename}.md`, toMarkdown(transcripts), 'text/markdown;charset=utf-8');
+      break;
+    case 'pdf':
+      printHtml(printWindow ?? openPrintWindow(), toPrintableHtml(transcripts));
+      break;
+  }
+}
@@ -0,0 +1,141 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+
+// Transcript in vensters: eerst de nieuwste berichten, eerdere vensters bij het terugscrollen.
+// Een venster rond een bepaald bericht laadt latere vensters bij het doorscrollen naar beneden.
+// Volgorde is (timestamp, id), zodat berichten met hetzelfde tijdstip een vaste plek hebben.
+
+export const MESSAGE_WINDOW_SIZE = 50;
+
+export type TranscriptMessage = Database['public']['Tables']['messages']['Row'];
+export type MessageCursor = Pick<TranscriptMessage, 'id' | 'timestamp'>;
+
+export interface MessageWindow {
+  // Oplopend op tijd
+  messages: TranscriptMessage[];
+  hasEarlier: boolean;
+  // Alleen bij een venster rond een bericht; anders is het nieuwste bericht altijd geladen
+  hasLater: boolean;
+}
+
+function newestFirst(sessionId: string) {
+  return supabase
+    .from('messages')
+    .select('*')
+    .eq('session_id', sessionId)
+    .order('timestamp', { ascending: false })
+    .order('id', { ascending: false });
+}
+
+function oldestFirst(sessionId: string) {
+  return supabase
+    .from('messages')
+    .select('*')
+    .eq('session_id', sessionId)
+    .order('timestamp', { ascending: true })
+    .order('id', { ascending: true });
+}
+
+// Filters voor `.or()`: berichten vóór (of tot en met) en na de cursor
+const beforeCursor = (cursor: MessageCursor, inclusive = false) =>
+  `timestamp.lt."${cursor.timestamp}",and(timestamp.eq."${cursor.timestamp}",id.${inclusive ? 'lte' : 'lt'}.${cursor.id})`;
+const afterCursor = (cursor: MessageCursor) =>
+  `timestamp.gt."${cursor.timestamp}",and(timestamp.eq."${cursor.timestamp}",id.gt.${cursor.id})`;
+
+// Er wordt één rij meer opgehaald dan het venster, om te weten of er nog meer zijn
+async function fetchPage(query: ReturnType<typeof newestFirst>) {
+  const { data, error } = await query.limit(MESSAGE_WINDOW_SIZE + 1);
+
+  if (error) throw error;
+  return { rows: data.slice(0, MESSAGE_WINDOW_SIZE), hasMore: data.length > MESSAGE_WINDOW_SIZE };
+}
+
+/**
+ * Nieuwste venster van een sessie. Met `focusMessageId` (vanuit een zoekresultaat of de
+ * wachtrij met gemarkeerde antwoorden) een venster tot en met dat bericht plus een venster
+ * erna; de rest komt met fetchEarlierMessages en fetchLaterMessages.
+ */
+export async function fetchLatestMessages(sessionId: string, focusMessageId: string | null = null): Promise<MessageWindow> {
+  if (focusMessageId) {
+    const { data: focus, error: focusError } = await supabase
+      .from('messages')
+      .select('id, timestamp')
+      .eq('id', focusMessageId)
+      .eq('session_id', sessionId)
+      .maybeSingle();
+
+    if (focusError) throw focusError;
+
+    if (focus) {
+      const [earlier, later] = await Promise.all([
+        fetchPage(newestFirst(sessionId).or(beforeCursor(focus, true))),
+        fetchPage(oldestFirst(sessionId).or(afterCursor(focus))),
+      ]);
+
+      return {
+        messages: [...earlier.rows.reverse(), ...later.rows],
+        hasEarlier: earlier.hasMore,
+        hasLater: later.hasMore,
+      };
+    }
+  }
+
+  const { rows, hasMore } = await fetchPage(newestFirst(sessionId));
+  return { messages: rows.reverse(), hasEarlier: hasMore, hasLater: false };
+}
+
+// Het venster direct vóór `before`, het oudste geladen bericht
+export async function fetchEarlierMessages(sessionId: string, before: MessageCursor) {
+  const { rows, hasMore } = await fetchPage(newestFirst(sessionId).or(beforeCursor(before)));
+  return { messages: rows.reverse(), hasEarlier: hasMore };
+}
+
+// Het venster direct na `after`, het nieuwste geladen bericht
+export async function fetchLaterMessages(sessionId: string, after: MessageCursor) {
+  const { rows, hasMore } = await fetchPage(oldestFirst(sessionId).or(afterCursor(after)));
+  return { messages: rows, hasLater: hasMore };
+}
+
+export function compareMessages(a: MessageCursor, b: MessageCursor) {
+  const byTime = new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
+  if (byTime !== 0) return byTime;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+// Eerste positie waar `message` na de bestaande berichten komt, via binair zoeken
+function insertionIndex(messages: TranscriptMessage[], message: MessageCursor) {
+  let low = 0;
+  let high = messages.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (compareMessages(messages[middle], message) <= 0) low = middle + 1;
+    else high = middle;
+  }
+  return low;
+}
+
+/**
+ * Voegt een bericht uit realtime op zijn plek in, zonder de hele lijst te sorteren. Een
+ * bericht buiten het geladen bereik blijft weg zolang er eerdere (of latere) vensters zijn;
+ * dat komt mee met het venster waar het in hoort.
+ */
+export function insertMessage({ messages, hasEarlier, hasLater }: MessageWindow, message: TranscriptMessage) {
+  if (messages.some(existing => existing.id === message.id)) return messages;
+  if (hasEarlier && messages.length > 0 && compareMessages(message, messages[0]) < 0) return messages;
+  if (hasLater && messages.length > 0 && compareMessages(message, messages[messages.length - 1]) > 0) return messages;
+
+  const index = insertionIndex(messages, message);
+  return [...messages.slice(0, index), message, ...messages.slice(index)];
+}
+
+// Een bijgewerkt bericht blijft op zijn plek, tenzij het tijdstip veranderd is
+export function replaceMessage(transcript: MessageWindow, message: TranscriptMessage) {
+  const { messages } = transcript;
+  const index = messages.findIndex(existing => existing.id === message.id);
+  if (index === -1) return insertMessage(transcript, message);
+
+  if (messages[index].timestamp === message.timestamp) {
+    return [...messages.slice(0, index), message, ...messages.slice(index + 1)];
+  }
+  return insertMessage({ ...transcript, messages: messages.filter(existing => existing.id !== message.id) }, message);
+}
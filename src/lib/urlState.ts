@@ -0,0 +1,46 @@
+import type { SetURLSearchParams } from 'react-router-dom';
+import { format, isValid, parse } from 'date-fns';
+
+// Leest een query parameter die maar een beperkt aantal waarden mag hebben; onbekende waarden vallen terug op de default
+export function getEnumParam<T extends string>(
+  params: URLSearchParams,
+  key: string,
+  allowed: readonly T[],
+  fallback: T
+): T {
+  const value = params.get(key);
+  return value !== null && (allowed as readonly string[]).includes(value) ? value as T : fallback;
+}
+
+/**
+ * Past query parameters aan en laat de rest staan. `null` of een lege string verwijdert de parameter.
+ * Elke wijziging is een nieuwe history entry, zodat terug/vooruit door filterstanden stapt.
+ */
+export function updateSearchParams(
+  setSearchParams: SetURLSearchParams,
+  updates: Record<string, string | null>
+) {
+  setSearchParams(prev => {
+    const next = new URLSearchParams(prev);
+    for (const [key, value] of Object.entries(updates)) {
+      if (value === null || value === '') {
+        next.delete(key);
+      } else {
+        next.set(key, value);
+      }
+    }
+    return next;
+  });
+}
+
+const DATE_PARAM_FORMAT = 'yyyy-MM-dd';
+
+export function parseDateParam(value: string | null) {
+  if (!value) return null;
+  const date = parse(value, DATE_PARAM_FORMAT, new Date());
+  return isValid(date) ? date : null;
+}
+
+export function formatDateParam(date: Date) {
+  return format(date, DATE_PARAM_FORMAT);
+}
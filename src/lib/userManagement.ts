@@ -0,0 +1,20 @@
+import { supabase } from './supabase';
+import type { Role } from './roles';
+
+export type ManageUsersRequest =
+  | { action: 'invite'; email: string; role: Role }
+  | { action: 'resend' | 'revoke' | 'deactivate' | 'reactivate' | 'delete'; user_id: string }
+  | { action: 'update_role'; user_id: string; role: Role };
+
+// Alle schrijfacties op gebruikers lopen via de `manage-users` edge function (alleen admins)
+export async function manageUsers(request: ManageUsersRequest) {
+  const { data, error } = await supabase.functions.invoke('manage-users', { body: request });
+
+  if (error) {
+    // FunctionsHttpError bevat de response; haal de foutmelding van de function eruit
+    const details = await error.context?.json?.().catch(() => null);
+    throw new Error(details?.error || error.message);
+  }
+
+  return data;
+}
@@ -0,0 +1,152 @@
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+
+interface VirtualListOptions {
+  count: number;
+  getKey: (index: number) => string;
+  // Geschatte hoogte van een rij die nog niet gemeten is, in pixels
+  estimateSize: number;
+  overscan?: number;
+  // Houdt de bovenste zichtbare rij op zijn plek als er rijen boven worden ingevoegd of
+  // opnieuw gemeten, zoals bij het laden van eerdere berichten
+  keepScrollAnchor?: boolean;
+}
+
+export interface VirtualItem {
+  index: number;
+  key: string;
+  start: number;
+}
+
+/**
+ * Virtualisatie voor lange lijsten met rijen van verschillende hoogte.
+ *
+ * Alleen de zichtbare rijen (plus `overscan` aan beide kanten) worden gerenderd, absoluut
+ * gepositioneerd binnen een container van `totalSize` hoog. Elke rij wordt gemeten zodra hij
+ * getoond wordt; de hoogte wordt per key onthouden, zodat rijen die bovenaan worden ingevoegd
+ * de metingen van de rest niet ongeldig maken.
+ */
+export function useVirtualList({ count, getKey, estimateSize, overscan = 5, keepScrollAnchor = false }: VirtualListOptions) {
+  const [scrollElement, setScrollElement] = useState<HTMLElement | null>(null);
+  const [viewport, setViewport] = useState({ scrollTop: 0, height: 0 });
+  const [, setMeasureVersion] = useState(0);
+  const sizes = useRef(new Map<string, number>());
+  const elements = useRef(new Map<string, HTMLElement>());
+  const observer = useRef<ResizeObserver | null>(null);
+  const anchor = useRef<{ key: string; start: number } | null>(null);
+  const latestStarts = useRef<number[]>([]);
+
+  useEffect(() => {
+    if (!scrollElement) return;
+
+    const update = () => setViewport({ scrollTop: scrollElement.scrollTop, height: scrollElement.clientHeight });
+    update();
+
+    scrollElement.addEventListener('scroll', update, { passive: true });
+    const resizeObserver = new ResizeObserver(update);
+    resizeObserver.observe(scrollElement);
+
+    return () => {
+      scrollElement.removeEventListener('scroll', update);
+      resizeObserver.disconnect();
+    };
+  }, [scrollElement]);
+
+  useEffect(() => () => {
+    observer.current?.disconnect();
+    observer.current = null;
+  }, []);
+
+  // Lui aangemaakt: refs van de eerste rijen worden gezet voordat effects draaien
+  const getObserver = () => {
+    if (!observer.current) {
+      observer.current = new ResizeObserver(entries => {
+        let changed = false;
+        for (const entry of entries) {
+          const key = (entry.target as HTMLElement).dataset.virtualKey;
+          const height = entry.borderBoxSize?.[0]?.blockSize ?? entry.target.getBoundingClientRect().height;
+          if (key && sizes.current.get(key) !== height) {
+            sizes.current.set(key, height);
+            changed = true;
+          }
+        }
+        if (changed) setMeasureVersion(version => version + 1);
+      });
+    }
+    return observer.current;
+  };
+
+  // Ref voor een gerenderde rij; het element krijgt de key mee voor de ResizeObserver
+  const measureElement = (key: string) => (element: HTMLElement | null) => {
+    const previous = elements.current.get(key);
+    if (previous && previous !== element) {
+      getObserver().unobserve(previous);
+      elements.current.delete(key);
+    }
+    if (element) {
+      element.dataset.virtualKey = key;
+      elements.current.set(key, element);
+      getObserver().observe(element);
+    }
+  };
+
+  const starts: number[] = new Array(count);
+  let totalSize = 0;
+  for (let index = 0; index < count; index++) {
+    starts[index] = totalSize;
+    totalSize += sizes.current.get(getKey(index)) ?? estimateSize;
+  }
+  latestStarts.current = starts;
+
+  // Eerste rij die (deels) zichtbaar is, via binair zoeken op de beginposities
+  let low = 0;
+  let high = count - 1;
+  while (low < high) {
+    const middle = Math.floor((low + high + 1) / 2);
+    if (starts[middle] <= viewport.scrollTop) low = middle;
+    else high = middle - 1;
+  }
+
+  let last = low;
+  while (last < count - 1 && starts[last + 1] < viewport.scrollTop + viewport.height) last++;
+
+  const startsByKey = new Map<string, number>();
+  if (keepScrollAnchor) {
+    for (let index = 0; index < count; index++) startsByKey.set(getKey(index), starts[index]);
+  }
+
+  // Verschuift de anker-rij, dan schuift de scrollpositie evenveel mee. Anders wordt de eerste
+  // zichtbare rij het nieuwe anker; de viewport in state loopt direct na een correctie nog achter.
+  useLayoutEffect(() => {
+    if (!keepScrollAnchor || !scrollElement) return;
+
+    const anchorStart = anchor.current ? startsByKey.get(anchor.current.key) : undefined;
+    if (anchor.current && anchorStart !== undefined && anchorStart !== anchor.current.start) {
+      scrollElement.scrollTop += anchorStart - anchor.current.start;
+      anchor.current = { key: anchor.current.key, start: anchorStart };
+      return;
+    }
+
+    anchor.current = count > 0 ? { key: getKey(low), start: starts[low] } : null;
+  });
+
+  const items: VirtualItem[] = [];
+  for (let index = Math.max(0, low - overscan); index <= Math.min(count - 1, last + overscan); index++) {
+    items.push({ index, key: getKey(index), start: starts[index] });
+  }
+
+  // Scrollt zodat de rij in het midden van de viewport staat; stabiel zolang de container dezelfde is
+  const scrollToIndex = useCallback((index: number) => {
+    if (!scrollElement) return;
+    scrollElement.scrollTop = Math.max(0, (latestStarts.current[index] ?? 0) - scrollElement.clientHeight / 2);
+  }, [scrollElement]);
+
+  return {
+    scrollRef: setScrollElement,
+    items,
+    totalSize,
+    // Laatste rij die nu zichtbaar is, bijvoorbeeld om de volgende pagina te laden
+    lastVisibleIndex: count === 0 ? -1 : last,
+    measureElement,
+    scrollToIndex,
+  };
+}
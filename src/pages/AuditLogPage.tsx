@@ -0,0 +1,167 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { updateSearchParams } from '../lib/urlState';
+import {
+  AUDIT_ACTIONS,
+  describeAuditEntry,
+  fetchAuditLog,
+  getActionLabel,
+  type AuditLogEntry,
+} from '../lib/audit';
+
+export function AuditLogPage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const actorId = searchParams.get('actor');
+  const sessionId = searchParams.get('session');
+  const action = searchParams.get('action');
+
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  // Analisten mogen de users tabel niet lezen; de actoren komen daarom uit de audit log zelf
+  const [actors, setActors] = useState<Map<string, string>>(new Map());
+  const [sessionInput, setSessionInput] = useState(sessionId ?? '');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSessionInput(sessionId ?? '');
+  }, [sessionId]);
+
+  useEffect(() => {
+    const loadEntries = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const data = await fetchAuditLog({ actorId, sessionId, action });
+        setEntries(data);
+        setActors(prev => {
+          const next = new Map(prev);
+          for (const entry of data) {
+            if (entry.actor_id) next.set(entry.actor_id, entry.actor_email ?? entry.actor_id);
+          }
+          return next;
+        });
+      } catch (err) {
+        console.error('Error fetching audit log:', err);
+        setError(err instanceof Error ? err.message : 'Audit log ophalen mislukt');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadEntries();
+  }, [actorId, sessionId, action]);
+
+  const handleSessionSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    updateSearchParams(setSearchParams, { session: sessionInput.trim() });
+  };
+
+  const hasFilters = Boolean(actorId || sessionId || action);
+
+  return (
+    <div className="p-4 max-w-6xl mx-auto space-y-6">
+      <h1 className="text-2xl font-bold">Audit log</h1>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={actorId ?? ''}
+          onChange={(e) => updateSearchParams(setSearchParams, { actor: e.target.value })}
+          className="border rounded-md px-3 py-2 text-sm"
+        >
+          <option value="">Alle gebruikers</option>
+          {[...actors].map(([id, email]) => (
+            <option key={id} value={id}>{email}</option>
+          ))}
+        </select>
+
+        <select
+          value={action ?? ''}
+          onChange={(e) => updateSearchParams(setSearchParams, { action: e.target.value })}
+          className="border rounded-md px-3 py-2 text-sm"
+        >
+          <option value="">Alle acties</option>
+          {AUDIT_ACTIONS.map(({ value, label }) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+
+        <form onSubmit={handleSessionSubmit}>
+          <input
+            type="search"
+            value={sessionInput}
+            onChange={(e) => setSessionInput(e.target.value)}
+            placeholder="Sessie ID"
+            className="border rounded-md px-3 py-2 text-sm w-72"
+          />
+        </form>
+
+        {hasFilters && (
+          <button
+            onClick={() => updateSearchParams(setSearchParams, { actor: null, session: null, action: null })}
+            className="text-sm text-gray-500 hover:text-gray-700"
+          >
+            Filters wissen
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 text-red-500 p-4 rounded-md">
+          {error}
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <table className="w-full">
+          <thead>
+            <tr className="bg-gray-50">
+              <th className="px-6 py-3 text-left text-sm font-medium text-gray-500">Tijdstip</th>
+              <th className="px-6 py-3 text-left text-sm font-medium text-gray-500">Gebruiker</th>
+              <th className="px-6 py-3 text-left text-sm font-medium text-gray-500">Actie</th>
+              <th className="px-6 py-3 text-left text-sm font-medium text-gray-500">Onderwerp</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {loading && entries.length === 0 ? (
+              <tr>
+                <td colSpan={4} className="px-6 py-8">
+                  <div className="flex justify-center">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
+                  </div>
+                </td>
+              </tr>
+            ) : entries.length === 0 ? (
+              <tr>
+                <td colSpan={4} className="px-6 py-8 text-center text-sm text-gray-500">
+                  Geen acties gevonden
+                </td>
+              </tr>
+            ) : (
+              entries.map(entry => (
+                <tr key={entry.id} className={loading ? 'opacity-60' : ''}>
+                  <td className="px-6 py-4 text-sm text-gray-900 whitespace-nowrap">
+                    {format(new Date(entry.created_at), 'dd/MM/yyyy HH:mm:ss')}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-900">
+                    {entry.actor_email ?? <span className="text-gray-500">Systeem</span>}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-900">{getActionLabel(entry.action)}</td>
+                  <td className="px-6 py-4 text-sm text-gray-900">
+                    {entry.session_id && entry.action !== 'session.deleted' ? (
+                      <Link to={`/sessions/${encodeURIComponent(entry.session_id)}`} className="text-[#ce861b] hover:underline">
+                        {describeAuditEntry(entry)}
+                      </Link>
+                    ) : (
+                      describeAuditEntry(entry)
+                    )}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { CheckCircle, Download, RotateCcw } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { usePermission } from '../lib/roleContext';
+import { getEnumParam, updateSearchParams } from '../lib/urlState';
+import {
+  ERROR_CATEGORIES,
+  exportFlaggedAnswers,
+  fetchFlaggedAnswers,
+  getErrorCategoryLabel,
+  setAnswerReviewStatus,
+  type FlaggedAnswer,
+} from '../lib/answerQuality';
+import type { AnswerErrorCategory } from '../lib/database.types';
+
+const STATUS_FILTERS = ['open', 'resolved', 'all'] as const;
+const CATEGORY_FILTERS = ['all', ...ERROR_CATEGORIES.map(c => c.value)] as const;
+
+// Wachtrij van negatief beoordeelde antwoorden, om te verwerken in de kennisbank van de avatar
+export function FlaggedAnswersPage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const status = getEnumParam(searchParams, 'status', STATUS_FILTERS, 'open');
+  const category = getEnumParam<AnswerErrorCategory | 'all'>(searchParams, 'category', CATEGORY_FILTERS, 'all');
+
+  const [answers, setAnswers] = useState<FlaggedAnswer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const canAnnotate = usePermission('annotateSessions');
+
+  useEffect(() => {
+    const loadAnswers = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        setAnswers(await fetchFlaggedAnswers({
+          status: status === 'all' ? null : status,
+          category: category === 'all' ? null : category,
+        }));
+      } catch (err) {
+        console.error('Error fetching flagged answers:', err);
+        setError(err instanceof Error ? err.message : 'Gemarkeerde antwoorden ophalen mislukt');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadAnswers();
+
+    const channel = supabase.channel('flagged_answers')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'message_annotations' }, () => loadAnswers())
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [status, category]);
+
+  const handleStatusChange = async (answer: FlaggedAnswer) => {
+    try {
+      setUpdatingId(answer.message_id);
+      setError(null);
+      await setAnswerReviewStatus(answer.message_id, answer.review_status === 'open' ? 'resolved' : 'open');
+    } catch (err) {
+      console.error('Error updating review status:', err);
+      setError(err instanceof Error ? err.message : 'Status bijwerken mislukt');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  return (
+    <div className="p-4 max-w-6xl mx-auto space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-bold">Gemarkeerde antwoorden</h1>
+        <button
+          onClick={() => exportFlaggedAnswers(answers)}
+          disabled={answers.length === 0}
+          className="inline-flex items-center gap-1 px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+        >
+          <Download className="h-4 w-4" />
+          Exporteren voor kennisbank
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={status}
+          onChange={(e) => updateSearchParams(setSearchParams, { status: e.target.value === 'open' ? null : e.target.value })}
+          className="border rounded-md px-3 py-2 text-sm"
+        >
+          <option value="open">Nog te verwerken</option>
+          <option value="resolved">Verwerkt</option>
+          <option value="all">Alle</option>
+        </select>
+
+        <select
+          value={category}
+          onChange={(e) => updateSearchParams(setSearchParams, { category: e.target.value === 'all' ? null : e.target.value })}
+          className="border rounded-md px-3 py-2 text-sm"
+        >
+          <option value="all">Alle categorieën</option>
+          {ERROR_CATEGORIES.map(({ value, label }) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+
+        <span className="text-sm text-gray-500">{answers.length} antwoorden</span>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 text-red-500 p-4 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {loading && answers.length === 0 ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
+        </div>
+      ) : answers.length === 0 ? (
+        <div className="bg-white rounded-lg shadow p-8 text-center text-sm text-gray-500">
+          Geen gemarkeerde antwoorden gevonden
+        </div>
+      ) : (
+        <div className={`space-y-4 ${loading ? 'opacity-60' : ''}`}>
+          {answers.map(answer => (
+            <div key={answer.message_id} className="bg-white rounded-lg shadow p-4 space-y-3">
+              <div className="flex items-center justify-between text-xs text-gray-500">
+                <span className="flex items-center gap-2">
+                  <span className="px-2 py-0.5 rounded-full bg-red-50 text-red-700">
+                    {getErrorCategoryLabel(answer.error_category)}
+                  </span>
+                  <span>
+                    {answer.annotator_email ?? 'Onbekend'} · {format(new Date(answer.updated_at), 'dd/MM/yyyy HH:mm')}
+                  </span>
+                  {answer.resolved_at && (
+                    <span className="text-green-700">Verwerkt op {format(new Date(answer.resolved_at), 'dd/MM/yyyy')}</span>
+                  )}
+                </span>
+                <span className="flex items-center gap-3">
+                  <Link
+                    to={`/sessions/${encodeURIComponent(answer.session_id)}?message=${answer.message_id}`}
+                    className="text-[#ce861b] hover:underline"
+                  >
+                    Bekijk in sessie
+                  </Link>
+                  {canAnnotate && (
+                    <button
+                      onClick={() => handleStatusChange(answer)}
+                      disabled={updatingId === answer.message_id}
+                      className="inline-flex items-center gap-1 px-2 py-1 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      {answer.review_status === 'open' ? (
+                        <>
+                          <CheckCircle className="h-3 w-3" />
+                          Verwerkt
+                        </>
+                      ) : (
+                        <>
+                          <RotateCcw className="h-3 w-3" />
+                          Heropenen
+                        </>
+                      )}
+                    </button>
+                  )}
+                </span>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+                <div>
+                  <h3 className="text-xs font-medium text-gray-500 mb-1">Vraag</h3>
+                  <p className="whitespace-pre-wrap text-gray-900">{answer.question ?? '-'}</p>
+                </div>
+                <div>
+                  <h3 className="text-xs font-medium text-gray-500 mb-1">
+                    Antwoord van de avatar · {format(new Date(answer.answered_at), 'dd/MM/yyyy HH:mm')}
+                  </h3>
+                  <p className="whitespace-pre-wrap bg-red-50 rounded-md p-2 text-gray-900">{answer.answer}</p>
+                </div>
+                <div>
+                  <h3 className="text-xs font-medium text-gray-500 mb-1">Beter antwoord</h3>
+                  {answer.suggested_answer ? (
+                    <p className="whitespace-pre-wrap bg-green-50 rounded-md p-2 text-gray-900">{answer.suggested_answer}</p>
+                  ) : (
+                    <p className="text-gray-400">Geen voorstel</p>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
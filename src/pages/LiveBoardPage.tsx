@@ -0,0 +1,232 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { formatDistanceStrict } from 'date-fns';
+import { nl } from 'date-fns/locale';
+import { MessageSquare, StopCircle } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { stopHeyGenSession } from '../lib/heygen';
+import { usePermission } from '../lib/roleContext';
+import { DEFAULT_SESSION_IDLE_TIMEOUT_MINUTES, fetchAppSettings } from '../lib/settings';
+import {
+  IDLE_THRESHOLD_MINUTES,
+  applyLiveMessage,
+  fetchLiveSessions,
+  isIdle,
+  type LiveSession,
+} from '../lib/liveSessions';
+import type { Database } from '../lib/database.types';
+
+type Message = Database['public']['Tables']['messages']['Row'];
+
+const STATUS_LABELS: Record<LiveSession['status'], string> = {
+  active: 'Actief',
+  connecting: 'Verbinden',
+  connected: 'Verbonden',
+  completed: 'Voltooid',
+  error: 'Fout',
+};
+
+// Verstreken tijd als H:MM:SS, of MM:SS onder het uur
+const formatElapsed = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = String(Math.floor((totalSeconds % 3600) / 60)).padStart(2, '0');
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${minutes}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+// Alle sessies die nu lopen, bijgewerkt via realtime op sessions en messages
+export function LiveBoardPage() {
+  const [sessions, setSessions] = useState<LiveSession[]>([]);
+  const [now, setNow] = useState(Date.now());
+  const [loading, setLoading] = useState(true);
+  const [stoppingSession, setStoppingSession] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [idleTimeoutMinutes, setIdleTimeoutMinutes] = useState(DEFAULT_SESSION_IDLE_TIMEOUT_MINUTES);
+  const canStop = usePermission('stopSessions');
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    fetchAppSettings()
+      .then(settings => setIdleTimeoutMinutes(settings.session_idle_timeout_minutes))
+      .catch(err => console.error('Error fetching settings:', err));
+  }, []);
+
+  useEffect(() => {
+    const loadSessions = async () => {
+      try {
+        setSessions(await fetchLiveSessions());
+      } catch (err) {
+        console.error('Error fetching live sessions:', err);
+        setError(err instanceof Error ? err.message : 'Live sessies ophalen mislukt');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSessions();
+
+    // Statuswijzigingen laden het bord opnieuw, kort gebundeld; berichten worden ter plekke verwerkt
+    let reloadTimer: ReturnType<typeof setTimeout> | undefined;
+    const scheduleReload = () => {
+      clearTimeout(reloadTimer);
+      reloadTimer = setTimeout(loadSessions, 300);
+    };
+
+    const channel = supabase.channel('live_board')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'sessions' }, scheduleReload)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'messages' },
+        (payload) => setSessions(prev => applyLiveMessage(prev, payload.new as Message))
+      )
+      .subscribe();
+
+    return () => {
+      clearTimeout(reloadTimer);
+      supabase.removeChannel(channel);
+    };
+  }, []);
+
+  const handleStop = async (session: LiveSession) => {
+    if (stoppingSession) return;
+    if (!confirm(`Sessie ${session.session_id.slice(0, 8)} stoppen? De gebruiker wordt direct losgekoppeld.`)) return;
+
+    try {
+      setStoppingSession(session.session_id);
+      setError(null);
+      await stopHeyGenSession(session.session_id);
+    } catch (err) {
+      console.error('Error stopping session:', err);
+      setError(err instanceof Error ? err.message : 'Sessie stoppen mislukt');
+    } finally {
+      setStoppingSession(null);
+    }
+  };
+
+  const idleCount = sessions.filter(session => isIdle(session, now)).length;
+
+  return (
+    <div className="p-4 max-w-6xl mx-auto space-y-6">
+      <div className="flex justify-between items-center">
+        <div className="flex items-center gap-3">
+          <h1 className="text-2xl font-bold">Live sessies</h1>
+          <span className="flex items-center gap-1 text-sm text-green-700">
+            <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse" />
+            Live
+          </span>
+        </div>
+        <div className="text-sm text-gray-500">
+          {sessions.length} lopend
+          {idleCount > 0 && (
+            <span className="text-amber-700"> · {idleCount} inactief (langer dan {IDLE_THRESHOLD_MINUTES} min stil)</span>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 text-red-500 p-4 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
+        </div>
+      ) : sessions.length === 0 ? (
+        <div className="bg-white rounded-lg shadow p-8 text-center text-sm text-gray-500">
+          Er lopen op dit moment geen sessies
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+          {sessions.map(session => {
+            const idle = isIdle(session, now);
+            // De sync worker sluit de sessie na de ingestelde timeout zonder berichten
+            const closesAt = new Date(session.last_activity_at).getTime() + idleTimeoutMinutes * 60000;
+
+            return (
+              <div
+                key={session.session_id}
+                className={`bg-white rounded-lg shadow p-4 space-y-3 border-l-4 ${idle ? 'border-amber-400 bg-amber-50' : 'border-green-500'}`}
+              >
+                <div className="flex items-center justify-between">
+                  <Link
+                    to={`/sessions/${encodeURIComponent(session.session_id)}`}
+                    className="font-medium text-gray-900 hover:text-[#ce861b]"
+                  >
+                    Sessie {session.session_id.slice(0, 8)}
+                  </Link>
+                  <div className="flex items-center gap-2">
+                    {idle && (
+                      <span className="px-2 py-0.5 text-xs rounded-full bg-amber-100 text-amber-800">Inactief</span>
+                    )}
+                    <span className="px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-800">
+                      {STATUS_LABELS[session.status]}
+                    </span>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-3 gap-2 text-sm">
+                  <div>
+                    <p className="text-xs text-gray-500">Looptijd</p>
+                    <p className="font-medium tabular-nums">{formatElapsed(now - new Date(session.start_time).getTime())}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-gray-500">Berichten</p>
+                    <p className="font-medium flex items-center gap-1">
+                      <MessageSquare className="h-3 w-3 text-gray-400" />
+                      {session.message_count}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-gray-500">Laatste activiteit</p>
+                    <p className={`font-medium ${idle ? 'text-amber-700' : ''}`}>
+                      {formatDistanceStrict(new Date(session.last_activity_at), now, { locale: nl, addSuffix: true })}
+                    </p>
+                  </div>
+                </div>
+
+                {idle && (
+                  <p className="text-xs text-amber-700">
+                    {closesAt > now
+                      ? `Wordt automatisch gesloten ${formatDistanceStrict(closesAt, now, { locale: nl, addSuffix: true })}`
+                      : 'Wordt bij de volgende sync automatisch gesloten'}
+                  </p>
+                )}
+
+                <div className="text-sm text-gray-700 bg-gray-50 rounded-md p-2 min-h-[3rem]">
+                  {session.last_message ? (
+                    <p className="line-clamp-2">
+                      <span className="font-medium">{session.last_message_sender === 'user' ? 'Gebruiker' : 'Adviseur'}: </span>
+                      {session.last_message}
+                    </p>
+                  ) : (
+                    <p className="text-gray-400">Nog geen berichten</p>
+                  )}
+                </div>
+
+                {canStop && (
+                  <div className="flex justify-end">
+                    <button
+                      onClick={() => handleStop(session)}
+                      disabled={stoppingSession === session.session_id}
+                      className="inline-flex items-center gap-1 px-3 py-1 text-sm border border-red-300 rounded-md text-red-700 hover:bg-red-50 disabled:opacity-50"
+                    >
+                      <StopCircle className="h-4 w-4" />
+                      {stoppingSession === session.session_id ? 'Stoppen...' : 'Sessie stoppen'}
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { SessionsList } from '../components/SessionsList';
+import { SessionDetails } from '../components/SessionDetails';
+import SessionStats from '../components/SessionStats';
+
+export function SessionsPage() {
+  const { sessionId = null } = useParams();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const focusedMessageId = searchParams.get('message');
+
+  // Behoud de filters van de lijst bij het openen van een sessie
+  const handleSessionSelect = (selectedSessionId: string, messageId?: string) => {
+    const params = new URLSearchParams(searchParams);
+    params.delete('message');
+    if (messageId) {
+      params.set('message', messageId);
+    }
+    const query = params.toString();
+    navigate(`/sessions/${encodeURIComponent(selectedSessionId)}${query ? `?${query}` : ''}`);
+  };
+
+  return (
+    <div className="flex flex-1">
+      <aside className="w-96 bg-white border-r border-gray-200 overflow-y-auto">
+        <SessionsList
+          selectedSessionId={sessionId}
+          onSessionSelect={handleSessionSelect}
+        />
+      </aside>
+      <main className="flex-1 overflow-y-auto bg-gray-50">
+        {sessionId ? (
+          <div className="flex">
+            <div className="w-[65%] border-r border-gray-200">
+              <SessionDetails sessionId={sessionId} focusMessageId={focusedMessageId} />
+            </div>
+            <div className="w-[35%] p-6">
+              <SessionStats sessionId={sessionId} />
+            </div>
+          </div>
+        ) : (
+          <div className="h-full flex items-center justify-center text-gray-500">
+            Selecteer een sessie om de details te bekijken
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import { fetchAppSettings, updateAppSettings, type AppSettings } from '../lib/settings';
+import { DEFAULT_REPORTING_TIMEZONE } from '../lib/dateRange';
+import { TopicTaxonomyEditor } from '../components/TopicTaxonomyEditor';
+import { AlertRulesEditor } from '../components/AlertRulesEditor';
+
+// Keuzelijst voor de rapportagetijdzone; de database accepteert elke geldige IANA naam
+const TIMEZONE_OPTIONS = [
+  'Europe/Amsterdam',
+  'Europe/Brussels',
+  'Europe/London',
+  'Europe/Berlin',
+  'UTC',
+  'America/New_York',
+  'America/Curacao',
+  'Asia/Jakarta',
+];
+
+export function SettingsPage() {
+  const [settings, setSettings] = useState<AppSettings | null>(null);
+  const [retentionDays, setRetentionDays] = useState('');
+  const [reportingTimezone, setReportingTimezone] = useState(DEFAULT_REPORTING_TIMEZONE);
+  const [idleTimeoutMinutes, setIdleTimeoutMinutes] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchAppSettings()
+      .then(data => {
+        setSettings(data);
+        setRetentionDays(String(data.trash_retention_days));
+        setReportingTimezone(data.reporting_timezone);
+        setIdleTimeoutMinutes(String(data.session_idle_timeout_minutes));
+      })
+      .catch(err => {
+        console.error('Error fetching settings:', err);
+        setError(err instanceof Error ? err.message : 'Instellingen ophalen mislukt');
+      });
+  }, []);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    const days = Number(retentionDays);
+    if (!Number.isInteger(days) || days < 1 || days > 365) {
+      setError('De bewaartermijn moet tussen 1 en 365 dagen liggen');
+      return;
+    }
+
+    const idleMinutes = Number(idleTimeoutMinutes);
+    if (!Number.isInteger(idleMinutes) || idleMinutes < 5 || idleMinutes > 1440) {
+      setError('De inactiviteitstimeout moet tussen 5 en 1440 minuten liggen');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      setNotice(null);
+      setSettings(await updateAppSettings({
+        trash_retention_days: days,
+        reporting_timezone: reportingTimezone,
+        session_idle_timeout_minutes: idleMinutes,
+      }));
+      setNotice('Instellingen opgeslagen.');
+    } catch (err) {
+      console.error('Error updating settings:', err);
+      setError(err instanceof Error ? err.message : 'Instellingen opslaan mislukt');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!settings && !error) {
+    return (
+      <div className="p-4 flex justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 max-w-3xl mx-auto space-y-6">
+      <h1 className="text-2xl font-bold">Instellingen</h1>
+
+      {error && (
+        <div className="bg-red-50 text-red-500 p-4 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {notice && (
+        <div className="bg-green-50 text-green-700 p-4 rounded-md">
+          {notice}
+        </div>
+      )}
+
+      {settings && (
+        <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow p-6 space-y-4">
+          <div>
+            <label htmlFor="trash-retention" className="block text-sm font-medium text-gray-700 mb-1">
+              Bewaartermijn prullenbak (dagen)
+            </label>
+            <input
+              id="trash-retention"
+              type="number"
+              min={1}
+              max={365}
+              value={retentionDays}
+              onChange={(e) => setRetentionDays(e.target.value)}
+              className="border rounded-md px-3 py-2 w-32"
+            />
+            <p className="mt-1 text-sm text-gray-500">
+              Sessies in de prullenbak worden na deze termijn automatisch en definitief verwijderd,
+              inclusief berichten en statistieken.
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="idle-timeout" className="block text-sm font-medium text-gray-700 mb-1">
+              Sessie automatisch sluiten na inactiviteit (minuten)
+            </label>
+            <input
+              id="idle-timeout"
+              type="number"
+              min={5}
+              max={1440}
+              value={idleTimeoutMinutes}
+              onChange={(e) => setIdleTimeoutMinutes(e.target.value)}
+              className="border rounded-md px-3 py-2 w-32"
+            />
+            <p className="mt-1 text-sm text-gray-500">
+              Een open sessie zonder nieuwe berichten wordt na deze tijd bij HeyGen gestopt en afgesloten,
+              met het laatste bericht als eindtijd. Zo blijven sessies van gesloten browsers niet eeuwig actief.
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="reporting-timezone" className="block text-sm font-medium text-gray-700 mb-1">
+              Tijdzone voor rapportages
+            </label>
+            <select
+              id="reporting-timezone"
+              value={reportingTimezone}
+              onChange={(e) => setReportingTimezone(e.target.value)}
+              className="border rounded-md px-3 py-2"
+            >
+              {/* Een eerder ingestelde tijdzone buiten de lijst blijft selecteerbaar */}
+              {(TIMEZONE_OPTIONS.includes(reportingTimezone) ? TIMEZONE_OPTIONS : [reportingTimezone, ...TIMEZONE_OPTIONS]).map(zone => (
+                <option key={zone} value={zone}>{zone}</option>
+              ))}
+            </select>
+            <p className="mt-1 text-sm text-gray-500">
+              Bepaalt in welke tijdzone het dashboard en de sessielijst dagen, weken (maandag tot en met zondag)
+              en uren indelen.
+            </p>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-gray-500">
+              Laatst gewijzigd: {new Date(settings.updated_at).toLocaleString('nl-NL')}
+            </span>
+            <button
+              type="submit"
+              disabled={saving}
+              className="bg-[#ce861b] text-white px-4 py-2 rounded-md hover:bg-[#b67616] disabled:opacity-50"
+            >
+              {saving ? 'Opslaan...' : 'Opslaan'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <TopicTaxonomyEditor />
+
+      <AlertRulesEditor />
+    </div>
+  );
+}
@@ -1,22 +1,42 @@
 import React, { useEffect, useState } from 'react';
 import { supabase } from '../lib/supabase';
-import { Plus, Trash2 } from 'lucide-react';
+import { Plus, Trash2, Send, XCircle, UserX, UserCheck } from 'lucide-react';
+import { ROLES, type Role } from '../lib/roles';
+import { manageUsers, type ManageUsersRequest } from '../lib/userManagement';
 
 interface User {
   id: string;
   email: string;
-  role: string;
+  role: Role;
+  status: 'invited' | 'active' | 'deactivated';
   created_at: string;
+  invited_at: string | null;
+  last_sign_in_at: string | null;
+  deactivated_at: string | null;
 }
 
+const STATUS_LABELS = {
+  invited: 'Uitgenodigd',
+  active: 'Actief',
+  deactivated: 'Gedeactiveerd',
+};
+
+const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleString('nl-NL') : 'Nooit';
+
 export function UsersPage() {
   const [users, setUsers] = useState<User[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
   const [newUserEmail, setNewUserEmail] = useState('');
+  const [newUserRole, setNewUserRole] = useState<Role>('viewer');
   const [loading, setLoading] = useState(true);
+  const [updatingUser, setUpdatingUser] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
 
   useEffect(() => {
     fetchUsers();
+    supabase.auth.getUser().then(({ data: { user } }) => setCurrentUserId(user?.id ?? null));
   }, []);
 
   const fetchUsers = async () => {
@@ -37,46 +57,69 @@ export function UsersPage() {
     }
   };
 
-  const handleAddUser = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const runAction = async (request: ManageUsersRequest, successMessage: string) => {
+    const userId = 'user_id' in request ? request.user_id : null;
+
     try {
-      // Eerst een uitnodiging sturen via Supabase Auth
-      const { data: inviteData, error: inviteError } = await supabase.auth.admin.inviteUserByEmail(newUserEmail);
-      if (inviteError) throw inviteError;
+      setUpdatingUser(userId);
+      setError(null);
+      setNotice(null);
+
+      await manageUsers(request);
 
-      // De gebruiker wordt automatisch toegevoegd aan de users tabel via de trigger
+      setNotice(successMessage);
       await fetchUsers();
-      setNewUserEmail('');
+      return true;
     } catch (err) {
-      console.error('Error adding user:', err);
-      setError('Er ging iets mis bij het toevoegen van de gebruiker.');
+      console.error(`Error in ${request.action}:`, err);
+      setError(err instanceof Error ? err.message : 'Er ging iets mis.');
+      return false;
+    } finally {
+      setUpdatingUser(null);
     }
   };
 
-  const handleDeleteUser = async (userId: string) => {
-    if (!confirm('Weet je zeker dat je deze gebruiker wilt verwijderen?')) return;
-
-    try {
-      // Verwijder eerst uit de users tabel
-      const { error: deleteError } = await supabase
-        .from('users')
-        .delete()
-        .eq('id', userId);
-      
-      if (deleteError) throw deleteError;
+  const handleAddUser = async (e: React.FormEvent) => {
+    e.preventDefault();
 
-      // Verwijder dan uit auth.users
-      const { error: authDeleteError } = await supabase.auth.admin.deleteUser(userId);
-      if (authDeleteError) throw authDeleteError;
+    // Uitnodigen gebeurt server-side; de users rij wordt aangemaakt door de trigger
+    const succeeded = await runAction(
+      { action: 'invite', email: newUserEmail, role: newUserRole },
+      `Uitnodiging verstuurd naar ${newUserEmail}.`
+    );
 
-      await fetchUsers();
-    } catch (err) {
-      console.error('Error deleting user:', err);
-      setError('Er ging iets mis bij het verwijderen van de gebruiker.');
+    if (succeeded) {
+      setNewUserEmail('');
+      setNewUserRole('viewer');
     }
   };
 
-  if (loading) {
+  const handleRevokeInvite = async (user: User) => {
+    if (!confirm(`Uitnodiging voor ${user.email} intrekken?`)) return;
+    await runAction({ action: 'revoke', user_id: user.id }, 'Uitnodiging ingetrokken.');
+  };
+
+  const handleToggleDeactivated = async (user: User) => {
+    const deactivate = user.status !== 'deactivated';
+    if (deactivate && !confirm(`${user.email} deactiveren? De gebruiker kan dan niet meer inloggen.`)) return;
+
+    await runAction(
+      { action: deactivate ? 'deactivate' : 'reactivate', user_id: user.id },
+      deactivate ? 'Gebruiker gedeactiveerd.' : 'Gebruiker geheractiveerd.'
+    );
+  };
+
+  const handleDeleteUser = async (userId: string) => {
+    if (!confirm('Weet je zeker dat je deze gebruiker wilt verwijderen?')) return;
+
+    // Verwijdert de auth gebruiker; de users rij volgt via ON DELETE CASCADE
+    await runAction({ action: 'delete', user_id: userId }, 'Gebruiker verwijderd.');
+  };
+
+  const pendingInvites = users.filter(user => user.status === 'invited');
+  const members = users.filter(user => user.status !== 'invited');
+
+  if (loading && users.length === 0) {
     return (
       <div className="p-4 flex justify-center">
         <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
@@ -85,8 +128,8 @@ export function UsersPage() {
   }
 
   return (
-    <div className="p-4 max-w-4xl mx-auto">
-      <div className="flex justify-between items-center mb-6">
+    <div className="p-4 max-w-5xl mx-auto space-y-6">
+      <div className="flex justify-between items-center">
         <h1 className="text-2xl font-bold">Gebruikers Beheren</h1>
         
         <form onSubmit={handleAddUser} className="flex gap-2">
@@ -98,47 +141,141 @@ export function UsersPage() {
             className="border rounded-md px-3 py-2"
             required
           />
+          <select
+            value={newUserRole}
+            onChange={(e) => setNewUserRole(e.target.value as Role)}
+            className="border rounded-md px-3 py-2"
+          >
+            {ROLES.map(role => (
+              <option key={role.value} value={role.value}>{role.label}</option>
+            ))}
+          </select>
           <button
             type="submit"
-            className="flex items-center gap-2 bg-blue-500 text-white px-4 py-2 rounded-md hover:bg-blue-600"
+            className="flex items-center gap-2 bg-[#ce861b] text-white px-4 py-2 rounded-md hover:bg-[#b67616]"
           >
             <Plus className="h-4 w-4" />
-            Gebruiker Toevoegen
+            Gebruiker Uitnodigen
           </button>
         </form>
       </div>
 
       {error && (
-        <div className="bg-red-50 text-red-500 p-4 rounded-md mb-4">
+        <div className="bg-red-50 text-red-500 p-4 rounded-md">
           {error}
         </div>
       )}
 
+      {notice && (
+        <div className="bg-green-50 text-green-700 p-4 rounded-md">
+          {notice}
+        </div>
+      )}
+
+      {pendingInvites.length > 0 && (
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <h2 className="px-6 py-3 text-lg font-semibold border-b">Openstaande uitnodigingen</h2>
+          <table className="w-full">
+            <thead>
+              <tr className="bg-gray-50">
+                <th className="px-6 py-3 text-left text-sm font-medium text-gray-500">Email</th>
+                <th className="px-6 py-3 text-left text-sm font-medium text-gray-500">Rol</th>
+                <th className="px-6 py-3 text-left text-sm font-medium text-gray-500">Uitgenodigd op</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {pendingInvites.map((user) => (
+                <tr key={user.id}>
+                  <td className="px-6 py-4 text-sm text-gray-900">{user.email}</td>
+                  <td className="px-6 py-4 text-sm text-gray-900">
+                    {ROLES.find(role => role.value === user.role)?.label ?? user.role}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-900">{formatDate(user.invited_at)}</td>
+                  <td className="px-6 py-4 text-right space-x-3">
+                    <button
+                      onClick={() => runAction({ action: 'resend', user_id: user.id }, `Uitnodiging opnieuw verstuurd naar ${user.email}.`)}
+                      disabled={updatingUser === user.id}
+                      className="text-gray-500 hover:text-gray-700 disabled:opacity-50"
+                      title="Opnieuw versturen"
+                    >
+                      <Send className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleRevokeInvite(user)}
+                      disabled={updatingUser === user.id}
+                      className="text-red-500 hover:text-red-700 disabled:opacity-50"
+                      title="Intrekken"
+                    >
+                      <XCircle className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
       <div className="bg-white rounded-lg shadow overflow-hidden">
         <table className="w-full">
           <thead>
             <tr className="bg-gray-50">
               <th className="px-6 py-3 text-left text-sm font-medium text-gray-500">Email</th>
               <th className="px-6 py-3 text-left text-sm font-medium text-gray-500">Rol</th>
+              <th className="px-6 py-3 text-left text-sm font-medium text-gray-500">Status</th>
+              <th className="px-6 py-3 text-left text-sm font-medium text-gray-500">Laatst ingelogd</th>
               <th className="px-6 py-3 text-left text-sm font-medium text-gray-500">Aangemaakt op</th>
               <th className="px-6 py-3"></th>
             </tr>
           </thead>
           <tbody className="divide-y divide-gray-200">
-            {users.map((user) => (
-              <tr key={user.id}>
+            {members.map((user) => (
+              <tr key={user.id} className={user.status === 'deactivated' ? 'opacity-60' : ''}>
                 <td className="px-6 py-4 text-sm text-gray-900">{user.email}</td>
-                <td className="px-6 py-4 text-sm text-gray-900">{user.role}</td>
+                <td className="px-6 py-4 text-sm text-gray-900">
+                  <select
+                    value={user.role}
+                    onChange={(e) => runAction(
+                      { action: 'update_role', user_id: user.id, role: e.target.value as Role },
+                      `Rol van ${user.email} gewijzigd.`
+                    )}
+                    disabled={updatingUser === user.id || user.id === currentUserId}
+                    className="border rounded-md px-2 py-1 disabled:opacity-50"
+                  >
+                    {ROLES.map(role => (
+                      <option key={role.value} value={role.value}>{role.label}</option>
+                    ))}
+                  </select>
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-900">{STATUS_LABELS[user.status]}</td>
+                <td className="px-6 py-4 text-sm text-gray-900">{formatDate(user.last_sign_in_at)}</td>
                 <td className="px-6 py-4 text-sm text-gray-900">
                   {new Date(user.created_at).toLocaleString('nl-NL')}
                 </td>
-                <td className="px-6 py-4 text-right">
-                  <button
-                    onClick={() => handleDeleteUser(user.id)}
-                    className="text-red-500 hover:text-red-700"
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </button>
+                <td className="px-6 py-4 text-right space-x-3">
+                  {user.id !== currentUserId && (
+                    <>
+                      <button
+                        onClick={() => handleToggleDeactivated(user)}
+                        disabled={updatingUser === user.id}
+                        className="text-gray-500 hover:text-gray-700 disabled:opacity-50"
+                        title={user.status === 'deactivated' ? 'Heractiveren' : 'Deactiveren'}
+                      >
+                        {user.status === 'deactivated'
+                          ? <UserCheck className="h-4 w-4" />
+                          : <UserX className="h-4 w-4" />}
+                      </button>
+                      <button
+                        onClick={() => handleDeleteUser(user.id)}
+                        disabled={updatingUser === user.id}
+                        className="text-red-500 hover:text-red-700 disabled:opacity-50"
+                        title="Verwijderen"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </>
+                  )}
                 </td>
               </tr>
             ))}
@@ -147,4 +284,4 @@ export function UsersPage() {
       </div>
     </div>
   );
-} 
\ No newline at end of file
+}
@@ -0,0 +1,16 @@
+import { EmailChannel, HttpEmailTransport, createAlertChannel } from '../../../src/lib/alertDelivery.ts';
+
+export * from '../../../src/lib/alertDelivery.ts';
+
+// Met een mail endpoint in de function secrets gaat e-mail echt de deur uit; zonder blijft het bij de logs
+export function createServerAlertChannel(name: string) {
+  const endpoint = Deno.env.get('ALERT_EMAIL_ENDPOINT');
+  if (name === 'email' && endpoint) {
+    return new EmailChannel(new HttpEmailTransport({
+      endpoint,
+      from: Deno.env.get('ALERT_EMAIL_FROM') || 'alerts@localhost',
+      apiKey: Deno.env.get('ALERT_EMAIL_API_KEY'),
+    }));
+  }
+  return createAlertChannel(name);
+}
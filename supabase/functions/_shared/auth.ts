@@ -0,0 +1,49 @@
+import type { AdminClient } from './supabaseAdmin.ts';
+import type { Role } from '../../../src/lib/roles.ts';
+
+export class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+/**
+ * Controleert de JWT en de rol in `users` van de aanroeper; gedeactiveerde gebruikers worden geweigerd.
+ * Geeft de gebruiker terug, of gooit een HttpError (401/403).
+ */
+export async function requireRole(req: Request, supabase: AdminClient, roles: readonly Role[]) {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) {
+    throw new HttpError(401, 'Missing authorization header');
+  }
+
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+  if (error || !user) {
+    throw new HttpError(401, 'Invalid or expired session');
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from('users')
+    .select('role, status')
+    .eq('id', user.id)
+    .single();
+
+  if (profileError || !profile || profile.status === 'deactivated' || !roles.includes(profile.role as Role)) {
+    throw new HttpError(403, 'Insufficient permissions');
+  }
+
+  return { id: user.id, email: user.email ?? null, role: profile.role as Role };
+}
+
+/**
+ * Herkent aanroepen door pg_cron: die sturen de Vault secret `cron_secret` mee in `x-cron-secret`
+ * (zie migratie `20250403090000_cron_key.sql`). Zonder secret `CRON_SECRET` is geen aanroep van cron.
+ */
+export function isCronRequest(req: Request) {
+  const secret = Deno.env.get('CRON_SECRET');
+  return !!secret && req.headers.get('x-cron-secret') === secret;
+}
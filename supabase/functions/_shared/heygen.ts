@@ -0,0 +1,11 @@
+import { DEFAULT_HEYGEN_API_BASE, HeyGenClient } from '../../../src/lib/heygenClient.ts';
+
+export * from '../../../src/lib/heygenClient.ts';
+
+// Server-side HeyGen client; de API key komt uit de function secrets in plaats van de browser
+export function createHeyGenClient() {
+  return new HeyGenClient({
+    apiKey: Deno.env.get('HEYGEN_API_KEY') ?? '',
+    baseUrl: Deno.env.get('HEYGEN_API_BASE') || DEFAULT_HEYGEN_API_BASE,
+  });
+}
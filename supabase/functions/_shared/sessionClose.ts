@@ -0,0 +1,56 @@
+import type { AdminClient } from './supabaseAdmin.ts';
+import { HeyGenApiError, type HeyGenClient } from './heygen.ts';
+import type { HeyGenSessionStatus, SessionCloseReason } from '../../../src/lib/database.types.ts';
+
+// Afsluiten van sessies, gedeeld door de sync (reconciliatie) en heygen-stop
+
+export interface OpenSession {
+  session_id: string;
+  start_time: string;
+}
+
+// Tijdstip van het laatste bericht, of de start van de sessie als er nog geen berichten zijn
+export async function fetchLastActivity(supabase: AdminClient, session: OpenSession) {
+  const { data, error } = await supabase
+    .from('messages')
+    .select('timestamp')
+    .eq('session_id', session.session_id)
+    .order('timestamp', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return new Date(data?.timestamp ?? session.start_time).getTime();
+}
+
+// Status bij HeyGen, of null als HeyGen de sessie niet (meer) kent
+export async function fetchHeyGenStatus(heygen: HeyGenClient, sessionId: string): Promise<HeyGenSessionStatus | null> {
+  try {
+    return await heygen.getSession(sessionId);
+  } catch (error) {
+    if (error instanceof HeyGenApiError && error.status === 404) return null;
+    throw error;
+  }
+}
+
+export async function closeSession(
+  supabase: AdminClient,
+  session: OpenSession,
+  { status, reason, endTime }: { status: 'completed' | 'error'; reason: SessionCloseReason; endTime: number }
+) {
+  // Een eindtijd vóór de start (klokverschil met HeyGen) zou een negatieve duur geven
+  const end = Math.max(endTime, new Date(session.start_time).getTime());
+
+  const { error } = await supabase
+    .from('sessions')
+    .update({
+      status,
+      heygen_status: status,
+      end_time: new Date(end).toISOString(),
+      close_reason: reason,
+      last_sync_at: new Date().toISOString(),
+    })
+    .eq('session_id', session.session_id);
+
+  if (error) throw error;
+}
@@ -0,0 +1,20 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import type { Database } from '../../../src/lib/database.types.ts';
+
+// Service role client: omzeilt RLS, dus alleen gebruiken in edge functions.
+// Met `actorId` worden wijzigingen in de audit log aan die gebruiker toegeschreven (zie audit_actor()).
+export function createAdminClient(actorId?: string) {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error('Missing Supabase environment variables');
+  }
+
+  return createClient<Database>(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false },
+    global: actorId ? { headers: { 'x-audit-actor': actorId } } : undefined,
+  });
+}
+
+export type AdminClient = ReturnType<typeof createAdminClient>;
@@ -0,0 +1,8 @@
+import { createTopicClassifier } from '../../../src/lib/topicClassifier.ts';
+
+export * from '../../../src/lib/topicClassifier.ts';
+
+// Welke classifier draait, komt uit de function secrets; zonder instelling de lokale keyword engine
+export function createServerTopicClassifier() {
+  return createTopicClassifier(Deno.env.get('TOPIC_CLASSIFIER') || 'keywords');
+}
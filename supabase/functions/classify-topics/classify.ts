@@ -0,0 +1,84 @@
+import type { AdminClient } from '../_shared/supabaseAdmin.ts';
+import type { TopicClassifier, TopicDefinition } from '../_shared/topicClassifier.ts';
+
+// Per run begrensd, zodat een herclassificatie van alle sessies over meerdere runs verdeeld wordt
+const BATCH_SIZE = 50;
+
+export interface ClassificationResult {
+  classified: number;
+  tagged: number;
+  failed: { session_id: string; error: string }[];
+}
+
+async function fetchActiveTopics(supabase: AdminClient): Promise<TopicDefinition[]> {
+  const { data, error } = await supabase
+    .from('topics')
+    .select('id, label, keywords')
+    .eq('is_active', true)
+    .order('position');
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+/**
+ * Classificeert het transcript van één sessie en vervangt de bestaande topics.
+ * Geeft het aantal toegekende topics terug.
+ */
+export async function classifySession(
+  supabase: AdminClient,
+  classifier: TopicClassifier,
+  sessionId: string,
+  topics?: TopicDefinition[]
+) {
+  const { data: messages, error: messagesError } = await supabase
+    .from('messages')
+    .select('sender, message')
+    .eq('session_id', sessionId)
+    .order('timestamp', { ascending: true });
+
+  if (messagesError) throw messagesError;
+
+  const matches = await classifier.classify(messages ?? [], topics ?? await fetchActiveTopics(supabase));
+
+  const { error: storeError } = await supabase.rpc('store_session_topics', {
+    p_session_id: sessionId,
+    p_classifier: classifier.name,
+    p_topics: matches.map(({ topic_id, score, matched_keywords }) => ({ topic_id, score, matched_keywords })),
+  });
+
+  if (storeError) throw storeError;
+  return matches.length;
+}
+
+// Alle afgeronde sessies zonder classificatie, tot BATCH_SIZE per run
+export async function classifyPendingSessions(
+  supabase: AdminClient,
+  classifier: TopicClassifier
+): Promise<ClassificationResult> {
+  const result: ClassificationResult = { classified: 0, tagged: 0, failed: [] };
+
+  const { data: pending, error: pendingError } = await supabase.rpc('pending_topic_classifications', {
+    max_sessions: BATCH_SIZE,
+  });
+
+  if (pendingError) throw pendingError;
+  if (!pending || pending.length === 0) return result;
+
+  const topics = await fetchActiveTopics(supabase);
+
+  for (const sessionId of pending) {
+    try {
+      result.tagged += await classifySession(supabase, classifier, sessionId, topics);
+      result.classified++;
+    } catch (error) {
+      console.error(`Error classifying session ${sessionId}:`, error);
+      result.failed.push({
+        session_id: sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return result;
+}
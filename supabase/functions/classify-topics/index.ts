@@ -0,0 +1,41 @@
+/*
+  # Topic classification worker
+
+  Kent aan afgeronde sessies topics uit de taxonomie (`topics`) toe op basis van het
+  transcript. Wordt elke 5 minuten aangeroepen door pg_cron (zie migratie
+  `20250325100000_topic_atlas.sql`) en on-demand vanuit de instellingen.
+
+  Body:
+    {}                      nog niet geclassificeerde sessies (per run maximaal 50)
+    { session_id: string }  één sessie (opnieuw) classificeren
+
+  Secrets:
+    TOPIC_CLASSIFIER  optioneel, naam van een geregistreerde classifier (default 'keywords')
+*/
+
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { createAdminClient } from '../_shared/supabaseAdmin.ts';
+import { createServerTopicClassifier } from '../_shared/topicClassifier.ts';
+import { classifyPendingSessions, classifySession } from './classify.ts';
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json().catch(() => ({})) as { session_id?: string };
+    const supabase = createAdminClient();
+    const classifier = createServerTopicClassifier();
+
+    if (body.session_id) {
+      const tagged = await classifySession(supabase, classifier, body.session_id);
+      return jsonResponse({ session_id: body.session_id, tagged });
+    }
+
+    return jsonResponse(await classifyPendingSessions(supabase, classifier));
+  } catch (error) {
+    console.error('Error in classify-topics:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Classification failed' }, 500);
+  }
+});
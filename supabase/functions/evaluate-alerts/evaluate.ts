@@ -0,0 +1,324 @@
+import type { AdminClient } from '../_shared/supabaseAdmin.ts';
+import type { AlertChannel, AlertNotification } from '../_shared/alertDelivery.ts';
+import type { AlertChannelName, Database } from '../../../src/lib/database.types.ts';
+import { chunk } from '../../../src/lib/chunk.ts';
+import {
+  describeAlertRule,
+  evaluateMessage,
+  evaluateSession,
+  evaluateSessionRate,
+  toAlertRule,
+  type AlertCandidate,
+  type AlertMessage,
+  type AlertRule,
+  type AlertSession,
+} from '../../../src/lib/alertRules.ts';
+
+// Per run begrensd; een grote sync wordt over meerdere runs verdeeld
+const EVENT_BATCH_SIZE = 500;
+// Aantal ids per `in` filter, zodat de request URL niet te lang wordt
+const FETCH_CHUNK_SIZE = 100;
+// Bezorgingen per run, inclusief nieuwe pogingen voor eerder mislukte
+const DELIVERY_BATCH_SIZE = 100;
+
+const OPEN_STATUSES = ['active', 'connecting', 'connected'] as const;
+
+type AlertRuleRow = Database['public']['Tables']['alert_rules']['Row'];
+type AlertRow = Database['public']['Tables']['alerts']['Row'];
+type DeliveryInsert = Database['public']['Tables']['alert_deliveries']['Insert'];
+
+export type ChannelFactory = (name: string) => AlertChannel;
+
+export interface EvaluationResult {
+  events: number;
+  alerts: number;
+  delivered: number;
+  failed: { alert_id: string; channel: string; error: string }[];
+}
+
+export interface TestDelivery {
+  channel: string;
+  status: 'sent' | 'failed';
+  error: string | null;
+}
+
+const externalChannels = (row: AlertRuleRow) =>
+  row.channels.filter((channel): channel is Exclude<AlertChannelName, 'in_app'> => channel !== 'in_app');
+
+function toNotification(alert: AlertRow, appUrl: string | null): AlertNotification {
+  return {
+    id: alert.id,
+    kind: alert.kind,
+    severity: alert.severity,
+    title: alert.title,
+    body: alert.body,
+    session_id: alert.session_id,
+    created_at: alert.created_at,
+    url: appUrl && alert.session_id ? `${appUrl.replace(/\/$/, '')}/sessions/${encodeURIComponent(alert.session_id)}` : null,
+  };
+}
+
+async function fetchAlerts(supabase: AdminClient, alertIds: string[]) {
+  const alerts: AlertRow[] = [];
+
+  for (const ids of chunk(alertIds, FETCH_CHUNK_SIZE)) {
+    const { data, error } = await supabase
+      .from('alerts')
+      .select('*')
+      .in('id', ids);
+
+    if (error) throw error;
+    alerts.push(...data ?? []);
+  }
+
+  return alerts;
+}
+
+async function fetchActiveRules(supabase: AdminClient) {
+  const { data, error } = await supabase
+    .from('alert_rules')
+    .select('*')
+    .eq('is_active', true);
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+async function fetchSessions(supabase: AdminClient, sessionIds: string[]) {
+  const sessions: AlertSession[] = [];
+
+  for (const ids of chunk(sessionIds, FETCH_CHUNK_SIZE)) {
+    const { data, error } = await supabase
+      .from('sessions')
+      .select('session_id, status, start_time, end_time')
+      .in('session_id', ids)
+      .is('deleted_at', null);
+
+    if (error) throw error;
+    sessions.push(...data ?? []);
+  }
+
+  return sessions;
+}
+
+async function fetchMessages(supabase: AdminClient, messageIds: string[]) {
+  const messages: AlertMessage[] = [];
+
+  for (const ids of chunk(messageIds, FETCH_CHUNK_SIZE)) {
+    const { data, error } = await supabase
+      .from('messages')
+      .select('id, session_id, message')
+      .in('id', ids);
+
+    if (error) throw error;
+    messages.push(...data ?? []);
+  }
+
+  return messages;
+}
+
+// Open sessies die al minstens zo lang lopen als de kortste long_session drempel
+async function fetchLongRunningSessions(supabase: AdminClient, minutes: number, now: number) {
+  const { data, error } = await supabase
+    .from('sessions')
+    .select('session_id, status, start_time, end_time')
+    .in('status', [...OPEN_STATUSES])
+    .is('end_time', null)
+    .is('deleted_at', null)
+    .lte('start_time', new Date(now - minutes * 60000).toISOString());
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+async function countStartedSessions(supabase: AdminClient, windowMinutes: number, now: number) {
+  const { count, error } = await supabase
+    .from('sessions')
+    .select('session_id', { count: 'exact', head: true })
+    .gte('start_time', new Date(now - windowMinutes * 60000).toISOString())
+    .is('deleted_at', null);
+
+  if (error) throw error;
+  return count ?? 0;
+}
+
+// Gewijzigde sessies en berichten uit de wachtrij, plus de regels die van de tijd afhangen
+async function collectCandidates(
+  supabase: AdminClient,
+  rules: AlertRule[],
+  events: { source: 'session' | 'message'; record_id: string }[],
+  now: number
+) {
+  // Een sessie kan zowel in de wachtrij als in de scan op lange sessies zitten
+  const candidates = new Map<string, AlertCandidate>();
+  const add = (candidate: AlertCandidate | null) => {
+    if (candidate) candidates.set(`${candidate.rule_id}:${candidate.dedupe_key}`, candidate);
+  };
+
+  const sessionIds = [...new Set(events.filter(event => event.source === 'session').map(event => event.record_id))];
+  const messageIds = [...new Set(events.filter(event => event.source === 'message').map(event => event.record_id))];
+
+  if (sessionIds.length > 0) {
+    for (const session of await fetchSessions(supabase, sessionIds)) {
+      for (const rule of rules) add(evaluateSession(rule, session, now));
+    }
+  }
+
+  if (messageIds.length > 0) {
+    for (const message of await fetchMessages(supabase, messageIds)) {
+      for (const rule of rules) add(evaluateMessage(rule, message));
+    }
+  }
+
+  const longSessionMinutes = rules.flatMap(rule => rule.config.kind === 'long_session' ? [rule.config.minutes] : []);
+  if (longSessionMinutes.length > 0) {
+    for (const session of await fetchLongRunningSessions(supabase, Math.min(...longSessionMinutes), now)) {
+      for (const rule of rules) add(evaluateSession(rule, session, now));
+    }
+  }
+
+  for (const rule of rules) {
+    if (rule.config.kind !== 'session_rate') continue;
+    add(evaluateSessionRate(rule, await countStartedSessions(supabase, rule.config.window_minutes, now), now));
+  }
+
+  return [...candidates.values()];
+}
+
+/**
+ * Verwerkt de wachtrij en de tijdgebonden regels. Een alert die al bestond (zelfde regel en
+ * dedupe_key) wordt niet opnieuw aangemaakt. Verwerkte events gaan pas uit de wachtrij als de
+ * alerts zijn opgeslagen, dus een mislukte run wordt de volgende keer herhaald.
+ */
+export async function evaluateAlerts(
+  supabase: AdminClient,
+  createChannel: ChannelFactory,
+  appUrl: string | null = null
+): Promise<EvaluationResult> {
+  const result: EvaluationResult = { events: 0, alerts: 0, delivered: 0, failed: [] };
+  const now = Date.now();
+
+  const { data: events, error: eventsError } = await supabase
+    .from('alert_events')
+    .select('id, source, record_id')
+    .order('id')
+    .limit(EVENT_BATCH_SIZE);
+
+  if (eventsError) throw eventsError;
+  result.events = events?.length ?? 0;
+
+  const ruleRows = await fetchActiveRules(supabase);
+  const candidates = await collectCandidates(supabase, ruleRows.map(toAlertRule), events ?? [], now);
+
+  if (candidates.length > 0) {
+    const { data, error } = await supabase
+      .from('alerts')
+      .upsert(candidates, { onConflict: 'rule_id,dedupe_key', ignoreDuplicates: true })
+      .select('id');
+
+    if (error) throw error;
+    result.alerts = data?.length ?? 0;
+  }
+
+  if (events && events.length > 0) {
+    const { error } = await supabase
+      .from('alert_events')
+      .delete()
+      .in('id', events.map(event => event.id));
+
+    if (error) throw error;
+  }
+
+  await deliverPendingAlerts(supabase, createChannel, new Map(ruleRows.map(row => [row.id, row])), appUrl, result);
+  return result;
+}
+
+/**
+ * Bezorgt de alerts die voor een e-mail- of webhookkanaal nog geen geslaagde bezorging hebben:
+ * de nieuwe alerts van deze run en eerder mislukte (zie `pending_alert_deliveries`). Elke poging
+ * wordt per alert vastgelegd, zodat een afgebroken run alleen de rest opnieuw probeert.
+ */
+async function deliverPendingAlerts(
+  supabase: AdminClient,
+  createChannel: ChannelFactory,
+  rulesById: Map<string, AlertRuleRow>,
+  appUrl: string | null,
+  result: EvaluationResult
+) {
+  const { data: pending, error: pendingError } = await supabase.rpc('pending_alert_deliveries', {
+    max_rows: DELIVERY_BATCH_SIZE,
+  });
+
+  if (pendingError) throw pendingError;
+  if (!pending || pending.length === 0) return;
+
+  const channelsByAlert = new Map<string, AlertChannelName[]>();
+  for (const { alert_id, channel } of pending) {
+    channelsByAlert.set(alert_id, [...channelsByAlert.get(alert_id) ?? [], channel]);
+  }
+
+  const channels = new Map<string, AlertChannel>();
+
+  for (const alert of await fetchAlerts(supabase, [...channelsByAlert.keys()])) {
+    const rule = alert.rule_id ? rulesById.get(alert.rule_id) : undefined;
+    if (!rule) continue;
+
+    const deliveries: DeliveryInsert[] = [];
+    for (const channelName of channelsByAlert.get(alert.id) ?? []) {
+      try {
+        if (!channels.has(channelName)) channels.set(channelName, createChannel(channelName));
+        await channels.get(channelName)!.deliver(toNotification(alert, appUrl), rule);
+        deliveries.push({ alert_id: alert.id, channel: channelName, status: 'sent' });
+        result.delivered++;
+      } catch (error) {
+        console.error(`Error delivering alert ${alert.id} via ${channelName}:`, error);
+        const message = error instanceof Error ? error.message : String(error);
+        deliveries.push({ alert_id: alert.id, channel: channelName, status: 'failed', error: message });
+        result.failed.push({ alert_id: alert.id, channel: channelName, error: message });
+      }
+    }
+
+    const { error } = await supabase.from('alert_deliveries').insert(deliveries);
+    if (error) throw error;
+  }
+}
+
+// Testmelding via de externe kanalen van één regel, zonder alert in de app
+export async function sendTestAlert(
+  supabase: AdminClient,
+  createChannel: ChannelFactory,
+  ruleId: string
+): Promise<TestDelivery[]> {
+  const { data: row, error } = await supabase
+    .from('alert_rules')
+    .select('*')
+    .eq('id', ruleId)
+    .single();
+
+  if (error) throw error;
+
+  const rule = toAlertRule(row);
+  const notification: AlertNotification = {
+    id: crypto.randomUUID(),
+    kind: rule.config.kind,
+    severity: rule.severity,
+    title: `Test: ${rule.name}`,
+    body: `Dit is een testmelding. ${describeAlertRule(rule.config)}.`,
+    session_id: null,
+    created_at: new Date().toISOString(),
+    url: null,
+  };
+
+  const deliveries: TestDelivery[] = [];
+  for (const channelName of externalChannels(row)) {
+    try {
+      await createChannel(channelName).deliver(notification, row);
+      deliveries.push({ channel: channelName, status: 'sent', error: null });
+    } catch (error) {
+      console.error(`Error sending test alert via ${channelName}:`, error);
+      deliveries.push({ channel: channelName, status: 'failed', error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return deliveries;
+}
@@ -0,0 +1,50 @@
+/*
+  # Alert evaluation worker
+
+  Toetst de actieve regels in `alert_rules` aan gewijzigde sessies en nieuwe berichten (de
+  wachtrij `alert_events`, gevuld door triggers) en aan de tijdgebonden regels, slaat nieuwe
+  meldingen op in `alerts` en bezorgt ze via e-mail en webhook. Mislukte bezorgingen worden de
+  volgende runs opnieuw geprobeerd. Wordt elke minuut aangeroepen door pg_cron (zie migratie
+  `20250330090000_watch_tower.sql`).
+
+  Body:
+    {}                   wachtrij en tijdgebonden regels evalueren
+    { rule_id: string }  testmelding via de externe kanalen van één regel (alleen admins)
+
+  Secrets:
+    ALERT_EMAIL_ENDPOINT  optioneel, HTTP mail API (bijvoorbeeld https://api.resend.com/emails of
+                          de lokale mock-alert-sink); zonder endpoint komen e-mails alleen in de logs
+    ALERT_EMAIL_API_KEY   optioneel, Bearer token voor de mail API
+    ALERT_EMAIL_FROM      optioneel, afzender (default 'alerts@localhost')
+    APP_URL               optioneel, basis-URL van het dashboard voor links naar sessies
+*/
+
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { createAdminClient } from '../_shared/supabaseAdmin.ts';
+import { HttpError, requireRole } from '../_shared/auth.ts';
+import { createServerAlertChannel } from '../_shared/alertDelivery.ts';
+import { PERMISSIONS } from '../../../src/lib/roles.ts';
+import { evaluateAlerts, sendTestAlert } from './evaluate.ts';
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json().catch(() => ({})) as { rule_id?: string };
+    const supabase = createAdminClient();
+
+    if (body.rule_id) {
+      await requireRole(req, supabase, PERMISSIONS.manageSettings);
+      const deliveries = await sendTestAlert(supabase, createServerAlertChannel, body.rule_id);
+      return jsonResponse({ rule_id: body.rule_id, deliveries });
+    }
+
+    return jsonResponse(await evaluateAlerts(supabase, createServerAlertChannel, Deno.env.get('APP_URL') || null));
+  } catch (error) {
+    console.error('Error in evaluate-alerts:', error);
+    const status = error instanceof HttpError ? error.status : 500;
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Evaluation failed' }, status);
+  }
+});
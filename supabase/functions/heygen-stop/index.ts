@@ -0,0 +1,81 @@
+/*
+  # Stop a live HeyGen session
+
+  Stopt een sessie bij HeyGen en sluit hem af in Supabase. Kent HeyGen de sessie niet meer,
+  dan wordt hij afgesloten op het laatste bericht, net als door de sync (`not_found`).
+  Alleen beschikbaar voor gebruikers met de rol `admin`.
+
+  Body:
+    { session_id: string }
+*/
+
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { createAdminClient } from '../_shared/supabaseAdmin.ts';
+import { HttpError, requireRole } from '../_shared/auth.ts';
+import { createHeyGenClient, HeyGenError } from '../_shared/heygen.ts';
+import { closeSession, fetchHeyGenStatus, fetchLastActivity } from '../_shared/sessionClose.ts';
+import { PERMISSIONS } from '../../../src/lib/roles.ts';
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const actor = await requireRole(req, createAdminClient(), PERMISSIONS.stopSessions);
+    const supabase = createAdminClient(actor.id);
+
+    const { session_id: sessionId } = await req.json().catch(() => ({})) as { session_id?: string };
+    if (!sessionId) {
+      throw new HttpError(400, 'session_id is required');
+    }
+
+    const heygen = createHeyGenClient();
+    const heygenSession = await fetchHeyGenStatus(heygen, sessionId);
+
+    if (!heygenSession) {
+      const { data: session, error } = await supabase
+        .from('sessions')
+        .select('session_id, start_time')
+        .eq('session_id', sessionId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!session) {
+        throw new HttpError(404, 'Session not found');
+      }
+
+      await closeSession(supabase, session, {
+        status: 'completed',
+        reason: 'not_found',
+        endTime: await fetchLastActivity(supabase, session),
+      });
+      return jsonResponse({ session_id: sessionId, status: 'completed' });
+    }
+
+    if (heygenSession.status !== 'completed') {
+      await heygen.stopSession(sessionId);
+    }
+
+    // Al afgelopen bij HeyGen: de echte eindtijd (seconden sinds epoch) in plaats van nu
+    const now = new Date().toISOString();
+    const { error } = await supabase
+      .from('sessions')
+      .update({
+        status: 'completed',
+        heygen_status: 'completed',
+        end_time: heygenSession.ended_at ? new Date(heygenSession.ended_at * 1000).toISOString() : now,
+        close_reason: 'stopped',
+        last_sync_at: now,
+      })
+      .eq('session_id', sessionId);
+
+    if (error) throw error;
+
+    return jsonResponse({ session_id: sessionId, status: 'completed' });
+  } catch (error) {
+    console.error('Error in heygen-stop:', error);
+    const status = error instanceof HttpError ? error.status : error instanceof HeyGenError ? 502 : 500;
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Stop failed' }, status);
+  }
+});
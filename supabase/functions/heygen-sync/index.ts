@@ -0,0 +1,59 @@
+/*
+  # HeyGen sync worker
+
+  Reconciliatie van sessies en berichten met HeyGen, server-side in plaats van
+  in elke open browsertab. Wordt elke 30 seconden aangeroepen door pg_cron
+  (zie migratie `20250312090000_steady_harbor.sql`) en on-demand vanuit het dashboard.
+  Sessies die bij HeyGen zijn afgelopen of langer dan `app_settings.session_idle_timeout_minutes`
+  stil zijn worden daarbij afgesloten, met de reden in `sessions.close_reason`.
+
+  Body:
+    {}                      alle open sessies reconciliëren (pg_cron of admins)
+    { session_id: string }  alleen de berichten van één sessie synchroniseren (ingelogde gebruikers)
+
+  Secrets:
+    HEYGEN_API_KEY   verplicht
+    CRON_SECRET      verplicht voor pg_cron, gelijk aan de Vault secret `cron_secret`
+    HEYGEN_API_BASE  optioneel, bijvoorbeeld de lokale mock server
+*/
+
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { createAdminClient } from '../_shared/supabaseAdmin.ts';
+import { HttpError, isCronRequest, requireRole } from '../_shared/auth.ts';
+import { createHeyGenClient, HeyGenError } from '../_shared/heygen.ts';
+import { reconcileSessions, syncSessionMessages } from './sync.ts';
+import { PERMISSIONS } from '../../../src/lib/roles.ts';
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json().catch(() => ({})) as { session_id?: string };
+    const supabase = createAdminClient();
+    const heygen = createHeyGenClient();
+
+    if (body.session_id) {
+      await requireRole(req, supabase, PERMISSIONS.syncSessions);
+      const inserted = await syncSessionMessages(supabase, heygen, body.session_id);
+      await supabase
+        .from('sessions')
+        .update({ last_sync_at: new Date().toISOString() })
+        .eq('session_id', body.session_id);
+
+      return jsonResponse({ session_id: body.session_id, inserted });
+    }
+
+    // Een volledige reconciliatie sluit sessies af, dus alleen voor pg_cron en admins
+    if (!isCronRequest(req)) {
+      await requireRole(req, supabase, PERMISSIONS.reconcileSessions);
+    }
+
+    return jsonResponse(await reconcileSessions(supabase, heygen));
+  } catch (error) {
+    console.error('Error in heygen-sync:', error);
+    const status = error instanceof HttpError ? error.status : error instanceof HeyGenError ? 502 : 500;
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Sync failed' }, status);
+  }
+});
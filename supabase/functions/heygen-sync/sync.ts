@@ -0,0 +1,200 @@
+import type { AdminClient } from '../_shared/supabaseAdmin.ts';
+import type { HeyGenClient } from '../_shared/heygen.ts';
+import { closeSession, fetchHeyGenStatus, fetchLastActivity, type OpenSession } from '../_shared/sessionClose.ts';
+import type { SessionCloseReason } from '../../../src/lib/database.types.ts';
+import { chunk } from '../../../src/lib/chunk.ts';
+
+const OPEN_STATUSES = ['active', 'connecting', 'connected'] as const;
+
+// Aantal ids per `in` filter, zodat de request URL niet te lang wordt
+const FETCH_CHUNK_SIZE = 100;
+
+// Zelfde default als de kolom in app_settings
+const DEFAULT_IDLE_TIMEOUT_MINUTES = 30;
+
+export interface SyncResult {
+  checked: number;
+  synced: number;
+  closed: Partial<Record<SessionCloseReason, number>>;
+  failed: { session_id: string; error: string }[];
+}
+
+// HeyGen ids die al in `messages` staan; die rijen vallen onder idx_messages_session_external_id
+async function fetchKnownExternalIds(supabase: AdminClient, sessionId: string, externalIds: string[]) {
+  const known = new Set<string>();
+
+  for (const ids of chunk(externalIds, FETCH_CHUNK_SIZE)) {
+    const { data, error } = await supabase
+      .from('messages')
+      .select('external_id')
+      .eq('session_id', sessionId)
+      .in('external_id', ids);
+
+    if (error) throw error;
+    for (const row of data ?? []) {
+      if (row.external_id) known.add(row.external_id);
+    }
+  }
+
+  return known;
+}
+
+/**
+ * Haalt berichten vanaf de `sync_cursor` van de sessie op en upsert ze op de
+ * unieke sleutel (session_id, timestamp, sender, message_hash). Een herhaalde
+ * sync is daardoor idempotent, en herhaalde uitingen met een ander tijdstip blijven behouden.
+ * Een bericht met een HeyGen id dat er al is wordt overgeslagen, ook als het tijdstip of de
+ * tekst intussen anders is; anders faalt de hele batch op de unieke index op external_id.
+ */
+export async function syncSessionMessages(supabase: AdminClient, heygen: HeyGenClient, sessionId: string) {
+  const { data: session, error: fetchError } = await supabase
+    .from('sessions')
+    .select('sync_cursor')
+    .eq('session_id', sessionId)
+    .single();
+
+  if (fetchError) throw fetchError;
+
+  const since = session.sync_cursor ? new Date(session.sync_cursor).getTime() : undefined;
+  const messages = await heygen.getMessages(sessionId, { since });
+
+  if (messages.length === 0) return 0;
+
+  const externalIds = [...new Set(messages.flatMap(message => message.id ? [message.id] : []))];
+  const seen = await fetchKnownExternalIds(supabase, sessionId, externalIds);
+  const newMessages = messages.filter(message => {
+    if (!message.id) return true;
+    if (seen.has(message.id)) return false;
+    seen.add(message.id);
+    return true;
+  });
+
+  let inserted = 0;
+  if (newMessages.length > 0) {
+    const { data, error: upsertError } = await supabase
+      .from('messages')
+      .upsert(
+        newMessages.map(message => ({
+          session_id: sessionId,
+          external_id: message.id ?? null,
+          sender: message.role === 'user' ? 'user' as const : 'avatar' as const,
+          message: message.content,
+          timestamp: new Date(message.timestamp).toISOString(),
+        })),
+        { onConflict: 'session_id,timestamp,sender,message_hash', ignoreDuplicates: true }
+      )
+      .select('id');
+
+    if (upsertError) throw upsertError;
+    inserted = data?.length ?? 0;
+  }
+
+  // Cursor is inclusief, zodat berichten met hetzelfde tijdstip als de laatste niet gemist worden
+  const cursor = Math.max(...messages.map(message => message.timestamp));
+  const { error: cursorError } = await supabase
+    .from('sessions')
+    .update({ sync_cursor: new Date(cursor).toISOString() })
+    .eq('session_id', sessionId);
+
+  if (cursorError) throw cursorError;
+
+  return inserted;
+}
+
+async function fetchIdleTimeoutMinutes(supabase: AdminClient) {
+  const { data, error } = await supabase
+    .from('app_settings')
+    .select('session_idle_timeout_minutes')
+    .eq('id', true)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.session_idle_timeout_minutes ?? DEFAULT_IDLE_TIMEOUT_MINUTES;
+}
+
+/**
+ * Vergelijkt alle open sessies in Supabase met de actieve sessies in HeyGen.
+ *
+ * Sessies die HeyGen niet meer als actief toont worden afgesloten op de eindtijd die HeyGen
+ * rapporteert, of anders op het laatste bericht; een mislukte sessie krijgt status `error`.
+ * Actieve sessies krijgen nieuwe berichten, en worden na de ingestelde idle timeout zonder
+ * berichten bij HeyGen gestopt. Bij elke afgesloten sessie wordt de reden vastgelegd.
+ */
+export async function reconcileSessions(supabase: AdminClient, heygen: HeyGenClient): Promise<SyncResult> {
+  const result: SyncResult = { checked: 0, synced: 0, closed: {}, failed: [] };
+
+  const { data: openSessions, error: fetchError } = await supabase
+    .from('sessions')
+    .select('session_id, start_time')
+    .in('status', [...OPEN_STATUSES])
+    .is('end_time', null);
+
+  if (fetchError) throw fetchError;
+  if (!openSessions || openSessions.length === 0) return result;
+
+  const [heygenSessions, idleTimeoutMinutes] = await Promise.all([
+    heygen.listSessions(),
+    fetchIdleTimeoutMinutes(supabase),
+  ]);
+  const activeHeygenSessionIds = new Set(heygenSessions.map(s => s.session_id));
+
+  const close = async (session: OpenSession, status: 'completed' | 'error', reason: SessionCloseReason, endTime: number) => {
+    await closeSession(supabase, session, { status, reason, endTime });
+    result.closed[reason] = (result.closed[reason] ?? 0) + 1;
+  };
+
+  for (const session of openSessions) {
+    result.checked++;
+
+    try {
+      if (!activeHeygenSessionIds.has(session.session_id)) {
+        const heygenSession = await fetchHeyGenStatus(heygen, session.session_id);
+
+        if (!heygenSession) {
+          await close(session, 'completed', 'not_found', await fetchLastActivity(supabase, session));
+          continue;
+        }
+
+        // Laatste berichten ophalen zolang HeyGen ze nog heeft
+        await syncSessionMessages(supabase, heygen, session.session_id);
+
+        // ended_at is in seconden sinds epoch
+        const endTime = heygenSession.ended_at
+          ? heygenSession.ended_at * 1000
+          : await fetchLastActivity(supabase, session);
+
+        if (heygenSession.status === 'error') {
+          await close(session, 'error', 'heygen_error', endTime);
+        } else {
+          await close(session, 'completed', 'heygen_ended', endTime);
+        }
+        continue;
+      }
+
+      await syncSessionMessages(supabase, heygen, session.session_id);
+
+      const lastActivity = await fetchLastActivity(supabase, session);
+      if (Date.now() - lastActivity > idleTimeoutMinutes * 60000) {
+        await heygen.stopSession(session.session_id);
+        await close(session, 'completed', 'idle_timeout', lastActivity);
+        continue;
+      }
+
+      const { error } = await supabase
+        .from('sessions')
+        .update({ heygen_status: 'active', last_sync_at: new Date().toISOString() })
+        .eq('session_id', session.session_id);
+
+      if (error) throw error;
+      result.synced++;
+    } catch (error) {
+      console.error(`Error syncing session ${session.session_id}:`, error);
+      result.failed.push({
+        session_id: session.session_id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,219 @@
+/*
+  # User management
+
+  Privileged user beheer; de browser heeft geen toegang tot `auth.admin`.
+  Alleen beschikbaar voor gebruikers met de rol `admin`.
+
+  Body:
+    { action: 'invite', email: string, role: Role }
+    { action: 'resend', user_id: string }            uitnodiging opnieuw versturen
+    { action: 'revoke', user_id: string }            openstaande uitnodiging intrekken
+    { action: 'update_role', user_id: string, role: Role }
+    { action: 'deactivate', user_id: string }        blokkeert inloggen, behoudt het account
+    { action: 'reactivate', user_id: string }
+    { action: 'delete', user_id: string }
+*/
+
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { createAdminClient, type AdminClient } from '../_shared/supabaseAdmin.ts';
+import { HttpError, requireRole } from '../_shared/auth.ts';
+import { PERMISSIONS, ROLES, type Role } from '../../../src/lib/roles.ts';
+
+type ManageUsersRequest =
+  | { action: 'invite'; email: string; role: Role }
+  | { action: 'resend' | 'revoke' | 'deactivate' | 'reactivate' | 'delete'; user_id: string }
+  | { action: 'update_role'; user_id: string; role: Role };
+
+const VALID_ROLES = new Set(ROLES.map(r => r.value));
+
+// Supabase kent geen permanente ban; 100 jaar komt daar in de praktijk op neer
+const DEACTIVATED_BAN_DURATION = '876000h';
+
+async function getUser(supabase: AdminClient, userId: string) {
+  const { data, error } = await supabase
+    .from('users')
+    .select('id, email, role, status')
+    .eq('id', userId)
+    .single();
+
+  if (error || !data) throw new HttpError(404, 'User not found');
+  return data;
+}
+
+// Voorkomt dat de laatste actieve admin zichzelf of een ander buitensluit
+async function assertNotLastAdmin(supabase: AdminClient, userId: string) {
+  const { count, error } = await supabase
+    .from('users')
+    .select('id', { count: 'exact', head: true })
+    .eq('role', 'admin')
+    .eq('status', 'active')
+    .neq('id', userId);
+
+  if (error) throw error;
+  if (!count) {
+    throw new HttpError(400, 'There must be at least one active admin');
+  }
+}
+
+/**
+ * Verwijdert de gebruiker via GoTrue; de users rij verdwijnt via ON DELETE CASCADE. GoTrue
+ * draait buiten PostgREST, dus de audit regel wordt hier geschreven met de admin als actor.
+ */
+async function deleteAuthUser(
+  supabase: AdminClient,
+  user: Awaited<ReturnType<typeof getUser>>,
+  action: 'user.deleted' | 'user.invite_revoked',
+  actorId: string
+) {
+  const { error } = await supabase.auth.admin.deleteUser(user.id);
+  if (error) throw new HttpError(400, error.message);
+
+  const { error: auditError } = await supabase.rpc('write_audit_log', {
+    p_actor_id: actorId,
+    p_action: action,
+    p_entity_type: 'user',
+    p_entity_id: user.id,
+    p_session_id: null,
+    p_before: { email: user.email, role: user.role, status: user.status },
+    p_after: null,
+  });
+  if (auditError) throw auditError;
+}
+
+async function inviteUser(supabase: AdminClient, email: string, role: Role, actorId: string) {
+  if (!email || !email.includes('@')) {
+    throw new HttpError(400, 'Invalid email address');
+  }
+  if (!VALID_ROLES.has(role)) {
+    throw new HttpError(400, 'Invalid role');
+  }
+
+  const { data, error } = await supabase.auth.admin.inviteUserByEmail(email);
+  if (error) throw new HttpError(400, error.message);
+
+  // De users rij wordt aangemaakt door de on_auth_user_created trigger (als viewer)
+  const { error: roleError } = await supabase
+    .from('users')
+    .update({ role, invited_by: actorId })
+    .eq('id', data.user.id);
+
+  if (roleError) throw roleError;
+
+  return { user_id: data.user.id };
+}
+
+async function resendInvite(supabase: AdminClient, userId: string) {
+  const user = await getUser(supabase, userId);
+  if (user.status !== 'invited') {
+    throw new HttpError(400, 'User has already accepted the invitation');
+  }
+
+  const { error } = await supabase.auth.admin.inviteUserByEmail(user.email);
+  if (error) throw new HttpError(400, error.message);
+
+  return { user_id: userId };
+}
+
+async function revokeInvite(supabase: AdminClient, userId: string, actorId: string) {
+  const user = await getUser(supabase, userId);
+  if (user.status !== 'invited') {
+    throw new HttpError(400, 'Only pending invitations can be revoked');
+  }
+
+  await deleteAuthUser(supabase, user, 'user.invite_revoked', actorId);
+  return { user_id: userId };
+}
+
+async function updateRole(supabase: AdminClient, userId: string, role: Role) {
+  if (!VALID_ROLES.has(role)) {
+    throw new HttpError(400, 'Invalid role');
+  }
+
+  const user = await getUser(supabase, userId);
+  if (user.role === 'admin' && role !== 'admin') {
+    await assertNotLastAdmin(supabase, userId);
+  }
+
+  const { error } = await supabase
+    .from('users')
+    .update({ role })
+    .eq('id', userId);
+
+  if (error) throw error;
+  return { user_id: userId, role };
+}
+
+async function setDeactivated(supabase: AdminClient, userId: string, deactivated: boolean, actorId: string) {
+  if (userId === actorId) {
+    throw new HttpError(400, 'You cannot deactivate your own account');
+  }
+
+  const user = await getUser(supabase, userId);
+  if (deactivated && user.role === 'admin') {
+    await assertNotLastAdmin(supabase, userId);
+  }
+
+  const { error: banError } = await supabase.auth.admin.updateUserById(userId, {
+    ban_duration: deactivated ? DEACTIVATED_BAN_DURATION : 'none',
+  });
+  if (banError) throw new HttpError(400, banError.message);
+
+  const { error } = await supabase
+    .from('users')
+    .update(deactivated
+      ? { status: 'deactivated', deactivated_at: new Date().toISOString() }
+      : { status: 'active', deactivated_at: null })
+    .eq('id', userId);
+
+  if (error) throw error;
+  return { user_id: userId, status: deactivated ? 'deactivated' : 'active' };
+}
+
+async function deleteUser(supabase: AdminClient, userId: string, actorId: string) {
+  if (userId === actorId) {
+    throw new HttpError(400, 'You cannot delete your own account');
+  }
+
+  const user = await getUser(supabase, userId);
+  if (user.role === 'admin') {
+    await assertNotLastAdmin(supabase, userId);
+  }
+
+  await deleteAuthUser(supabase, user, 'user.deleted', actorId);
+  return { user_id: userId };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const actor = await requireRole(req, createAdminClient(), PERMISSIONS.manageUsers);
+    const supabase = createAdminClient(actor.id);
+    const body = await req.json().catch(() => ({})) as ManageUsersRequest;
+
+    switch (body.action) {
+      case 'invite':
+        return jsonResponse(await inviteUser(supabase, body.email?.trim().toLowerCase(), body.role, actor.id));
+      case 'resend':
+        return jsonResponse(await resendInvite(supabase, body.user_id));
+      case 'revoke':
+        return jsonResponse(await revokeInvite(supabase, body.user_id, actor.id));
+      case 'update_role':
+        return jsonResponse(await updateRole(supabase, body.user_id, body.role));
+      case 'deactivate':
+        return jsonResponse(await setDeactivated(supabase, body.user_id, true, actor.id));
+      case 'reactivate':
+        return jsonResponse(await setDeactivated(supabase, body.user_id, false, actor.id));
+      case 'delete':
+        return jsonResponse(await deleteUser(supabase, body.user_id, actor.id));
+      default:
+        throw new HttpError(400, 'Unknown action');
+    }
+  } catch (error) {
+    console.error('Error in manage-users:', error);
+    const status = error instanceof HttpError ? error.status : 500;
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Request failed' }, status);
+  }
+});
@@ -0,0 +1,77 @@
+/*
+  # Schedule server-side HeyGen sync
+
+  1. Changes
+    - Enable `pg_cron` and `pg_net` extensions
+    - Add `invoke_heygen_sync()` function that calls the `heygen-sync` edge function
+    - Schedule the sync every 30 seconds, replacing the 10 second polling in the browser
+    - Add `sessions` and `messages` to the realtime publication so the dashboard
+      only needs to read and subscribe
+
+  2. Configuration
+    - Expects Vault secrets `project_url` and `anon_key`:
+        SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+        SELECT vault.create_secret('<anon key>', 'anon_key');
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+CREATE OR REPLACE FUNCTION invoke_heygen_sync()
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  project_url text;
+  anon_key text;
+BEGIN
+  SELECT decrypted_secret INTO project_url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO anon_key FROM vault.decrypted_secrets WHERE name = 'anon_key';
+
+  IF project_url IS NULL OR anon_key IS NULL THEN
+    RAISE WARNING 'invoke_heygen_sync: vault secrets project_url/anon_key not configured';
+    RETURN NULL;
+  END IF;
+
+  RETURN net.http_post(
+    url := project_url || '/functions/v1/heygen-sync',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || anon_key
+    ),
+    body := '{}'::jsonb
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION invoke_heygen_sync() FROM PUBLIC, anon, authenticated;
+
+-- Replace an existing schedule instead of adding a second one
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'heygen-sync') THEN
+    PERFORM cron.unschedule('heygen-sync');
+  END IF;
+END $$;
+
+SELECT cron.schedule('heygen-sync', '30 seconds', 'SELECT invoke_heygen_sync()');
+
+-- Realtime for the dashboard
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'sessions'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE sessions;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'messages'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE messages;
+  END IF;
+END $$;
@@ -0,0 +1,53 @@
+/*
+  # Idempotent message ingestion
+
+  1. Changes
+    - Add `external_id` to `messages` for the HeyGen message id
+    - Add `message_hash` generated column (md5 of the message text)
+    - Remove exact duplicates and add a unique key on
+      (`session_id`, `timestamp`, `sender`, `message_hash`) so the sync worker can upsert
+    - Add `sync_cursor` to `sessions`: timestamp of the newest ingested message,
+      used for incremental syncs
+
+  2. Notes
+    - Repeated utterances ("ja", "dank je") are no longer dropped: they only collide
+      when sender, text and timestamp are all identical
+*/
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS external_id text,
+ADD COLUMN IF NOT EXISTS message_hash text GENERATED ALWAYS AS (md5(message)) STORED;
+
+-- Remove duplicates that would violate the new key, keeping the oldest row
+DELETE FROM messages m
+USING messages d
+WHERE m.session_id = d.session_id
+  AND m.timestamp = d.timestamp
+  AND m.sender = d.sender
+  AND m.message = d.message
+  AND (m.created_at, m.id) > (d.created_at, d.id);
+
+ALTER TABLE messages
+DROP CONSTRAINT IF EXISTS messages_identity_key;
+
+ALTER TABLE messages
+ADD CONSTRAINT messages_identity_key
+UNIQUE (session_id, timestamp, sender, message_hash);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_messages_session_external_id
+ON messages(session_id, external_id)
+WHERE external_id IS NOT NULL;
+
+ALTER TABLE sessions
+ADD COLUMN IF NOT EXISTS sync_cursor timestamptz;
+
+-- Start the cursor at the newest message we already have
+UPDATE sessions s
+SET sync_cursor = latest.max_timestamp
+FROM (
+  SELECT session_id, max(timestamp) AS max_timestamp
+  FROM messages
+  GROUP BY session_id
+) latest
+WHERE latest.session_id = s.session_id
+  AND s.sync_cursor IS NULL;
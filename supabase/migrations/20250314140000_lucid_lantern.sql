@@ -0,0 +1,63 @@
+/*
+  # Full-text search on chat transcripts
+
+  1. Changes
+    - Add `message_tsv` generated tsvector column on `messages` using the `dutch` config
+    - Add GIN index on `message_tsv`
+    - Add `search_messages(search_query, max_results)` RPC returning matching messages
+      with a highlighted snippet, ranked by relevance
+
+  2. Notes
+    - `search_query` uses websearch syntax: `promotie-traject OR subsidie`, `"eigen bijdrage"`, `-test`
+    - Highlights are wrapped in `<mark>`/`</mark>`; the UI renders them as text, not HTML
+    - Runs as SECURITY INVOKER so the existing RLS policies apply
+    - Trashed sessions are excluded
+*/
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS message_tsv tsvector
+GENERATED ALWAYS AS (to_tsvector('dutch', coalesce(message, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_messages_message_tsv ON messages USING gin(message_tsv);
+
+CREATE OR REPLACE FUNCTION search_messages(search_query text, max_results integer DEFAULT 100)
+RETURNS TABLE (
+  message_id uuid,
+  session_id text,
+  sender text,
+  "timestamp" timestamptz,
+  session_start_time timestamptz,
+  snippet text,
+  rank real
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('dutch', search_query) AS q
+  )
+  SELECT
+    m.id AS message_id,
+    m.session_id,
+    m.sender,
+    m.timestamp,
+    s.start_time AS session_start_time,
+    ts_headline(
+      'dutch',
+      m.message,
+      query.q,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "'
+    ) AS snippet,
+    ts_rank(m.message_tsv, query.q) AS rank
+  FROM messages m
+  JOIN sessions s ON s.session_id = m.session_id
+  CROSS JOIN query
+  WHERE m.message_tsv @@ query.q
+    AND s.deleted_at IS NULL
+  ORDER BY rank DESC, m.timestamp DESC
+  LIMIT greatest(1, least(max_results, 500));
+$$;
+
+GRANT EXECUTE ON FUNCTION search_messages(text, integer) TO authenticated;
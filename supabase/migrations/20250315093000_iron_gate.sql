@@ -0,0 +1,150 @@
+/*
+  # Role-based access control
+
+  1. New Tables
+    - `users`
+      - `id` (uuid, primary key, references auth.users)
+      - `email` (text)
+      - `role` (text, one of `admin`, `analyst`, `viewer`)
+      - `created_at` (timestamp)
+
+  2. Changes
+    - Add `handle_new_user()` trigger on `auth.users` that creates the `users` row (role `viewer`)
+    - Backfill existing auth users as `viewer`; the oldest user becomes `admin`
+    - Add `current_user_role()` helper for policies
+    - Add `enforce_session_permissions()` trigger: analysts may only change
+      `is_relevant` and `is_archived`; everything else (trash, restore, status) is admin-only
+
+  3. Security
+    - Replace the permissive `"Users can update sessions"` / `"Users can update session flags"` policies
+    - Viewers: read-only
+    - Analysts: star/archive sessions
+    - Admins: everything, including hard delete
+    - `users` is readable by the user itself and by admins; writes go through the
+      `manage-users` edge function (service role)
+*/
+
+CREATE TABLE IF NOT EXISTS users (
+    id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    email text NOT NULL,
+    role text NOT NULL DEFAULT 'viewer' CHECK (role IN ('admin', 'analyst', 'viewer')),
+    created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_users_role ON users(role);
+
+-- Create a users row for every new auth user
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO users (id, email)
+  VALUES (NEW.id, NEW.email)
+  ON CONFLICT (id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_new_user();
+
+-- Backfill existing auth users
+INSERT INTO users (id, email, created_at)
+SELECT id, email, created_at
+FROM auth.users
+ON CONFLICT (id) DO NOTHING;
+
+-- Make sure someone can manage users after this migration
+UPDATE users
+SET role = 'admin'
+WHERE id = (SELECT id FROM users ORDER BY created_at, id LIMIT 1)
+  AND NOT EXISTS (SELECT 1 FROM users WHERE role = 'admin');
+
+-- Role of the calling user; SECURITY DEFINER so policies on `users` don't recurse
+CREATE OR REPLACE FUNCTION current_user_role()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM users WHERE id = auth.uid();
+$$;
+
+GRANT EXECUTE ON FUNCTION current_user_role() TO authenticated;
+
+-- Users policies
+ALTER TABLE users ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read own row" ON users;
+CREATE POLICY "Users can read own row"
+  ON users
+  FOR SELECT
+  TO authenticated
+  USING (id = auth.uid());
+
+DROP POLICY IF EXISTS "Admins can read all users" ON users;
+CREATE POLICY "Admins can read all users"
+  ON users
+  FOR SELECT
+  TO authenticated
+  USING (current_user_role() = 'admin');
+
+-- Sessions policies
+DROP POLICY IF EXISTS "Users can update session flags" ON sessions;
+DROP POLICY IF EXISTS "Users can update sessions" ON sessions;
+
+DROP POLICY IF EXISTS "Analysts and admins can update sessions" ON sessions;
+CREATE POLICY "Analysts and admins can update sessions"
+  ON sessions
+  FOR UPDATE
+  TO authenticated
+  USING (current_user_role() IN ('admin', 'analyst'))
+  WITH CHECK (current_user_role() IN ('admin', 'analyst'));
+
+DROP POLICY IF EXISTS "Admins can delete sessions" ON sessions;
+CREATE POLICY "Admins can delete sessions"
+  ON sessions
+  FOR DELETE
+  TO authenticated
+  USING (current_user_role() = 'admin');
+
+-- RLS can't restrict columns, so analysts are limited to the annotation flags here
+CREATE OR REPLACE FUNCTION enforce_session_permissions()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Service role and database jobs have no auth.uid()
+  IF auth.uid() IS NULL OR current_user_role() = 'admin' THEN
+    RETURN NEW;
+  END IF;
+
+  IF current_user_role() = 'analyst'
+    AND NEW.session_id IS NOT DISTINCT FROM OLD.session_id
+    AND NEW.status IS NOT DISTINCT FROM OLD.status
+    AND NEW.heygen_status IS NOT DISTINCT FROM OLD.heygen_status
+    AND NEW.start_time IS NOT DISTINCT FROM OLD.start_time
+    AND NEW.end_time IS NOT DISTINCT FROM OLD.end_time
+    AND NEW.deleted_at IS NOT DISTINCT FROM OLD.deleted_at
+  THEN
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'Insufficient permissions to change this session'
+    USING ERRCODE = '42501';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_enforce_session_permissions ON sessions;
+CREATE TRIGGER trigger_enforce_session_permissions
+  BEFORE UPDATE
+  ON sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_session_permissions();
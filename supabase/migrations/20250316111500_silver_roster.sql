@@ -0,0 +1,92 @@
+/*
+  # User invitation lifecycle
+
+  1. Changes
+    - Add `status` to `users` (`invited`, `active`, `deactivated`)
+    - Add `invited_at`, `invited_by`, `last_sign_in_at` and `deactivated_at` to `users`
+    - `handle_new_user()` now records invitations
+    - Add `handle_auth_user_updated()` trigger on `auth.users` that keeps
+      `last_sign_in_at` in sync and activates invited users once they confirm
+    - Backfill the new columns from `auth.users`
+
+  2. Security
+    - `current_user_role()` returns NULL for deactivated users, so every role-based
+      policy denies them even while their JWT is still valid
+*/
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'active'
+  CHECK (status IN ('invited', 'active', 'deactivated')),
+ADD COLUMN IF NOT EXISTS invited_at timestamptz,
+ADD COLUMN IF NOT EXISTS invited_by uuid REFERENCES users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS last_sign_in_at timestamptz,
+ADD COLUMN IF NOT EXISTS deactivated_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_users_status ON users(status);
+
+UPDATE users u
+SET
+  invited_at = a.invited_at,
+  last_sign_in_at = a.last_sign_in_at,
+  status = CASE
+    WHEN a.invited_at IS NOT NULL AND a.email_confirmed_at IS NULL THEN 'invited'
+    ELSE 'active'
+  END
+FROM auth.users a
+WHERE a.id = u.id;
+
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO users (id, email, status, invited_at)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    CASE WHEN NEW.invited_at IS NOT NULL AND NEW.email_confirmed_at IS NULL THEN 'invited' ELSE 'active' END,
+    NEW.invited_at
+  )
+  ON CONFLICT (id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION handle_auth_user_updated()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE users
+  SET
+    email = NEW.email,
+    invited_at = NEW.invited_at,
+    last_sign_in_at = NEW.last_sign_in_at,
+    status = CASE
+      WHEN status = 'invited' AND NEW.email_confirmed_at IS NOT NULL THEN 'active'
+      ELSE status
+    END
+  WHERE id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_updated ON auth.users;
+CREATE TRIGGER on_auth_user_updated
+  AFTER UPDATE OF email, invited_at, email_confirmed_at, last_sign_in_at ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_auth_user_updated();
+
+CREATE OR REPLACE FUNCTION current_user_role()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM users WHERE id = auth.uid() AND status <> 'deactivated';
+$$;
@@ -0,0 +1,223 @@
+/*
+  # Audit log
+
+  1. Changes
+    - Add `audit_log` table: actor, action, entity, before/after snapshot and timestamp
+    - Add `audit_actor()`: the signed-in user, or for edge functions running with the
+      service role the user passed in the `x-audit-actor` request header
+    - Add trigger `audit_session_changes` on `sessions` that records trash/restore,
+      archive, relevance, manual stops and permanent deletes
+    - Add trigger `audit_user_changes` on `users` that records invitations, role changes,
+      (de)activation, revoked invitations and deleted users
+    - Add `delete_auth_user(uuid)` so user deletes run through PostgREST and the
+      actor header reaches the cascade into `users`
+
+  2. Security
+    - Admins and analysts can read the audit log
+    - Nobody can insert, update or delete rows directly; only the SECURITY DEFINER
+      triggers write to it
+    - `x-audit-actor` is only trusted for the service role, so clients cannot
+      attribute their changes to someone else
+    - `delete_auth_user()` is only executable by the service role
+
+  3. Notes
+    - Background updates without an actor (HeyGen sync) are not logged, except
+      permanent deletes which are logged with an empty actor
+    - `session_id` has no foreign key so history survives a permanent delete
+*/
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  actor_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  actor_email text,
+  action text NOT NULL,
+  entity_type text NOT NULL CHECK (entity_type IN ('session', 'user')),
+  entity_id text NOT NULL,
+  session_id text,
+  before jsonb,
+  after jsonb
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_session_id ON audit_log(session_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor_id ON audit_log(actor_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_action ON audit_log(action);
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins and analysts can read the audit log" ON audit_log;
+CREATE POLICY "Admins and analysts can read the audit log"
+  ON audit_log
+  FOR SELECT
+  TO authenticated
+  USING (current_user_role() IN ('admin', 'analyst'));
+
+CREATE OR REPLACE FUNCTION audit_actor()
+RETURNS uuid
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  headers json;
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    RETURN auth.uid();
+  END IF;
+
+  IF auth.role() = 'service_role' THEN
+    headers := nullif(current_setting('request.headers', true), '')::json;
+    RETURN nullif(headers->>'x-audit-actor', '')::uuid;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION write_audit_log(
+  p_actor_id uuid,
+  p_action text,
+  p_entity_type text,
+  p_entity_id text,
+  p_session_id text,
+  p_before jsonb,
+  p_after jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO audit_log (actor_id, actor_email, action, entity_type, entity_id, session_id, before, after)
+  VALUES (
+    p_actor_id,
+    (SELECT email FROM users WHERE id = p_actor_id),
+    p_action,
+    p_entity_type,
+    p_entity_id,
+    p_session_id,
+    p_before,
+    p_after
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION write_audit_log(uuid, text, text, text, text, jsonb, jsonb) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION audit_session_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor uuid := audit_actor();
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM write_audit_log(actor, 'session.deleted', 'session', OLD.session_id, OLD.session_id,
+      jsonb_build_object('status', OLD.status, 'start_time', OLD.start_time, 'deleted_at', OLD.deleted_at), NULL);
+    RETURN OLD;
+  END IF;
+
+  -- Achtergrondupdates (sync worker) hebben geen actor en worden niet gelogd
+  IF actor IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.deleted_at IS DISTINCT FROM NEW.deleted_at THEN
+    PERFORM write_audit_log(actor,
+      CASE WHEN NEW.deleted_at IS NULL THEN 'session.restored' ELSE 'session.trashed' END,
+      'session', NEW.session_id, NEW.session_id,
+      jsonb_build_object('deleted_at', OLD.deleted_at), jsonb_build_object('deleted_at', NEW.deleted_at));
+  END IF;
+
+  IF OLD.is_archived IS DISTINCT FROM NEW.is_archived THEN
+    PERFORM write_audit_log(actor,
+      CASE WHEN NEW.is_archived THEN 'session.archived' ELSE 'session.unarchived' END,
+      'session', NEW.session_id, NEW.session_id,
+      jsonb_build_object('is_archived', OLD.is_archived), jsonb_build_object('is_archived', NEW.is_archived));
+  END IF;
+
+  IF OLD.is_relevant IS DISTINCT FROM NEW.is_relevant THEN
+    PERFORM write_audit_log(actor,
+      CASE WHEN NEW.is_relevant THEN 'session.marked_relevant' ELSE 'session.unmarked_relevant' END,
+      'session', NEW.session_id, NEW.session_id,
+      jsonb_build_object('is_relevant', OLD.is_relevant), jsonb_build_object('is_relevant', NEW.is_relevant));
+  END IF;
+
+  IF OLD.status IS DISTINCT FROM NEW.status AND NEW.status = 'completed' THEN
+    PERFORM write_audit_log(actor, 'session.stopped', 'session', NEW.session_id, NEW.session_id,
+      jsonb_build_object('status', OLD.status, 'end_time', OLD.end_time),
+      jsonb_build_object('status', NEW.status, 'end_time', NEW.end_time));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_session_changes ON sessions;
+CREATE TRIGGER audit_session_changes
+  AFTER UPDATE OR DELETE ON sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_session_changes();
+
+CREATE OR REPLACE FUNCTION audit_user_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor uuid := audit_actor();
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM write_audit_log(actor,
+      CASE WHEN OLD.status = 'invited' THEN 'user.invite_revoked' ELSE 'user.deleted' END,
+      'user', OLD.id::text, NULL,
+      jsonb_build_object('email', OLD.email, 'role', OLD.role, 'status', OLD.status), NULL);
+    RETURN OLD;
+  END IF;
+
+  -- Een uitnodiging wordt gelogd zodra manage-users `invited_by` zet; de insert door GoTrue heeft geen actor
+  IF OLD.invited_by IS NULL AND NEW.invited_by IS NOT NULL THEN
+    PERFORM write_audit_log(coalesce(actor, NEW.invited_by), 'user.invited', 'user', NEW.id::text, NULL,
+      NULL, jsonb_build_object('email', NEW.email, 'role', NEW.role));
+  ELSIF OLD.role IS DISTINCT FROM NEW.role THEN
+    PERFORM write_audit_log(actor, 'user.role_changed', 'user', NEW.id::text, NULL,
+      jsonb_build_object('email', OLD.email, 'role', OLD.role),
+      jsonb_build_object('email', NEW.email, 'role', NEW.role));
+  END IF;
+
+  IF OLD.status IS DISTINCT FROM NEW.status AND (OLD.status = 'deactivated' OR NEW.status = 'deactivated') THEN
+    PERFORM write_audit_log(actor,
+      CASE WHEN NEW.status = 'deactivated' THEN 'user.deactivated' ELSE 'user.reactivated' END,
+      'user', NEW.id::text, NULL,
+      jsonb_build_object('email', OLD.email, 'status', OLD.status),
+      jsonb_build_object('email', NEW.email, 'status', NEW.status));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_user_changes ON users;
+CREATE TRIGGER audit_user_changes
+  AFTER UPDATE OR DELETE ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_user_changes();
+
+-- Verwijdert een auth gebruiker binnen een PostgREST request, zodat audit_actor() de actor kent
+CREATE OR REPLACE FUNCTION delete_auth_user(target_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM auth.users WHERE id = target_user_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION delete_auth_user(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION delete_auth_user(uuid) TO service_role;
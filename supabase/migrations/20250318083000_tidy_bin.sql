@@ -0,0 +1,150 @@
+/*
+  # Scheduled trash purge
+
+  1. Changes
+    - Drop the `trigger_cleanup_deleted_sessions` statement trigger; it only ran as a
+      side effect of other writes and failed on sessions that still had messages
+    - `messages.session_id` now cascades on delete
+    - Add `delete_session_dependents()` trigger that removes `session_stats` rows of
+      deleted sessions (that table is not managed by these migrations yet)
+    - Add single-row `app_settings` table with `trash_retention_days` (default 30)
+    - Add `purge_trashed_sessions()` and schedule it hourly with pg_cron (`purge-trash`)
+    - Add `delete_trashed_sessions(text[])` for "delete permanently" and "empty trash"
+
+  2. Security
+    - Everyone signed in can read `app_settings`; only admins can change it
+    - `delete_trashed_sessions()` is limited to admins and to sessions that are
+      already in the trash
+    - `purge_trashed_sessions()` is only callable by the scheduler
+*/
+
+DROP TRIGGER IF EXISTS trigger_cleanup_deleted_sessions ON sessions;
+DROP FUNCTION IF EXISTS cleanup_deleted_sessions();
+
+ALTER TABLE messages DROP CONSTRAINT IF EXISTS messages_session_id_fkey;
+ALTER TABLE messages
+ADD CONSTRAINT messages_session_id_fkey
+  FOREIGN KEY (session_id) REFERENCES sessions(session_id) ON DELETE CASCADE;
+
+CREATE OR REPLACE FUNCTION delete_session_dependents()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF to_regclass('public.session_stats') IS NOT NULL THEN
+    EXECUTE 'DELETE FROM session_stats WHERE session_id = $1' USING OLD.session_id;
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS delete_session_dependents ON sessions;
+CREATE TRIGGER delete_session_dependents
+  BEFORE DELETE ON sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION delete_session_dependents();
+
+-- Eén rij met instellingen voor de hele applicatie
+CREATE TABLE IF NOT EXISTS app_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  trash_retention_days integer NOT NULL DEFAULT 30 CHECK (trash_retention_days BETWEEN 1 AND 365),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  updated_by uuid REFERENCES users(id) ON DELETE SET NULL
+);
+
+INSERT INTO app_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE app_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read settings" ON app_settings;
+CREATE POLICY "Authenticated users can read settings"
+  ON app_settings
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Admins can update settings" ON app_settings;
+CREATE POLICY "Admins can update settings"
+  ON app_settings
+  FOR UPDATE
+  TO authenticated
+  USING (current_user_role() = 'admin')
+  WITH CHECK (current_user_role() = 'admin');
+
+CREATE OR REPLACE FUNCTION touch_app_settings()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  NEW.updated_by := auth.uid();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS touch_app_settings ON app_settings;
+CREATE TRIGGER touch_app_settings
+  BEFORE UPDATE ON app_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_app_settings();
+
+CREATE OR REPLACE FUNCTION purge_trashed_sessions()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  retention_days integer;
+  purged integer;
+BEGIN
+  SELECT trash_retention_days INTO retention_days FROM app_settings WHERE id;
+
+  DELETE FROM sessions
+  WHERE deleted_at IS NOT NULL
+    AND deleted_at < now() - make_interval(days => coalesce(retention_days, 30));
+
+  GET DIAGNOSTICS purged = ROW_COUNT;
+  RETURN purged;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION purge_trashed_sessions() FROM PUBLIC, anon, authenticated;
+
+-- Zonder session_ids wordt de hele prullenbak geleegd
+CREATE OR REPLACE FUNCTION delete_trashed_sessions(session_ids text[] DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  deleted integer;
+BEGIN
+  IF current_user_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can permanently delete sessions'
+      USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM sessions
+  WHERE deleted_at IS NOT NULL
+    AND (session_ids IS NULL OR session_id = ANY(session_ids));
+
+  GET DIAGNOSTICS deleted = ROW_COUNT;
+  RETURN deleted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION delete_trashed_sessions(text[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION delete_trashed_sessions(text[]) TO authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'purge-trash') THEN
+    PERFORM cron.unschedule('purge-trash');
+  END IF;
+END $$;
+
+SELECT cron.schedule('purge-trash', '0 * * * *', 'SELECT purge_trashed_sessions()');
@@ -0,0 +1,138 @@
+/*
+  # Session duration metrics in get_dashboard_stats
+
+  1. Changes
+    - (Re)define `get_dashboard_stats(start_date, end_date, bucket)`; earlier versions
+      only existed in the hosted database, so every overload is dropped first
+    - `dashboard_data` keeps `daily_sessions` and `message_counts` and adds:
+        duration_summary    { session_count, avg_minutes, median_minutes, p90_minutes }
+        duration_buckets    [{ bucket_start, session_count, avg_minutes, median_minutes, p90_minutes }]
+        duration_histogram  [{ min_minutes, max_minutes, session_count }]
+    - `bucket` is `hour`, `day` (default) or `week` and only applies to `duration_buckets`
+
+  2. Notes
+    - Durations come from the generated `sessions.duration` column and only count
+      finished sessions (not `active`, `connecting` or `connected`, and with an `end_time`)
+    - Sessions in the trash are left out of every metric
+    - SECURITY INVOKER, so the normal RLS policies apply
+*/
+
+DO $$
+DECLARE
+  fn regprocedure;
+BEGIN
+  FOR fn IN
+    SELECT oid::regprocedure FROM pg_proc
+    WHERE proname = 'get_dashboard_stats' AND pronamespace = 'public'::regnamespace
+  LOOP
+    EXECUTE 'DROP FUNCTION ' || fn;
+  END LOOP;
+END $$;
+
+CREATE OR REPLACE FUNCTION get_dashboard_stats(
+  start_date timestamptz,
+  end_date timestamptz,
+  bucket text DEFAULT 'day'
+)
+RETURNS TABLE (dashboard_data jsonb)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF bucket NOT IN ('hour', 'day', 'week') THEN
+    RAISE EXCEPTION 'Invalid bucket: %', bucket USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  WITH range_sessions AS (
+    SELECT
+      s.session_id,
+      s.start_time,
+      CASE
+        WHEN s.end_time IS NOT NULL AND s.status NOT IN ('active', 'connecting', 'connected')
+          THEN extract(epoch FROM s.duration) / 60.0
+      END AS duration_minutes
+    FROM sessions s
+    WHERE s.start_time >= start_date
+      AND s.start_time <= end_date
+      AND s.deleted_at IS NULL
+  ),
+  finished AS (
+    SELECT * FROM range_sessions WHERE duration_minutes >= 0
+  ),
+  message_totals AS (
+    SELECT r.session_id, r.start_time, count(m.id) AS message_count
+    FROM range_sessions r
+    LEFT JOIN messages m ON m.session_id = r.session_id
+    GROUP BY r.session_id, r.start_time
+  ),
+  daily AS (
+    SELECT start_time::date AS day, count(*) AS session_count
+    FROM range_sessions
+    GROUP BY 1
+  ),
+  duration_buckets AS (
+    SELECT
+      date_trunc(bucket, start_time) AS bucket_start,
+      count(*) AS session_count,
+      avg(duration_minutes) AS avg_minutes,
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY duration_minutes) AS median_minutes,
+      percentile_cont(0.9) WITHIN GROUP (ORDER BY duration_minutes) AS p90_minutes
+    FROM finished
+    GROUP BY 1
+  ),
+  histogram_bins (min_minutes, max_minutes) AS (
+    VALUES (0, 1), (1, 2), (2, 5), (5, 10), (10, 15), (15, 20), (20, 30), (30, 60), (60, NULL)
+  )
+  SELECT jsonb_build_object(
+    'daily_sessions', coalesce((
+      SELECT jsonb_agg(jsonb_build_object('date', d.day, 'session_count', d.session_count) ORDER BY d.day)
+      FROM daily d
+    ), '[]'::jsonb),
+    'message_counts', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'session_id', t.session_id,
+        'created_at', t.start_time,
+        'message_count', t.message_count
+      ) ORDER BY t.start_time)
+      FROM message_totals t
+    ), '[]'::jsonb),
+    'duration_summary', (
+      SELECT jsonb_build_object(
+        'session_count', count(*),
+        'avg_minutes', round(avg(f.duration_minutes)::numeric, 1),
+        'median_minutes', round((percentile_cont(0.5) WITHIN GROUP (ORDER BY f.duration_minutes))::numeric, 1),
+        'p90_minutes', round((percentile_cont(0.9) WITHIN GROUP (ORDER BY f.duration_minutes))::numeric, 1)
+      )
+      FROM finished f
+    ),
+    'duration_buckets', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'bucket_start', b.bucket_start,
+        'session_count', b.session_count,
+        'avg_minutes', round(b.avg_minutes::numeric, 1),
+        'median_minutes', round(b.median_minutes::numeric, 1),
+        'p90_minutes', round(b.p90_minutes::numeric, 1)
+      ) ORDER BY b.bucket_start)
+      FROM duration_buckets b
+    ), '[]'::jsonb),
+    'duration_histogram', (
+      SELECT jsonb_agg(jsonb_build_object(
+        'min_minutes', h.min_minutes,
+        'max_minutes', h.max_minutes,
+        'session_count', (
+          SELECT count(*) FROM finished f
+          WHERE f.duration_minutes >= h.min_minutes
+            AND (h.max_minutes IS NULL OR f.duration_minutes < h.max_minutes)
+        )
+      ) ORDER BY h.min_minutes)
+      FROM histogram_bins h
+    )
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_dashboard_stats(timestamptz, timestamptz, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_dashboard_stats(timestamptz, timestamptz, text) TO authenticated;
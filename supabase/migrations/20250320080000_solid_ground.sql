@@ -0,0 +1,105 @@
+/*
+  # Versioned session_stats and schema hardening
+
+  1. Changes
+    - Add `session_stats` table (it only existed in the hosted database); on an existing
+      table the missing columns, the unique key and the foreign key are added
+    - `session_stats.session_id` cascades on delete, so `delete_session_dependents()`
+      from the trash purge migration is no longer needed and is dropped
+    - Columns that are always filled become NOT NULL, so the generated TypeScript types
+      match reality: `sessions.start_time`, `status`, `created_at`, `is_relevant`,
+      `is_archived` and `messages.session_id`, `timestamp`, `created_at`
+
+  2. Security
+    - Enable RLS on `session_stats`; authenticated users can read, insert and update
+
+  3. Notes
+    - `get_dashboard_stats()` is defined in `20250319091500_brisk_meter.sql`
+    - Local test data lives in `supabase/seed.sql`
+*/
+
+-- Sessions en berichten: vul ontbrekende waarden voordat de NOT NULL constraints erop gaan
+UPDATE sessions SET start_time = coalesce(created_at, now()) WHERE start_time IS NULL;
+UPDATE sessions SET created_at = start_time WHERE created_at IS NULL;
+UPDATE sessions SET status = 'completed' WHERE status IS NULL;
+UPDATE sessions SET is_relevant = false WHERE is_relevant IS NULL;
+UPDATE sessions SET is_archived = false WHERE is_archived IS NULL;
+
+ALTER TABLE sessions
+ALTER COLUMN start_time SET NOT NULL,
+ALTER COLUMN status SET NOT NULL,
+ALTER COLUMN created_at SET NOT NULL,
+ALTER COLUMN is_relevant SET NOT NULL,
+ALTER COLUMN is_archived SET NOT NULL;
+
+-- Berichten zonder sessie zijn nergens zichtbaar en kunnen weg
+DELETE FROM messages WHERE session_id IS NULL;
+UPDATE messages SET timestamp = coalesce(created_at, now()) WHERE timestamp IS NULL;
+UPDATE messages SET created_at = timestamp WHERE created_at IS NULL;
+
+ALTER TABLE messages
+ALTER COLUMN session_id SET NOT NULL,
+ALTER COLUMN timestamp SET NOT NULL,
+ALTER COLUMN created_at SET NOT NULL;
+
+-- Session stats
+CREATE TABLE IF NOT EXISTS session_stats (
+  session_id text PRIMARY KEY REFERENCES sessions(session_id) ON DELETE CASCADE,
+  totalmessages integer NOT NULL DEFAULT 0,
+  usermessages integer NOT NULL DEFAULT 0,
+  avatarmessages integer NOT NULL DEFAULT 0,
+  averageresponsetime double precision NOT NULL DEFAULT 0,
+  sessionduration interval,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE session_stats
+ADD COLUMN IF NOT EXISTS totalmessages integer NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS usermessages integer NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS avatarmessages integer NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS averageresponsetime double precision NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS sessionduration interval,
+ADD COLUMN IF NOT EXISTS created_at timestamptz NOT NULL DEFAULT now();
+
+-- Bestaande tabel: dubbele en verweesde rijen opruimen, dan unique key en cascade toevoegen
+DELETE FROM session_stats a
+USING session_stats b
+WHERE a.session_id = b.session_id
+  AND a.ctid < b.ctid;
+
+DELETE FROM session_stats st
+WHERE NOT EXISTS (SELECT 1 FROM sessions s WHERE s.session_id = st.session_id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS session_stats_session_id_key ON session_stats(session_id);
+
+ALTER TABLE session_stats DROP CONSTRAINT IF EXISTS session_stats_session_id_fkey;
+ALTER TABLE session_stats
+ADD CONSTRAINT session_stats_session_id_fkey
+  FOREIGN KEY (session_id) REFERENCES sessions(session_id) ON DELETE CASCADE;
+
+DROP TRIGGER IF EXISTS delete_session_dependents ON sessions;
+DROP FUNCTION IF EXISTS delete_session_dependents();
+
+ALTER TABLE session_stats ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read session stats" ON session_stats;
+CREATE POLICY "Authenticated users can read session stats"
+  ON session_stats
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Authenticated users can insert session stats" ON session_stats;
+CREATE POLICY "Authenticated users can insert session stats"
+  ON session_stats
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Authenticated users can update session stats" ON session_stats;
+CREATE POLICY "Authenticated users can update session stats"
+  ON session_stats
+  FOR UPDATE
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,189 @@
+/*
+  # Database-maintained session statistics
+
+  1. Changes
+    - `session_stats` is now filled by the database instead of the browser:
+      `refresh_session_stats(session_id)` recalculates one row and is called by
+      statement triggers on `messages` and a row trigger on `sessions` (start/end time)
+    - New columns on `session_stats`:
+        turn_count                 speaker wisselingen + 1
+        avg_response_seconds       gemiddelde tijd tussen een gebruikersbericht en het antwoord van de avatar
+        user_words / avatar_words  aantal woorden per kant
+        user_talk_share            aandeel woorden van de gebruiker (0-1)
+        user_words_per_message / avatar_words_per_message
+        longest_silence_seconds    grootste pauze tussen twee opeenvolgende berichten
+        updated_at
+    - Drop `averageresponsetime`; it was derived from the session duration, not from replies
+    - Add `session_stats` to the realtime publication
+    - Backfill statistics for every existing session
+
+  2. Security
+    - Drop the insert/update policies on `session_stats`; only the SECURITY DEFINER
+      refresh function writes to it
+*/
+
+ALTER TABLE session_stats
+DROP COLUMN IF EXISTS averageresponsetime,
+ADD COLUMN IF NOT EXISTS turn_count integer NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS avg_response_seconds double precision,
+ADD COLUMN IF NOT EXISTS user_words integer NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS avatar_words integer NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS user_talk_share double precision,
+ADD COLUMN IF NOT EXISTS user_words_per_message double precision,
+ADD COLUMN IF NOT EXISTS avatar_words_per_message double precision,
+ADD COLUMN IF NOT EXISTS longest_silence_seconds double precision,
+ADD COLUMN IF NOT EXISTS updated_at timestamptz NOT NULL DEFAULT now();
+
+DROP POLICY IF EXISTS "Authenticated users can insert session stats" ON session_stats;
+DROP POLICY IF EXISTS "Authenticated users can update session stats" ON session_stats;
+
+CREATE OR REPLACE FUNCTION refresh_session_stats(p_session_id text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Sessie bestaat niet (meer): de rij verdwijnt via ON DELETE CASCADE
+  IF NOT EXISTS (SELECT 1 FROM sessions WHERE session_id = p_session_id) THEN
+    RETURN;
+  END IF;
+
+  WITH ordered AS (
+    SELECT
+      sender,
+      timestamp,
+      CASE WHEN btrim(message) = '' THEN 0
+        ELSE array_length(regexp_split_to_array(btrim(message), '\s+'), 1)
+      END AS words,
+      lag(sender) OVER w AS previous_sender,
+      lag(timestamp) OVER w AS previous_timestamp
+    FROM messages
+    WHERE session_id = p_session_id
+    WINDOW w AS (ORDER BY timestamp, created_at)
+  ),
+  totals AS (
+    SELECT
+      count(*) AS total,
+      count(*) FILTER (WHERE sender = 'user') AS user_count,
+      count(*) FILTER (WHERE sender = 'avatar') AS avatar_count,
+      count(*) FILTER (WHERE previous_sender IS DISTINCT FROM sender) AS turns,
+      avg(extract(epoch FROM timestamp - previous_timestamp))
+        FILTER (WHERE sender = 'avatar' AND previous_sender = 'user') AS response_seconds,
+      coalesce(sum(words) FILTER (WHERE sender = 'user'), 0) AS user_words,
+      coalesce(sum(words) FILTER (WHERE sender = 'avatar'), 0) AS avatar_words,
+      max(extract(epoch FROM timestamp - previous_timestamp)) AS longest_silence
+    FROM ordered
+  )
+  INSERT INTO session_stats (
+    session_id, totalmessages, usermessages, avatarmessages, sessionduration,
+    turn_count, avg_response_seconds, user_words, avatar_words, user_talk_share,
+    user_words_per_message, avatar_words_per_message, longest_silence_seconds, updated_at
+  )
+  SELECT
+    p_session_id,
+    t.total,
+    t.user_count,
+    t.avatar_count,
+    (SELECT duration FROM sessions WHERE session_id = p_session_id),
+    t.turns,
+    t.response_seconds,
+    t.user_words,
+    t.avatar_words,
+    t.user_words::double precision / nullif(t.user_words + t.avatar_words, 0),
+    t.user_words::double precision / nullif(t.user_count, 0),
+    t.avatar_words::double precision / nullif(t.avatar_count, 0),
+    t.longest_silence,
+    now()
+  FROM totals t
+  ON CONFLICT (session_id) DO UPDATE SET
+    totalmessages = EXCLUDED.totalmessages,
+    usermessages = EXCLUDED.usermessages,
+    avatarmessages = EXCLUDED.avatarmessages,
+    sessionduration = EXCLUDED.sessionduration,
+    turn_count = EXCLUDED.turn_count,
+    avg_response_seconds = EXCLUDED.avg_response_seconds,
+    user_words = EXCLUDED.user_words,
+    avatar_words = EXCLUDED.avatar_words,
+    user_talk_share = EXCLUDED.user_talk_share,
+    user_words_per_message = EXCLUDED.user_words_per_message,
+    avatar_words_per_message = EXCLUDED.avatar_words_per_message,
+    longest_silence_seconds = EXCLUDED.longest_silence_seconds,
+    updated_at = EXCLUDED.updated_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION refresh_session_stats(text) FROM PUBLIC, anon, authenticated;
+
+-- Statement triggers, zodat een sync die tientallen berichten upsert elke sessie één keer herberekent
+CREATE OR REPLACE FUNCTION refresh_stats_for_changed_messages()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM refresh_session_stats(session_id) FROM (SELECT DISTINCT session_id FROM new_rows) changed;
+  ELSIF TG_OP = 'UPDATE' THEN
+    PERFORM refresh_session_stats(session_id) FROM (
+      SELECT session_id FROM new_rows UNION SELECT session_id FROM old_rows
+    ) changed;
+  ELSE
+    PERFORM refresh_session_stats(session_id) FROM (SELECT DISTINCT session_id FROM old_rows) changed;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_stats_after_message_insert ON messages;
+CREATE TRIGGER refresh_stats_after_message_insert
+  AFTER INSERT ON messages
+  REFERENCING NEW TABLE AS new_rows
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION refresh_stats_for_changed_messages();
+
+DROP TRIGGER IF EXISTS refresh_stats_after_message_update ON messages;
+CREATE TRIGGER refresh_stats_after_message_update
+  AFTER UPDATE ON messages
+  REFERENCING OLD TABLE AS old_rows NEW TABLE AS new_rows
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION refresh_stats_for_changed_messages();
+
+DROP TRIGGER IF EXISTS refresh_stats_after_message_delete ON messages;
+CREATE TRIGGER refresh_stats_after_message_delete
+  AFTER DELETE ON messages
+  REFERENCING OLD TABLE AS old_rows
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION refresh_stats_for_changed_messages();
+
+CREATE OR REPLACE FUNCTION refresh_stats_for_session_times()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM refresh_session_stats(NEW.session_id);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_stats_after_session_times ON sessions;
+CREATE TRIGGER refresh_stats_after_session_times
+  AFTER UPDATE OF start_time, end_time ON sessions
+  FOR EACH ROW
+  WHEN (OLD.start_time IS DISTINCT FROM NEW.start_time OR OLD.end_time IS DISTINCT FROM NEW.end_time)
+  EXECUTE FUNCTION refresh_stats_for_session_times();
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'session_stats'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE session_stats;
+  END IF;
+END $$;
+
+SELECT refresh_session_stats(session_id) FROM sessions;
@@ -0,0 +1,150 @@
+/*
+  # Weekday x hour usage heatmap
+
+  1. Changes
+    - `get_dashboard_stats()` returns an extra `usage_heatmap` array in `dashboard_data`:
+        [{ weekday, hour, session_count, message_count }]
+      `weekday` is the ISO weekday (1 = maandag, 7 = zondag), `hour` 0-23
+    - Sessions count by their start time, messages by their own timestamp, both in
+      the Europe/Amsterdam timezone; only cells with activity are returned
+    - Add `idx_messages_timestamp` for the message range scan
+
+  2. Notes
+    - Messages of sessions in the trash are left out, like every other metric
+*/
+
+CREATE INDEX IF NOT EXISTS idx_messages_timestamp ON messages(timestamp);
+
+CREATE OR REPLACE FUNCTION get_dashboard_stats(
+  start_date timestamptz,
+  end_date timestamptz,
+  bucket text DEFAULT 'day'
+)
+RETURNS TABLE (dashboard_data jsonb)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF bucket NOT IN ('hour', 'day', 'week') THEN
+    RAISE EXCEPTION 'Invalid bucket: %', bucket USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  WITH range_sessions AS (
+    SELECT
+      s.session_id,
+      s.start_time,
+      CASE
+        WHEN s.end_time IS NOT NULL AND s.status NOT IN ('active', 'connecting', 'connected')
+          THEN extract(epoch FROM s.duration) / 60.0
+      END AS duration_minutes
+    FROM sessions s
+    WHERE s.start_time >= start_date
+      AND s.start_time <= end_date
+      AND s.deleted_at IS NULL
+  ),
+  finished AS (
+    SELECT * FROM range_sessions WHERE duration_minutes >= 0
+  ),
+  message_totals AS (
+    SELECT r.session_id, r.start_time, count(m.id) AS message_count
+    FROM range_sessions r
+    LEFT JOIN messages m ON m.session_id = r.session_id
+    GROUP BY r.session_id, r.start_time
+  ),
+  daily AS (
+    SELECT start_time::date AS day, count(*) AS session_count
+    FROM range_sessions
+    GROUP BY 1
+  ),
+  duration_buckets AS (
+    SELECT
+      date_trunc(bucket, start_time) AS bucket_start,
+      count(*) AS session_count,
+      avg(duration_minutes) AS avg_minutes,
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY duration_minutes) AS median_minutes,
+      percentile_cont(0.9) WITHIN GROUP (ORDER BY duration_minutes) AS p90_minutes
+    FROM finished
+    GROUP BY 1
+  ),
+  histogram_bins (min_minutes, max_minutes) AS (
+    VALUES (0, 1), (1, 2), (2, 5), (5, 10), (10, 15), (15, 20), (20, 30), (30, 60), (60, NULL)
+  ),
+  heatmap_events AS (
+    SELECT start_time AT TIME ZONE 'Europe/Amsterdam' AS local_time, 1 AS sessions, 0 AS messages
+    FROM range_sessions
+    UNION ALL
+    SELECT m.timestamp AT TIME ZONE 'Europe/Amsterdam', 0, 1
+    FROM messages m
+    JOIN sessions s ON s.session_id = m.session_id
+    WHERE m.timestamp >= start_date
+      AND m.timestamp <= end_date
+      AND s.deleted_at IS NULL
+  ),
+  heatmap AS (
+    SELECT
+      extract(isodow FROM local_time)::int AS weekday,
+      extract(hour FROM local_time)::int AS hour,
+      sum(sessions) AS session_count,
+      sum(messages) AS message_count
+    FROM heatmap_events
+    GROUP BY 1, 2
+  )
+  SELECT jsonb_build_object(
+    'daily_sessions', coalesce((
+      SELECT jsonb_agg(jsonb_build_object('date', d.day, 'session_count', d.session_count) ORDER BY d.day)
+      FROM daily d
+    ), '[]'::jsonb),
+    'message_counts', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'session_id', t.session_id,
+        'created_at', t.start_time,
+        'message_count', t.message_count
+      ) ORDER BY t.start_time)
+      FROM message_totals t
+    ), '[]'::jsonb),
+    'duration_summary', (
+      SELECT jsonb_build_object(
+        'session_count', count(*),
+        'avg_minutes', round(avg(f.duration_minutes)::numeric, 1),
+        'median_minutes', round((percentile_cont(0.5) WITHIN GROUP (ORDER BY f.duration_minutes))::numeric, 1),
+        'p90_minutes', round((percentile_cont(0.9) WITHIN GROUP (ORDER BY f.duration_minutes))::numeric, 1)
+      )
+      FROM finished f
+    ),
+    'duration_buckets', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'bucket_start', b.bucket_start,
+        'session_count', b.session_count,
+        'avg_minutes', round(b.avg_minutes::numeric, 1),
+        'median_minutes', round(b.median_minutes::numeric, 1),
+        'p90_minutes', round(b.p90_minutes::numeric, 1)
+      ) ORDER BY b.bucket_start)
+      FROM duration_buckets b
+    ), '[]'::jsonb),
+    'duration_histogram', (
+      SELECT jsonb_agg(jsonb_build_object(
+        'min_minutes', h.min_minutes,
+        'max_minutes', h.max_minutes,
+        'session_count', (
+          SELECT count(*) FROM finished f
+          WHERE f.duration_minutes >= h.min_minutes
+            AND (h.max_minutes IS NULL OR f.duration_minutes < h.max_minutes)
+        )
+      ) ORDER BY h.min_minutes)
+      FROM histogram_bins h
+    ),
+    'usage_heatmap', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'weekday', hm.weekday,
+        'hour', hm.hour,
+        'session_count', hm.session_count,
+        'message_count', hm.message_count
+      ) ORDER BY hm.weekday, hm.hour)
+      FROM heatmap hm
+    ), '[]'::jsonb)
+  );
+END;
+$$;
@@ -0,0 +1,236 @@
+/*
+  # Timezone-correct dashboard bucketing
+
+  1. Changes
+    - `app_settings.reporting_timezone` (default 'Europe/Amsterdam'): the timezone in which
+      days, weeks and hours are counted for reporting
+    - `reporting_timezone()` returns the configured timezone
+    - `get_dashboard_stats()` and `dashboard_period_stats()` take calendar days instead of
+      timestamps: `start_date` and `end_date` (inclusive) are days in the reporting timezone
+    - `dashboard_data.series` replaces `daily_sessions`, `message_counts` and `duration_buckets`:
+      one entry per bucket over the whole range, also for buckets without sessions, with
+        { bucket_start, session_count, message_count, avg_messages_per_session,
+          avg_minutes, median_minutes, p90_minutes }
+      `bucket_start` is local time ('YYYY-MM-DD"T"HH24:MI'); weeks are ISO weeks starting on Monday
+    - `dashboard_data.time_zone` reports the timezone that was used
+    - The usage heatmap uses the reporting timezone instead of a fixed 'Europe/Amsterdam'
+
+  2. Security
+    - Only admins can change the reporting timezone (existing app_settings update policy)
+    - Both dashboard functions stay SECURITY INVOKER and executable by authenticated users
+
+  3. Notes
+    - Sessions are counted in the bucket of their start time, messages in the bucket of
+      their session, so the chart series add up to the totals on the stat cards
+*/
+
+CREATE OR REPLACE FUNCTION is_valid_time_zone(tz text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = tz);
+$$;
+
+ALTER TABLE app_settings
+ADD COLUMN IF NOT EXISTS reporting_timezone text NOT NULL DEFAULT 'Europe/Amsterdam';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'app_settings_reporting_timezone_check'
+  ) THEN
+    ALTER TABLE app_settings
+    ADD CONSTRAINT app_settings_reporting_timezone_check CHECK (is_valid_time_zone(reporting_timezone));
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION reporting_timezone()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce((SELECT reporting_timezone FROM app_settings WHERE id), 'Europe/Amsterdam');
+$$;
+
+GRANT EXECUTE ON FUNCTION reporting_timezone() TO authenticated;
+
+-- Van timestamps naar kalenderdagen: de oude varianten eerst weg
+DROP FUNCTION IF EXISTS get_dashboard_stats(timestamptz, timestamptz, text);
+DROP FUNCTION IF EXISTS dashboard_period_stats(timestamptz, timestamptz, text);
+
+CREATE OR REPLACE FUNCTION dashboard_period_stats(
+  start_date date,
+  end_date date,
+  bucket text DEFAULT 'day'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  tz text := reporting_timezone();
+  -- Middernacht lokale tijd; range_end is exclusief
+  range_start timestamptz := start_date::timestamp AT TIME ZONE tz;
+  range_end timestamptz := (end_date + 1)::timestamp AT TIME ZONE tz;
+BEGIN
+  IF bucket NOT IN ('hour', 'day', 'week') THEN
+    RAISE EXCEPTION 'Invalid bucket: %', bucket USING ERRCODE = '22023';
+  END IF;
+
+  IF end_date < start_date THEN
+    RAISE EXCEPTION 'end_date must not be before start_date' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN (
+  WITH range_sessions AS (
+    SELECT
+      s.session_id,
+      s.start_time AT TIME ZONE tz AS local_start,
+      CASE
+        WHEN s.end_time IS NOT NULL AND s.status NOT IN ('active', 'connecting', 'connected')
+          THEN extract(epoch FROM s.duration) / 60.0
+      END AS duration_minutes
+    FROM sessions s
+    WHERE s.start_time >= range_start
+      AND s.start_time < range_end
+      AND s.deleted_at IS NULL
+  ),
+  finished AS (
+    SELECT * FROM range_sessions WHERE duration_minutes >= 0
+  ),
+  message_totals AS (
+    SELECT r.session_id, r.local_start, r.duration_minutes, count(m.id) AS message_count
+    FROM range_sessions r
+    LEFT JOIN messages m ON m.session_id = r.session_id
+    GROUP BY r.session_id, r.local_start, r.duration_minutes
+  ),
+  -- Alle buckets in de periode, ook lege; date_trunc('week') begint op maandag
+  buckets AS (
+    SELECT generate_series(
+      date_trunc(bucket, start_date::timestamp),
+      date_trunc(bucket, (end_date + 1)::timestamp - interval '1 hour'),
+      ('1 ' || bucket)::interval
+    ) AS bucket_start
+  ),
+  series AS (
+    SELECT
+      b.bucket_start,
+      count(t.session_id) AS session_count,
+      coalesce(sum(t.message_count), 0) AS message_count,
+      avg(t.message_count) AS avg_messages,
+      avg(t.duration_minutes) AS avg_minutes,
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY t.duration_minutes) AS median_minutes,
+      percentile_cont(0.9) WITHIN GROUP (ORDER BY t.duration_minutes) AS p90_minutes
+    FROM buckets b
+    LEFT JOIN message_totals t ON date_trunc(bucket, t.local_start) = b.bucket_start
+    GROUP BY b.bucket_start
+  ),
+  histogram_bins (min_minutes, max_minutes) AS (
+    VALUES (0, 1), (1, 2), (2, 5), (5, 10), (10, 15), (15, 20), (20, 30), (30, 60), (60, NULL)
+  ),
+  heatmap_events AS (
+    SELECT local_start AS local_time, 1 AS sessions, 0 AS messages
+    FROM range_sessions
+    UNION ALL
+    SELECT m.timestamp AT TIME ZONE tz, 0, 1
+    FROM messages m
+    JOIN sessions s ON s.session_id = m.session_id
+    WHERE m.timestamp >= range_start
+      AND m.timestamp < range_end
+      AND s.deleted_at IS NULL
+  ),
+  heatmap AS (
+    SELECT
+      extract(isodow FROM local_time)::int AS weekday,
+      extract(hour FROM local_time)::int AS hour,
+      sum(sessions) AS session_count,
+      sum(messages) AS message_count
+    FROM heatmap_events
+    GROUP BY 1, 2
+  )
+  SELECT jsonb_build_object(
+    'time_zone', tz,
+    'kpis', (
+      SELECT jsonb_build_object(
+        'session_count', count(*),
+        'message_count', coalesce(sum(t.message_count), 0),
+        'avg_messages_per_session', round(avg(t.message_count)::numeric, 1),
+        'avg_duration_minutes', round(avg(t.duration_minutes)::numeric, 1)
+      )
+      FROM message_totals t
+    ),
+    'series', (
+      SELECT jsonb_agg(jsonb_build_object(
+        'bucket_start', to_char(s.bucket_start, 'YYYY-MM-DD"T"HH24:MI'),
+        'session_count', s.session_count,
+        'message_count', s.message_count,
+        'avg_messages_per_session', round(s.avg_messages::numeric, 1),
+        'avg_minutes', round(s.avg_minutes::numeric, 1),
+        'median_minutes', round(s.median_minutes::numeric, 1),
+        'p90_minutes', round(s.p90_minutes::numeric, 1)
+      ) ORDER BY s.bucket_start)
+      FROM series s
+    ),
+    'duration_summary', (
+      SELECT jsonb_build_object(
+        'session_count', count(*),
+        'avg_minutes', round(avg(f.duration_minutes)::numeric, 1),
+        'median_minutes', round((percentile_cont(0.5) WITHIN GROUP (ORDER BY f.duration_minutes))::numeric, 1),
+        'p90_minutes', round((percentile_cont(0.9) WITHIN GROUP (ORDER BY f.duration_minutes))::numeric, 1)
+      )
+      FROM finished f
+    ),
+    'duration_histogram', (
+      SELECT jsonb_agg(jsonb_build_object(
+        'min_minutes', h.min_minutes,
+        'max_minutes', h.max_minutes,
+        'session_count', (
+          SELECT count(*) FROM finished f
+          WHERE f.duration_minutes >= h.min_minutes
+            AND (h.max_minutes IS NULL OR f.duration_minutes < h.max_minutes)
+        )
+      ) ORDER BY h.min_minutes)
+      FROM histogram_bins h
+    ),
+    'usage_heatmap', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'weekday', hm.weekday,
+        'hour', hm.hour,
+        'session_count', hm.session_count,
+        'message_count', hm.message_count
+      ) ORDER BY hm.weekday, hm.hour)
+      FROM heatmap hm
+    ), '[]'::jsonb)
+  ));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION dashboard_period_stats(date, date, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION dashboard_period_stats(date, date, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION get_dashboard_stats(
+  start_date date,
+  end_date date,
+  bucket text DEFAULT 'day'
+)
+RETURNS TABLE (dashboard_data jsonb)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT dashboard_period_stats(start_date, end_date, bucket)
+    || jsonb_build_object(
+      'previous_period',
+      -- Evenveel dagen, direct voorafgaand aan start_date
+      dashboard_period_stats(start_date - (end_date - start_date + 1), start_date - 1, bucket)
+    );
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_dashboard_stats(date, date, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_dashboard_stats(date, date, text) TO authenticated;
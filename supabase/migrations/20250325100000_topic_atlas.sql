@@ -0,0 +1,451 @@
+/*
+  # Topic classification
+
+  1. Changes
+    - `topics`: configurable taxonomy (label, keywords, color, position, active flag),
+      seeded with the themes PhD candidates bring up most
+    - `session_topics`: the topics per session with score, matched keywords and the
+      classifier that produced them
+    - `session_classifications`: when a session was classified and by which classifier;
+      sessions without a row are picked up by the `classify-topics` edge function
+    - New messages for a session and any change to the taxonomy remove the classification,
+      so the affected sessions are classified again on the next run
+    - `pending_topic_classifications(max_sessions)` and `store_session_topics(...)` for the worker
+    - `invoke_edge_function(name, body)` calls an edge function via pg_net; the
+      classification runs every 5 minutes
+    - `dashboard_data.topics` gives the number of sessions per active topic in the period
+    - Add `session_topics` to the realtime publication
+
+  2. Security
+    - Everyone signed in can read the taxonomy and the classifications
+    - Only admins can change the taxonomy
+    - Classifications are only written by the worker (service role)
+
+  3. Notes
+    - Keywords are matched case and accent insensitive on word boundaries; a trailing `*`
+      matches any word form (see `src/lib/topicClassifier.ts`)
+    - `invoke_edge_function()` expects the same Vault secrets as `invoke_heygen_sync()`
+*/
+
+CREATE TABLE IF NOT EXISTS topics (
+  id text PRIMARY KEY CHECK (id ~ '^[a-z0-9_-]+$'),
+  label text NOT NULL,
+  description text,
+  keywords text[] NOT NULL DEFAULT '{}',
+  color text NOT NULL DEFAULT '#ce861b' CHECK (color ~ '^#[0-9a-fA-F]{6}$'),
+  position integer NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS session_topics (
+  session_id text NOT NULL REFERENCES sessions(session_id) ON DELETE CASCADE,
+  topic_id text NOT NULL REFERENCES topics(id) ON DELETE CASCADE,
+  score double precision NOT NULL,
+  matched_keywords text[] NOT NULL DEFAULT '{}',
+  classifier text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (session_id, topic_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_session_topics_topic_id ON session_topics(topic_id);
+
+CREATE TABLE IF NOT EXISTS session_classifications (
+  session_id text PRIMARY KEY REFERENCES sessions(session_id) ON DELETE CASCADE,
+  classifier text NOT NULL,
+  classified_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE topics ENABLE ROW LEVEL SECURITY;
+ALTER TABLE session_topics ENABLE ROW LEVEL SECURITY;
+ALTER TABLE session_classifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read topics" ON topics;
+CREATE POLICY "Authenticated users can read topics"
+  ON topics
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage topics" ON topics;
+CREATE POLICY "Admins can manage topics"
+  ON topics
+  FOR ALL
+  TO authenticated
+  USING (current_user_role() = 'admin')
+  WITH CHECK (current_user_role() = 'admin');
+
+DROP POLICY IF EXISTS "Authenticated users can read session topics" ON session_topics;
+CREATE POLICY "Authenticated users can read session topics"
+  ON session_topics
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Authenticated users can read session classifications" ON session_classifications;
+CREATE POLICY "Authenticated users can read session classifications"
+  ON session_classifications
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE OR REPLACE FUNCTION touch_topics()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS touch_topics ON topics;
+CREATE TRIGGER touch_topics
+  BEFORE UPDATE ON topics
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_topics();
+
+-- Startset; labels en keywords zijn daarna via de instellingen aan te passen
+INSERT INTO topics (id, label, description, keywords, color, position) VALUES
+  ('funding', 'Financiering', 'Beurzen, contracten, verlenging en budget',
+    ARRAY['financiering', 'beurs', 'subsidie*', 'salaris', 'contract*', 'verlenging', 'budget*', 'funding', 'grant*'],
+    '#0ea5e9', 1),
+  ('supervision', 'Begeleiding', 'Samenwerking met promotor en begeleiders',
+    ARRAY['promotor*', 'copromotor*', 'begeleider*', 'begeleiding', 'supervisor*', 'feedback'],
+    '#8b5cf6', 2),
+  ('planning', 'Planning', 'Tijdlijn, deadlines en vertraging in het traject',
+    ARRAY['planning', 'deadline*', 'tijdlijn', 'vertraging', 'achterstand', 'uitstel', 'promotietraject', 'vastlopen', 'loop vast'],
+    '#f59e0b', 3),
+  ('thesis', 'Proefschrift schrijven', 'Schrijven en structureren van het proefschrift',
+    ARRAY['proefschrift', 'thesis', 'dissertatie', 'hoofdstuk*', 'schrijven', 'manuscript', 'schrijfblokkade'],
+    '#10b981', 4),
+  ('publishing', 'Publiceren', 'Artikelen, tijdschriften en peer review',
+    ARRAY['publicatie*', 'publiceren', 'artikel*', 'paper*', 'journal*', 'tijdschrift*', 'reviewer*', 'peer review'],
+    '#6366f1', 5),
+  ('wellbeing', 'Welzijn', 'Stress, motivatie en mentale gezondheid',
+    ARRAY['stress*', 'burn-out', 'burnout', 'overspannen', 'slapen', 'angst*', 'eenzaam*', 'depressie*', 'welzijn', 'motivatie', 'mentale'],
+    '#ef4444', 6),
+  ('career', 'Loopbaan', 'Carrière na de promotie',
+    ARRAY['carriere', 'loopbaan', 'postdoc*', 'sollicit*', 'vacature*', 'baan', 'industrie'],
+    '#14b8a6', 7),
+  ('conferences', 'Congressen en reizen', 'Congresbezoek, presentaties en reisbudget',
+    ARRAY['congres*', 'conferentie*', 'reisbudget', 'presentatie*', 'poster*'],
+    '#ec4899', 8),
+  ('teaching', 'Onderwijs', 'Onderwijstaken naast het onderzoek',
+    ARRAY['onderwijs*', 'werkgroep*', 'studenten', 'nakijken', 'tentamen*', 'colleges'],
+    '#84cc16', 9)
+ON CONFLICT (id) DO NOTHING;
+
+-- Nieuwe berichten (bijvoorbeeld een late sync): sessie opnieuw laten classificeren
+CREATE OR REPLACE FUNCTION reset_classification_for_new_messages()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM session_classifications
+  WHERE session_id IN (SELECT DISTINCT session_id FROM new_rows);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reset_classification_after_message_insert ON messages;
+CREATE TRIGGER reset_classification_after_message_insert
+  AFTER INSERT ON messages
+  REFERENCING NEW TABLE AS new_rows
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION reset_classification_for_new_messages();
+
+-- Taxonomie gewijzigd: alles opnieuw, de bestaande tags blijven staan tot de worker ze vervangt
+CREATE OR REPLACE FUNCTION reset_classification_for_topic_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM session_classifications;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reset_classification_after_topic_change ON topics;
+CREATE TRIGGER reset_classification_after_topic_change
+  AFTER INSERT OR UPDATE OR DELETE ON topics
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION reset_classification_for_topic_changes();
+
+-- Afgeronde sessies buiten de prullenbak die nog geen classificatie hebben, oudste eerst
+CREATE OR REPLACE FUNCTION pending_topic_classifications(max_sessions integer DEFAULT 50)
+RETURNS SETOF text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.session_id
+  FROM sessions s
+  WHERE s.end_time IS NOT NULL
+    AND s.deleted_at IS NULL
+    AND NOT EXISTS (SELECT 1 FROM session_classifications c WHERE c.session_id = s.session_id)
+  ORDER BY s.start_time
+  LIMIT max_sessions;
+$$;
+
+-- Vervangt de topics van één sessie in één transactie; p_topics is [{ topic_id, score, matched_keywords }]
+CREATE OR REPLACE FUNCTION store_session_topics(p_session_id text, p_classifier text, p_topics jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM session_topics WHERE session_id = p_session_id;
+
+  INSERT INTO session_topics (session_id, topic_id, score, matched_keywords, classifier)
+  SELECT
+    p_session_id,
+    t.topic_id,
+    t.score,
+    coalesce(t.matched_keywords, '{}'),
+    p_classifier
+  FROM jsonb_to_recordset(p_topics) AS t(topic_id text, score double precision, matched_keywords text[])
+  -- Topic kan intussen verwijderd zijn
+  WHERE EXISTS (SELECT 1 FROM topics WHERE id = t.topic_id);
+
+  INSERT INTO session_classifications (session_id, classifier, classified_at)
+  VALUES (p_session_id, p_classifier, now())
+  ON CONFLICT (session_id) DO UPDATE SET
+    classifier = EXCLUDED.classifier,
+    classified_at = EXCLUDED.classified_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION pending_topic_classifications(integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION store_session_topics(text, text, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION pending_topic_classifications(integer) TO service_role;
+GRANT EXECUTE ON FUNCTION store_session_topics(text, text, jsonb) TO service_role;
+
+CREATE OR REPLACE FUNCTION invoke_edge_function(function_name text, body jsonb DEFAULT '{}'::jsonb)
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  project_url text;
+  anon_key text;
+BEGIN
+  SELECT decrypted_secret INTO project_url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO anon_key FROM vault.decrypted_secrets WHERE name = 'anon_key';
+
+  IF project_url IS NULL OR anon_key IS NULL THEN
+    RAISE WARNING 'invoke_edge_function: vault secrets project_url/anon_key not configured';
+    RETURN NULL;
+  END IF;
+
+  RETURN net.http_post(
+    url := project_url || '/functions/v1/' || function_name,
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || anon_key
+    ),
+    body := body
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION invoke_edge_function(text, jsonb) FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'classify-topics') THEN
+    PERFORM cron.unschedule('classify-topics');
+  END IF;
+END $$;
+
+SELECT cron.schedule('classify-topics', '*/5 * * * *', $$SELECT invoke_edge_function('classify-topics')$$);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'session_topics'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE session_topics;
+  END IF;
+END $$;
+
+-- Dashboard: sessies per topic in de periode, zelfde body als in 20250324091000_local_clock.sql
+CREATE OR REPLACE FUNCTION dashboard_period_stats(
+  start_date date,
+  end_date date,
+  bucket text DEFAULT 'day'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  tz text := reporting_timezone();
+  -- Middernacht lokale tijd; range_end is exclusief
+  range_start timestamptz := start_date::timestamp AT TIME ZONE tz;
+  range_end timestamptz := (end_date + 1)::timestamp AT TIME ZONE tz;
+BEGIN
+  IF bucket NOT IN ('hour', 'day', 'week') THEN
+    RAISE EXCEPTION 'Invalid bucket: %', bucket USING ERRCODE = '22023';
+  END IF;
+
+  IF end_date < start_date THEN
+    RAISE EXCEPTION 'end_date must not be before start_date' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN (
+  WITH range_sessions AS (
+    SELECT
+      s.session_id,
+      s.start_time AT TIME ZONE tz AS local_start,
+      CASE
+        WHEN s.end_time IS NOT NULL AND s.status NOT IN ('active', 'connecting', 'connected')
+          THEN extract(epoch FROM s.duration) / 60.0
+      END AS duration_minutes
+    FROM sessions s
+    WHERE s.start_time >= range_start
+      AND s.start_time < range_end
+      AND s.deleted_at IS NULL
+  ),
+  finished AS (
+    SELECT * FROM range_sessions WHERE duration_minutes >= 0
+  ),
+  message_totals AS (
+    SELECT r.session_id, r.local_start, r.duration_minutes, count(m.id) AS message_count
+    FROM range_sessions r
+    LEFT JOIN messages m ON m.session_id = r.session_id
+    GROUP BY r.session_id, r.local_start, r.duration_minutes
+  ),
+  -- Alle buckets in de periode, ook lege; date_trunc('week') begint op maandag
+  buckets AS (
+    SELECT generate_series(
+      date_trunc(bucket, start_date::timestamp),
+      date_trunc(bucket, (end_date + 1)::timestamp - interval '1 hour'),
+      ('1 ' || bucket)::interval
+    ) AS bucket_start
+  ),
+  series AS (
+    SELECT
+      b.bucket_start,
+      count(t.session_id) AS session_count,
+      coalesce(sum(t.message_count), 0) AS message_count,
+      avg(t.message_count) AS avg_messages,
+      avg(t.duration_minutes) AS avg_minutes,
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY t.duration_minutes) AS median_minutes,
+      percentile_cont(0.9) WITHIN GROUP (ORDER BY t.duration_minutes) AS p90_minutes
+    FROM buckets b
+    LEFT JOIN message_totals t ON date_trunc(bucket, t.local_start) = b.bucket_start
+    GROUP BY b.bucket_start
+  ),
+  histogram_bins (min_minutes, max_minutes) AS (
+    VALUES (0, 1), (1, 2), (2, 5), (5, 10), (10, 15), (15, 20), (20, 30), (30, 60), (60, NULL)
+  ),
+  heatmap_events AS (
+    SELECT local_start AS local_time, 1 AS sessions, 0 AS messages
+    FROM range_sessions
+    UNION ALL
+    SELECT m.timestamp AT TIME ZONE tz, 0, 1
+    FROM messages m
+    JOIN sessions s ON s.session_id = m.session_id
+    WHERE m.timestamp >= range_start
+      AND m.timestamp < range_end
+      AND s.deleted_at IS NULL
+  ),
+  heatmap AS (
+    SELECT
+      extract(isodow FROM local_time)::int AS weekday,
+      extract(hour FROM local_time)::int AS hour,
+      sum(sessions) AS session_count,
+      sum(messages) AS message_count
+    FROM heatmap_events
+    GROUP BY 1, 2
+  ),
+  topic_counts AS (
+    SELECT t.id, t.label, t.color, t.position, count(st.session_id) AS session_count
+    FROM topics t
+    LEFT JOIN session_topics st
+      ON st.topic_id = t.id
+      AND st.session_id IN (SELECT session_id FROM range_sessions)
+    WHERE t.is_active
+    GROUP BY t.id, t.label, t.color, t.position
+  )
+  SELECT jsonb_build_object(
+    'time_zone', tz,
+    'kpis', (
+      SELECT jsonb_build_object(
+        'session_count', count(*),
+        'message_count', coalesce(sum(t.message_count), 0),
+        'avg_messages_per_session', round(avg(t.message_count)::numeric, 1),
+        'avg_duration_minutes', round(avg(t.duration_minutes)::numeric, 1)
+      )
+      FROM message_totals t
+    ),
+    'series', (
+      SELECT jsonb_agg(jsonb_build_object(
+        'bucket_start', to_char(s.bucket_start, 'YYYY-MM-DD"T"HH24:MI'),
+        'session_count', s.session_count,
+        'message_count', s.message_count,
+        'avg_messages_per_session', round(s.avg_messages::numeric, 1),
+        'avg_minutes', round(s.avg_minutes::numeric, 1),
+        'median_minutes', round(s.median_minutes::numeric, 1),
+        'p90_minutes', round(s.p90_minutes::numeric, 1)
+      ) ORDER BY s.bucket_start)
+      FROM series s
+    ),
+    'duration_summary', (
+      SELECT jsonb_build_object(
+        'session_count', count(*),
+        'avg_minutes', round(avg(f.duration_minutes)::numeric, 1),
+        'median_minutes', round((percentile_cont(0.5) WITHIN GROUP (ORDER BY f.duration_minutes))::numeric, 1),
+        'p90_minutes', round((percentile_cont(0.9) WITHIN GROUP (ORDER BY f.duration_minutes))::numeric, 1)
+      )
+      FROM finished f
+    ),
+    'duration_histogram', (
+      SELECT jsonb_agg(jsonb_build_object(
+        'min_minutes', h.min_minutes,
+        'max_minutes', h.max_minutes,
+        'session_count', (
+          SELECT count(*) FROM finished f
+          WHERE f.duration_minutes >= h.min_minutes
+            AND (h.max_minutes IS NULL OR f.duration_minutes < h.max_minutes)
+        )
+      ) ORDER BY h.min_minutes)
+      FROM histogram_bins h
+    ),
+    'usage_heatmap', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'weekday', hm.weekday,
+        'hour', hm.hour,
+        'session_count', hm.session_count,
+        'message_count', hm.message_count
+      ) ORDER BY hm.weekday, hm.hour)
+      FROM heatmap hm
+    ), '[]'::jsonb),
+    'topics', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'topic_id', tc.id,
+        'label', tc.label,
+        'color', tc.color,
+        'session_count', tc.session_count
+      ) ORDER BY tc.position, tc.label)
+      FROM topic_counts tc
+    ), '[]'::jsonb),
+    'classified_session_count', (
+      SELECT count(*) FROM session_classifications c
+      WHERE c.session_id IN (SELECT session_id FROM range_sessions)
+    )
+  ));
+END;
+$$;
@@ -0,0 +1,168 @@
+/*
+  # Reviewer tags and notes per session
+
+  1. Changes
+    - `session_tags`: free-form tags per session ('escaleren', 'fout antwoord', 'goed voorbeeld'),
+      stored lowercase and trimmed, with who added them
+    - `session_notes`: internal notes per session with author and timestamp; a note with
+      `parent_id` is a reply, one level deep
+    - `author_email` is filled from `users` on insert, so analysts (who cannot read `users`)
+      still see who wrote a note
+    - `session_tag_counts()` lists all tags in use with their number of sessions, for filters
+    - Add both tables to the realtime publication, so reviewers see each other's changes
+
+  2. Security
+    - Everyone signed in can read tags and notes
+    - Admins and analysts can add and remove tags and write notes
+    - Authors can edit and delete their own notes; admins can delete any note
+*/
+
+CREATE TABLE IF NOT EXISTS session_tags (
+  session_id text NOT NULL REFERENCES sessions(session_id) ON DELETE CASCADE,
+  tag text NOT NULL CHECK (tag = lower(btrim(tag)) AND length(tag) BETWEEN 1 AND 40),
+  created_by uuid DEFAULT auth.uid() REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (session_id, tag)
+);
+
+CREATE INDEX IF NOT EXISTS idx_session_tags_tag ON session_tags(tag);
+
+CREATE TABLE IF NOT EXISTS session_notes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id text NOT NULL REFERENCES sessions(session_id) ON DELETE CASCADE,
+  parent_id uuid REFERENCES session_notes(id) ON DELETE CASCADE,
+  author_id uuid DEFAULT auth.uid() REFERENCES users(id) ON DELETE SET NULL,
+  author_email text,
+  body text NOT NULL CHECK (length(btrim(body)) > 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_session_notes_session_id ON session_notes(session_id, created_at);
+
+-- Auteur vastleggen en replies maar één niveau diep, binnen dezelfde sessie
+CREATE OR REPLACE FUNCTION prepare_session_note()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  parent session_notes;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.author_email := (SELECT email FROM users WHERE id = NEW.author_id);
+
+    IF NEW.parent_id IS NOT NULL THEN
+      SELECT * INTO parent FROM session_notes WHERE id = NEW.parent_id;
+      IF parent.session_id IS DISTINCT FROM NEW.session_id OR parent.parent_id IS NOT NULL THEN
+        RAISE EXCEPTION 'Replies must point to a top-level note of the same session' USING ERRCODE = '22023';
+      END IF;
+    END IF;
+  ELSE
+    -- Alleen de tekst is aan te passen
+    NEW.session_id := OLD.session_id;
+    NEW.parent_id := OLD.parent_id;
+    NEW.author_id := OLD.author_id;
+    NEW.author_email := OLD.author_email;
+    NEW.created_at := OLD.created_at;
+    NEW.updated_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prepare_session_note ON session_notes;
+CREATE TRIGGER prepare_session_note
+  BEFORE INSERT OR UPDATE ON session_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION prepare_session_note();
+
+ALTER TABLE session_tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE session_notes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read session tags" ON session_tags;
+CREATE POLICY "Authenticated users can read session tags"
+  ON session_tags
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Reviewers can add session tags" ON session_tags;
+CREATE POLICY "Reviewers can add session tags"
+  ON session_tags
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (current_user_role() IN ('admin', 'analyst') AND created_by = auth.uid());
+
+DROP POLICY IF EXISTS "Reviewers can remove session tags" ON session_tags;
+CREATE POLICY "Reviewers can remove session tags"
+  ON session_tags
+  FOR DELETE
+  TO authenticated
+  USING (current_user_role() IN ('admin', 'analyst'));
+
+DROP POLICY IF EXISTS "Authenticated users can read session notes" ON session_notes;
+CREATE POLICY "Authenticated users can read session notes"
+  ON session_notes
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Reviewers can write session notes" ON session_notes;
+CREATE POLICY "Reviewers can write session notes"
+  ON session_notes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (current_user_role() IN ('admin', 'analyst') AND author_id = auth.uid());
+
+DROP POLICY IF EXISTS "Authors can edit their session notes" ON session_notes;
+CREATE POLICY "Authors can edit their session notes"
+  ON session_notes
+  FOR UPDATE
+  TO authenticated
+  USING (author_id = auth.uid() AND current_user_role() IN ('admin', 'analyst'))
+  WITH CHECK (author_id = auth.uid());
+
+DROP POLICY IF EXISTS "Authors and admins can delete session notes" ON session_notes;
+CREATE POLICY "Authors and admins can delete session notes"
+  ON session_notes
+  FOR DELETE
+  TO authenticated
+  USING (author_id = auth.uid() OR current_user_role() = 'admin');
+
+CREATE OR REPLACE FUNCTION session_tag_counts()
+RETURNS TABLE (tag text, session_count bigint)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT t.tag, count(*) AS session_count
+  FROM session_tags t
+  JOIN sessions s ON s.session_id = t.session_id
+  WHERE s.deleted_at IS NULL
+  GROUP BY t.tag
+  ORDER BY count(*) DESC, t.tag;
+$$;
+
+REVOKE EXECUTE ON FUNCTION session_tag_counts() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION session_tag_counts() TO authenticated;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'session_tags'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE session_tags;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'session_notes'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE session_notes;
+  END IF;
+END $$;
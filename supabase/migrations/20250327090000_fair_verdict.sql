@@ -0,0 +1,417 @@
+/*
+  # Quality annotations on avatar answers
+
+  1. Changes
+    - `message_annotations`: one verdict per avatar message, thumbs up or down; a thumbs down
+      can carry an error category (hallucination, off_topic, unclear, inappropriate) and a
+      suggested correct answer
+    - `review_status` tracks whether a flagged answer has been processed into the avatar's
+      knowledge base ('open' or 'resolved'), with who resolved it and when
+    - `session_id` and `annotator_email` are filled from `messages` and `users` on insert, so
+      the review queue can filter per session and analysts see who flagged an answer
+    - `flagged_answers()` lists thumbs down annotations together with the answer and the user
+      question it responded to, for the review queue
+    - `dashboard_period_stats()` gains `answer_quality` (share of thumbs up among rated answers,
+      with a breakdown per error category) and per bucket `rated_answer_count`,
+      `positive_answer_count` and `answer_quality_rate`
+    - Add the table to the realtime publication
+
+  2. Security
+    - Everyone signed in can read annotations
+    - Admins and analysts can annotate, change and remove annotations and resolve flagged answers
+
+  3. Notes
+    - Only avatar messages can be annotated; the user side of a transcript is not judged
+    - Answers are bucketed by the start of their session, like the rest of `series`
+*/
+
+CREATE TABLE IF NOT EXISTS message_annotations (
+  message_id uuid PRIMARY KEY REFERENCES messages(id) ON DELETE CASCADE,
+  session_id text NOT NULL REFERENCES sessions(session_id) ON DELETE CASCADE,
+  rating text NOT NULL CHECK (rating IN ('up', 'down')),
+  error_category text CHECK (error_category IN ('hallucination', 'off_topic', 'unclear', 'inappropriate')),
+  suggested_answer text,
+  annotated_by uuid DEFAULT auth.uid() REFERENCES users(id) ON DELETE SET NULL,
+  annotator_email text,
+  review_status text NOT NULL DEFAULT 'open' CHECK (review_status IN ('open', 'resolved')),
+  resolved_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  resolved_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  -- Een categorie en een voorstel horen alleen bij een negatief oordeel
+  CHECK (rating = 'down' OR (error_category IS NULL AND suggested_answer IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_annotations_session_id ON message_annotations(session_id);
+CREATE INDEX IF NOT EXISTS idx_message_annotations_flagged
+  ON message_annotations(review_status, updated_at DESC)
+  WHERE rating = 'down';
+
+-- Sessie en annotator invullen, alleen antwoorden van de avatar, en de afhandeling bijhouden
+CREATE OR REPLACE FUNCTION prepare_message_annotation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  annotated_message messages;
+BEGIN
+  SELECT * INTO annotated_message FROM messages WHERE id = NEW.message_id;
+  IF annotated_message.sender IS DISTINCT FROM 'avatar' THEN
+    RAISE EXCEPTION 'Only avatar messages can be annotated' USING ERRCODE = '22023';
+  END IF;
+
+  NEW.session_id := annotated_message.session_id;
+  NEW.suggested_answer := nullif(btrim(NEW.suggested_answer), '');
+
+  IF NEW.rating = 'up' THEN
+    NEW.error_category := NULL;
+    NEW.suggested_answer := NULL;
+  END IF;
+
+  -- Een nieuw of gewijzigd oordeel is van wie het het laatst heeft aangepast
+  IF TG_OP = 'INSERT'
+    OR NEW.rating IS DISTINCT FROM OLD.rating
+    OR NEW.error_category IS DISTINCT FROM OLD.error_category
+    OR NEW.suggested_answer IS DISTINCT FROM OLD.suggested_answer
+  THEN
+    NEW.annotated_by := auth.uid();
+    NEW.annotator_email := (SELECT email FROM users WHERE id = NEW.annotated_by);
+    NEW.updated_at := now();
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    NEW.created_at := OLD.created_at;
+  END IF;
+
+  IF NEW.review_status = 'resolved' AND (TG_OP = 'INSERT' OR OLD.review_status <> 'resolved') THEN
+    NEW.resolved_by := auth.uid();
+    NEW.resolved_at := now();
+  ELSIF NEW.review_status = 'open' THEN
+    NEW.resolved_by := NULL;
+    NEW.resolved_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prepare_message_annotation ON message_annotations;
+CREATE TRIGGER prepare_message_annotation
+  BEFORE INSERT OR UPDATE ON message_annotations
+  FOR EACH ROW
+  EXECUTE FUNCTION prepare_message_annotation();
+
+ALTER TABLE message_annotations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read message annotations" ON message_annotations;
+CREATE POLICY "Authenticated users can read message annotations"
+  ON message_annotations
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Reviewers can annotate messages" ON message_annotations;
+CREATE POLICY "Reviewers can annotate messages"
+  ON message_annotations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (current_user_role() IN ('admin', 'analyst'));
+
+DROP POLICY IF EXISTS "Reviewers can update message annotations" ON message_annotations;
+CREATE POLICY "Reviewers can update message annotations"
+  ON message_annotations
+  FOR UPDATE
+  TO authenticated
+  USING (current_user_role() IN ('admin', 'analyst'))
+  WITH CHECK (current_user_role() IN ('admin', 'analyst'));
+
+DROP POLICY IF EXISTS "Reviewers can remove message annotations" ON message_annotations;
+CREATE POLICY "Reviewers can remove message annotations"
+  ON message_annotations
+  FOR DELETE
+  TO authenticated
+  USING (current_user_role() IN ('admin', 'analyst'));
+
+-- Negatief beoordeelde antwoorden met de vraag waar ze op volgden, nieuwste eerst
+CREATE OR REPLACE FUNCTION flagged_answers(
+  p_status text DEFAULT 'open',
+  p_category text DEFAULT NULL,
+  max_rows integer DEFAULT 200
+)
+RETURNS TABLE (
+  message_id uuid,
+  session_id text,
+  question text,
+  answer text,
+  answered_at timestamptz,
+  error_category text,
+  suggested_answer text,
+  annotator_email text,
+  review_status text,
+  resolved_at timestamptz,
+  updated_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    a.message_id,
+    a.session_id,
+    q.message AS question,
+    m.message AS answer,
+    m.timestamp AS answered_at,
+    a.error_category,
+    a.suggested_answer,
+    a.annotator_email,
+    a.review_status,
+    a.resolved_at,
+    a.updated_at
+  FROM message_annotations a
+  JOIN messages m ON m.id = a.message_id
+  JOIN sessions s ON s.session_id = a.session_id
+  LEFT JOIN LATERAL (
+    SELECT string_agg(u.message, E'\n' ORDER BY u.timestamp) AS message
+    FROM messages u
+    WHERE u.session_id = m.session_id
+      AND u.sender = 'user'
+      AND u.timestamp <= m.timestamp
+      -- Alle vragen sinds het vorige antwoord van de avatar
+      AND u.timestamp > coalesce((
+        SELECT max(p.timestamp) FROM messages p
+        WHERE p.session_id = m.session_id
+          AND p.sender = 'avatar'
+          AND p.timestamp < m.timestamp
+      ), '-infinity')
+  ) q ON true
+  WHERE a.rating = 'down'
+    AND s.deleted_at IS NULL
+    AND (p_status IS NULL OR a.review_status = p_status)
+    AND (p_category IS NULL OR a.error_category = p_category)
+  ORDER BY a.updated_at DESC
+  LIMIT max_rows;
+$$;
+
+REVOKE EXECUTE ON FUNCTION flagged_answers(text, text, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION flagged_answers(text, text, integer) TO authenticated;
+
+CREATE OR REPLACE FUNCTION dashboard_period_stats(
+  start_date date,
+  end_date date,
+  bucket text DEFAULT 'day'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  tz text := reporting_timezone();
+  -- Middernacht lokale tijd; range_end is exclusief
+  range_start timestamptz := start_date::timestamp AT TIME ZONE tz;
+  range_end timestamptz := (end_date + 1)::timestamp AT TIME ZONE tz;
+BEGIN
+  IF bucket NOT IN ('hour', 'day', 'week') THEN
+    RAISE EXCEPTION 'Invalid bucket: %', bucket USING ERRCODE = '22023';
+  END IF;
+
+  IF end_date < start_date THEN
+    RAISE EXCEPTION 'end_date must not be before start_date' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN (
+  WITH range_sessions AS (
+    SELECT
+      s.session_id,
+      s.start_time AT TIME ZONE tz AS local_start,
+      CASE
+        WHEN s.end_time IS NOT NULL AND s.status NOT IN ('active', 'connecting', 'connected')
+          THEN extract(epoch FROM s.duration) / 60.0
+      END AS duration_minutes
+    FROM sessions s
+    WHERE s.start_time >= range_start
+      AND s.start_time < range_end
+      AND s.deleted_at IS NULL
+  ),
+  finished AS (
+    SELECT * FROM range_sessions WHERE duration_minutes >= 0
+  ),
+  message_totals AS (
+    SELECT r.session_id, r.local_start, r.duration_minutes, count(m.id) AS message_count
+    FROM range_sessions r
+    LEFT JOIN messages m ON m.session_id = r.session_id
+    GROUP BY r.session_id, r.local_start, r.duration_minutes
+  ),
+  -- Alle buckets in de periode, ook lege; date_trunc('week') begint op maandag
+  buckets AS (
+    SELECT generate_series(
+      date_trunc(bucket, start_date::timestamp),
+      date_trunc(bucket, (end_date + 1)::timestamp - interval '1 hour'),
+      ('1 ' || bucket)::interval
+    ) AS bucket_start
+  ),
+  series AS (
+    SELECT
+      b.bucket_start,
+      count(t.session_id) AS session_count,
+      coalesce(sum(t.message_count), 0) AS message_count,
+      avg(t.message_count) AS avg_messages,
+      avg(t.duration_minutes) AS avg_minutes,
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY t.duration_minutes) AS median_minutes,
+      percentile_cont(0.9) WITHIN GROUP (ORDER BY t.duration_minutes) AS p90_minutes
+    FROM buckets b
+    LEFT JOIN message_totals t ON date_trunc(bucket, t.local_start) = b.bucket_start
+    GROUP BY b.bucket_start
+  ),
+  rated_answers AS (
+    SELECT r.local_start, a.rating, a.error_category
+    FROM range_sessions r
+    JOIN message_annotations a ON a.session_id = r.session_id
+  ),
+  quality_series AS (
+    SELECT
+      b.bucket_start,
+      count(q.rating) AS rated_count,
+      count(*) FILTER (WHERE q.rating = 'up') AS positive_count
+    FROM buckets b
+    LEFT JOIN rated_answers q ON date_trunc(bucket, q.local_start) = b.bucket_start
+    GROUP BY b.bucket_start
+  ),
+  error_categories (category, position) AS (
+    VALUES ('hallucination', 1), ('off_topic', 2), ('unclear', 3), ('inappropriate', 4)
+  ),
+  histogram_bins (min_minutes, max_minutes) AS (
+    VALUES (0, 1), (1, 2), (2, 5), (5, 10), (10, 15), (15, 20), (20, 30), (30, 60), (60, NULL)
+  ),
+  heatmap_events AS (
+    SELECT local_start AS local_time, 1 AS sessions, 0 AS messages
+    FROM range_sessions
+    UNION ALL
+    SELECT m.timestamp AT TIME ZONE tz, 0, 1
+    FROM messages m
+    JOIN sessions s ON s.session_id = m.session_id
+    WHERE m.timestamp >= range_start
+      AND m.timestamp < range_end
+      AND s.deleted_at IS NULL
+  ),
+  heatmap AS (
+    SELECT
+      extract(isodow FROM local_time)::int AS weekday,
+      extract(hour FROM local_time)::int AS hour,
+      sum(sessions) AS session_count,
+      sum(messages) AS message_count
+    FROM heatmap_events
+    GROUP BY 1, 2
+  ),
+  topic_counts AS (
+    SELECT t.id, t.label, t.color, t.position, count(st.session_id) AS session_count
+    FROM topics t
+    LEFT JOIN session_topics st
+      ON st.topic_id = t.id
+      AND st.session_id IN (SELECT session_id FROM range_sessions)
+    WHERE t.is_active
+    GROUP BY t.id, t.label, t.color, t.position
+  )
+  SELECT jsonb_build_object(
+    'time_zone', tz,
+    'kpis', (
+      SELECT jsonb_build_object(
+        'session_count', count(*),
+        'message_count', coalesce(sum(t.message_count), 0),
+        'avg_messages_per_session', round(avg(t.message_count)::numeric, 1),
+        'avg_duration_minutes', round(avg(t.duration_minutes)::numeric, 1)
+      )
+      FROM message_totals t
+    ),
+    'series', (
+      SELECT jsonb_agg(jsonb_build_object(
+        'bucket_start', to_char(s.bucket_start, 'YYYY-MM-DD"T"HH24:MI'),
+        'session_count', s.session_count,
+        'message_count', s.message_count,
+        'avg_messages_per_session', round(s.avg_messages::numeric, 1),
+        'avg_minutes', round(s.avg_minutes::numeric, 1),
+        'median_minutes', round(s.median_minutes::numeric, 1),
+        'p90_minutes', round(s.p90_minutes::numeric, 1),
+        'rated_answer_count', q.rated_count,
+        'positive_answer_count', q.positive_count,
+        'answer_quality_rate', round(100.0 * q.positive_count / nullif(q.rated_count, 0), 1)
+      ) ORDER BY s.bucket_start)
+      FROM series s
+      JOIN quality_series q ON q.bucket_start = s.bucket_start
+    ),
+    'duration_summary', (
+      SELECT jsonb_build_object(
+        'session_count', count(*),
+        'avg_minutes', round(avg(f.duration_minutes)::numeric, 1),
+        'median_minutes', round((percentile_cont(0.5) WITHIN GROUP (ORDER BY f.duration_minutes))::numeric, 1),
+        'p90_minutes', round((percentile_cont(0.9) WITHIN GROUP (ORDER BY f.duration_minutes))::numeric, 1)
+      )
+      FROM finished f
+    ),
+    'duration_histogram', (
+      SELECT jsonb_agg(jsonb_build_object(
+        'min_minutes', h.min_minutes,
+        'max_minutes', h.max_minutes,
+        'session_count', (
+          SELECT count(*) FROM finished f
+          WHERE f.duration_minutes >= h.min_minutes
+            AND (h.max_minutes IS NULL OR f.duration_minutes < h.max_minutes)
+        )
+      ) ORDER BY h.min_minutes)
+      FROM histogram_bins h
+    ),
+    'usage_heatmap', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'weekday', hm.weekday,
+        'hour', hm.hour,
+        'session_count', hm.session_count,
+        'message_count', hm.message_count
+      ) ORDER BY hm.weekday, hm.hour)
+      FROM heatmap hm
+    ), '[]'::jsonb),
+    'topics', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'topic_id', tc.id,
+        'label', tc.label,
+        'color', tc.color,
+        'session_count', tc.session_count
+      ) ORDER BY tc.position, tc.label)
+      FROM topic_counts tc
+    ), '[]'::jsonb),
+    'classified_session_count', (
+      SELECT count(*) FROM session_classifications c
+      WHERE c.session_id IN (SELECT session_id FROM range_sessions)
+    ),
+    'answer_quality', (
+      SELECT jsonb_build_object(
+        'rated_count', count(*),
+        'positive_count', count(*) FILTER (WHERE ra.rating = 'up'),
+        'negative_count', count(*) FILTER (WHERE ra.rating = 'down'),
+        'quality_rate', round(100.0 * count(*) FILTER (WHERE ra.rating = 'up') / nullif(count(*), 0), 1),
+        'categories', (
+          SELECT jsonb_agg(jsonb_build_object(
+            'category', ec.category,
+            'count', (SELECT count(*) FROM rated_answers c WHERE c.error_category = ec.category)
+          ) ORDER BY ec.position)
+          FROM error_categories ec
+        )
+      )
+      FROM rated_answers ra
+    )
+  ));
+END;
+$$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'message_annotations'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE message_annotations;
+  END IF;
+END $$;
@@ -0,0 +1,59 @@
+/*
+  # Live operations board
+
+  1. Changes
+    - `live_sessions()` returns every session that is still running (`active`, `connecting`
+      or `connected`) with its message count and the last message, for the live board
+    - Add `idx_messages_session_timestamp` so the last message per session is an index lookup
+
+  2. Security
+    - SECURITY INVOKER, so the existing policies on `sessions` and `messages` apply
+    - Callable by authenticated users only
+
+  3. Notes
+    - Sessions in the trash are left out
+    - `last_activity_at` is the last message, or the start of the session when there are none yet
+*/
+
+CREATE INDEX IF NOT EXISTS idx_messages_session_timestamp ON messages(session_id, timestamp DESC);
+
+CREATE OR REPLACE FUNCTION live_sessions()
+RETURNS TABLE (
+  session_id text,
+  status text,
+  heygen_status text,
+  start_time timestamptz,
+  message_count bigint,
+  last_message text,
+  last_message_sender text,
+  last_activity_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    s.session_id,
+    s.status,
+    s.heygen_status,
+    s.start_time,
+    (SELECT count(*) FROM messages m WHERE m.session_id = s.session_id) AS message_count,
+    last_message.message,
+    last_message.sender,
+    coalesce(last_message.timestamp, s.start_time) AS last_activity_at
+  FROM sessions s
+  LEFT JOIN LATERAL (
+    SELECT m.message, m.sender, m.timestamp
+    FROM messages m
+    WHERE m.session_id = s.session_id
+    ORDER BY m.timestamp DESC
+    LIMIT 1
+  ) last_message ON true
+  WHERE s.status IN ('active', 'connecting', 'connected')
+    AND s.deleted_at IS NULL
+  ORDER BY s.start_time DESC;
+$$;
+
+REVOKE EXECUTE ON FUNCTION live_sessions() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION live_sessions() TO authenticated;
@@ -0,0 +1,51 @@
+/*
+  # Stale session reconciliation
+
+  1. Changes
+    - `app_settings.session_idle_timeout_minutes` (default 30): an open session without messages
+      for longer than this is closed by the sync worker
+    - `sessions.close_reason` records why a session was closed:
+        stopped       stopped by a user via heygen-stop
+        heygen_ended  HeyGen reports the session as ended
+        heygen_error  HeyGen reports the session as failed (status becomes `error`)
+        not_found     HeyGen no longer knows the session
+        idle_timeout  no activity for longer than the idle timeout
+    - Sessions that were closed before this migration keep `close_reason` NULL (unknown)
+
+  2. Security
+    - Only admins can change the idle timeout (existing app_settings update policy)
+    - `close_reason` is written by the edge functions with the service role
+
+  3. Notes
+    - The sync worker sets `end_time` to the end reported by HeyGen, or to the last message
+      (the start of the session when there are none) instead of the moment of reconciliation
+*/
+
+ALTER TABLE app_settings
+ADD COLUMN IF NOT EXISTS session_idle_timeout_minutes integer NOT NULL DEFAULT 30;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'app_settings_session_idle_timeout_minutes_check'
+  ) THEN
+    ALTER TABLE app_settings
+    ADD CONSTRAINT app_settings_session_idle_timeout_minutes_check
+      CHECK (session_idle_timeout_minutes BETWEEN 5 AND 1440);
+  END IF;
+END $$;
+
+ALTER TABLE sessions
+ADD COLUMN IF NOT EXISTS close_reason text;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'sessions_close_reason_check'
+  ) THEN
+    ALTER TABLE sessions
+    ADD CONSTRAINT sessions_close_reason_check
+      CHECK (close_reason IN ('stopped', 'heygen_ended', 'heygen_error', 'not_found', 'idle_timeout'));
+  END IF;
+END $$;
+
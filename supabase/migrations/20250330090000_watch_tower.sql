@@ -0,0 +1,336 @@
+/*
+  # Alert rules and notifications
+
+  1. Changes
+    - `alert_rules`: configurable rules with a kind, parameters, severity and delivery channels,
+      seeded with four rules:
+        session_error  a session gets status `error`
+        long_session   a session is still open after `minutes` minutes
+        session_rate   more than `max_sessions` sessions started within `window_minutes` minutes
+        keyword        a user message contains one of `keywords` (same matching as topics)
+    - `alerts`: the notifications raised by the rules, at most one per rule and `dedupe_key`
+      (a session, a message or a time window), so repeated evaluation does not notify twice
+    - `alert_reads`: which alerts a user has read, for the notification center
+    - `alert_deliveries`: the outcome of each e-mail and webhook delivery
+    - `alert_events`: queue of changed sessions (insert or status change) and new user messages,
+      filled by triggers and drained by the `evaluate-alerts` edge function
+    - `unread_alert_count()` and `mark_alerts_read(alert_ids)` for the signed in user
+    - `pending_alert_deliveries(max_rows)`: e-mail and webhook deliveries the worker still has to
+      (re)try
+    - The worker runs every minute; time based rules (long_session, session_rate) are evaluated
+      on every run, the other rules only for queued changes
+    - Add `alerts` to the realtime publication
+
+  2. Security
+    - Everyone signed in can read the rules and the alerts
+    - Only admins can change rules and read the delivery log
+    - Users only see and write their own read markers
+    - Alerts, deliveries and the queue are only written by the worker (service role) and triggers
+
+  3. Notes
+    - Deleting a rule keeps its alerts (`rule_id` becomes NULL)
+    - Keyword rules only look at messages from the user, not at the answers of the avatar
+    - Deliveries are at least once: an alert without a `sent` delivery for a channel is retried
+      on the next runs, up to 5 failed attempts and for alerts of at most 24 hours old. A run
+      that stops between sending and logging the delivery sends it again
+*/
+
+CREATE TABLE IF NOT EXISTS alert_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (length(btrim(name)) > 0),
+  kind text NOT NULL CHECK (kind IN ('session_error', 'long_session', 'session_rate', 'keyword')),
+  params jsonb NOT NULL DEFAULT '{}',
+  severity text NOT NULL DEFAULT 'warning' CHECK (severity IN ('info', 'warning', 'critical')),
+  channels text[] NOT NULL DEFAULT '{in_app}' CHECK (channels <@ ARRAY['in_app', 'email', 'webhook']),
+  email_recipients text[] NOT NULL DEFAULT '{}',
+  webhook_url text CHECK (webhook_url ~ '^https?://'),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  -- Een kanaal zonder ontvanger zou elke melding laten mislukken
+  CONSTRAINT alert_rules_email_channel_check
+    CHECK (NOT ('email' = ANY (channels)) OR cardinality(email_recipients) > 0),
+  CONSTRAINT alert_rules_webhook_channel_check
+    CHECK (NOT ('webhook' = ANY (channels)) OR webhook_url IS NOT NULL)
+);
+
+-- Parameters per soort regel; getallen moeten positief zijn
+CREATE OR REPLACE FUNCTION alert_rule_params_valid(rule_kind text, rule_params jsonb)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  CASE rule_kind
+    WHEN 'long_session' THEN
+      RETURN jsonb_typeof(rule_params->'minutes') = 'number'
+        AND (rule_params->>'minutes')::numeric >= 1;
+    WHEN 'session_rate' THEN
+      RETURN jsonb_typeof(rule_params->'max_sessions') = 'number'
+        AND jsonb_typeof(rule_params->'window_minutes') = 'number'
+        AND (rule_params->>'max_sessions')::numeric >= 1
+        AND (rule_params->>'window_minutes')::numeric >= 1;
+    WHEN 'keyword' THEN
+      RETURN jsonb_typeof(rule_params->'keywords') = 'array'
+        AND jsonb_array_length(rule_params->'keywords') > 0;
+    ELSE
+      RETURN true;
+  END CASE;
+END;
+$$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'alert_rules_params_check'
+  ) THEN
+    ALTER TABLE alert_rules
+    ADD CONSTRAINT alert_rules_params_check CHECK (alert_rule_params_valid(kind, params));
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS alerts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  rule_id uuid REFERENCES alert_rules(id) ON DELETE SET NULL,
+  kind text NOT NULL CHECK (kind IN ('session_error', 'long_session', 'session_rate', 'keyword')),
+  severity text NOT NULL CHECK (severity IN ('info', 'warning', 'critical')),
+  title text NOT NULL,
+  body text NOT NULL DEFAULT '',
+  session_id text REFERENCES sessions(session_id) ON DELETE CASCADE,
+  message_id uuid REFERENCES messages(id) ON DELETE SET NULL,
+  dedupe_key text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (rule_id, dedupe_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_alerts_created_at ON alerts(created_at DESC);
+
+CREATE TABLE IF NOT EXISTS alert_reads (
+  alert_id uuid NOT NULL REFERENCES alerts(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES users(id) ON DELETE CASCADE,
+  read_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (alert_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_reads_user_id ON alert_reads(user_id);
+
+CREATE TABLE IF NOT EXISTS alert_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  alert_id uuid NOT NULL REFERENCES alerts(id) ON DELETE CASCADE,
+  channel text NOT NULL,
+  status text NOT NULL CHECK (status IN ('sent', 'failed')),
+  error text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_deliveries_alert_id ON alert_deliveries(alert_id);
+
+CREATE TABLE IF NOT EXISTS alert_events (
+  id bigserial PRIMARY KEY,
+  source text NOT NULL CHECK (source IN ('session', 'message')),
+  record_id text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE alert_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE alerts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE alert_reads ENABLE ROW LEVEL SECURITY;
+ALTER TABLE alert_deliveries ENABLE ROW LEVEL SECURITY;
+-- Geen policies: alleen de triggers en de worker komen bij de wachtrij
+ALTER TABLE alert_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read alert rules" ON alert_rules;
+CREATE POLICY "Authenticated users can read alert rules"
+  ON alert_rules
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage alert rules" ON alert_rules;
+CREATE POLICY "Admins can manage alert rules"
+  ON alert_rules
+  FOR ALL
+  TO authenticated
+  USING (current_user_role() = 'admin')
+  WITH CHECK (current_user_role() = 'admin');
+
+DROP POLICY IF EXISTS "Authenticated users can read alerts" ON alerts;
+CREATE POLICY "Authenticated users can read alerts"
+  ON alerts
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Users can read their own alert reads" ON alert_reads;
+CREATE POLICY "Users can read their own alert reads"
+  ON alert_reads
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can mark alerts as read" ON alert_reads;
+CREATE POLICY "Users can mark alerts as read"
+  ON alert_reads
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Admins can read alert deliveries" ON alert_deliveries;
+CREATE POLICY "Admins can read alert deliveries"
+  ON alert_deliveries
+  FOR SELECT
+  TO authenticated
+  USING (current_user_role() = 'admin');
+
+CREATE OR REPLACE FUNCTION touch_alert_rules()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS touch_alert_rules ON alert_rules;
+CREATE TRIGGER touch_alert_rules
+  BEFORE UPDATE ON alert_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_alert_rules();
+
+-- Startset; drempels en keywords zijn daarna via de instellingen aan te passen
+INSERT INTO alert_rules (name, kind, params, severity)
+SELECT v.name, v.kind, v.params, v.severity
+FROM (VALUES
+  ('Sessie met fout', 'session_error', '{}'::jsonb, 'critical'),
+  ('Sessie langer dan 60 minuten', 'long_session', '{"minutes": 60}'::jsonb, 'warning'),
+  ('Meer dan 20 sessies per uur', 'session_rate', '{"max_sessions": 20, "window_minutes": 60}'::jsonb, 'info'),
+  ('Signaalwoorden in vraag', 'keyword', '{"keywords": ["klacht*", "depressie*", "stoppen"]}'::jsonb, 'critical')
+) AS v(name, kind, params, severity)
+WHERE NOT EXISTS (SELECT 1 FROM alert_rules);
+
+-- Nieuwe sessies en statuswijzigingen in de wachtrij
+CREATE OR REPLACE FUNCTION enqueue_session_alert_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO alert_events (source, record_id) VALUES ('session', NEW.session_id);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enqueue_alert_event_after_session_insert ON sessions;
+CREATE TRIGGER enqueue_alert_event_after_session_insert
+  AFTER INSERT ON sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION enqueue_session_alert_event();
+
+DROP TRIGGER IF EXISTS enqueue_alert_event_after_session_status ON sessions;
+CREATE TRIGGER enqueue_alert_event_after_session_status
+  AFTER UPDATE OF status ON sessions
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION enqueue_session_alert_event();
+
+-- Alleen berichten van de gebruiker; de keyword regels kijken niet naar de antwoorden
+CREATE OR REPLACE FUNCTION enqueue_message_alert_events()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO alert_events (source, record_id)
+  SELECT 'message', id::text FROM new_rows WHERE sender = 'user';
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enqueue_alert_events_after_message_insert ON messages;
+CREATE TRIGGER enqueue_alert_events_after_message_insert
+  AFTER INSERT ON messages
+  REFERENCING NEW TABLE AS new_rows
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION enqueue_message_alert_events();
+
+CREATE OR REPLACE FUNCTION unread_alert_count()
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT count(*)::integer
+  FROM alerts a
+  WHERE NOT EXISTS (
+    SELECT 1 FROM alert_reads r WHERE r.alert_id = a.id AND r.user_id = auth.uid()
+  );
+$$;
+
+-- Markeert de opgegeven alerts als gelezen; zonder alert_ids alle ongelezen alerts
+CREATE OR REPLACE FUNCTION mark_alerts_read(alert_ids uuid[] DEFAULT NULL)
+RETURNS void
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  INSERT INTO alert_reads (alert_id, user_id)
+  SELECT a.id, auth.uid()
+  FROM alerts a
+  WHERE alert_ids IS NULL OR a.id = ANY (alert_ids)
+  ON CONFLICT (alert_id, user_id) DO NOTHING;
+$$;
+
+-- Externe kanalen van actieve regels zonder geslaagde bezorging; nieuwe alerts (nog geen poging) eerst
+CREATE OR REPLACE FUNCTION pending_alert_deliveries(max_rows integer DEFAULT 100)
+RETURNS TABLE (alert_id uuid, channel text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT a.id, c.channel
+  FROM alerts a
+  JOIN alert_rules r ON r.id = a.rule_id AND r.is_active
+  CROSS JOIN LATERAL unnest(r.channels) AS c(channel)
+  CROSS JOIN LATERAL (
+    SELECT count(*) AS attempts, bool_or(d.status = 'sent') AS sent
+    FROM alert_deliveries d
+    WHERE d.alert_id = a.id AND d.channel = c.channel
+  ) d
+  WHERE c.channel <> 'in_app'
+    AND a.created_at > now() - interval '24 hours'
+    AND d.sent IS NOT TRUE
+    AND d.attempts < 5
+  ORDER BY d.attempts, a.created_at
+  LIMIT max_rows;
+$$;
+
+REVOKE EXECUTE ON FUNCTION unread_alert_count() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION mark_alerts_read(uuid[]) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION pending_alert_deliveries(integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION unread_alert_count() TO authenticated;
+GRANT EXECUTE ON FUNCTION mark_alerts_read(uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION pending_alert_deliveries(integer) TO service_role;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'evaluate-alerts') THEN
+    PERFORM cron.unschedule('evaluate-alerts');
+  END IF;
+END $$;
+
+SELECT cron.schedule('evaluate-alerts', '* * * * *', $$SELECT invoke_edge_function('evaluate-alerts')$$);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'alerts'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE alerts;
+  END IF;
+END $$;
@@ -0,0 +1,37 @@
+/*
+  # Analyst session updates by allowlist
+
+  1. Changes
+    - `enforce_session_permissions()` compares the whole row instead of a fixed list of columns:
+      analysts may only change `is_relevant` and `is_archived`; the generated `duration`
+      is left out of the comparison
+
+  2. Security
+    - Columns that were not in the old list (`sync_cursor`, `last_sync_at`, `close_reason`, ...)
+      and columns added later are protected from analysts as well
+    - Admins, the service role and database jobs are unchanged
+*/
+
+-- RLS can't restrict columns, so analysts are limited to the annotation flags here
+CREATE OR REPLACE FUNCTION enforce_session_permissions()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Service role and database jobs have no auth.uid()
+  IF auth.uid() IS NULL OR current_user_role() = 'admin' THEN
+    RETURN NEW;
+  END IF;
+
+  -- In een BEFORE trigger is de generated column `duration` in NEW nog NULL, dus die telt niet mee
+  IF current_user_role() = 'analyst'
+    AND (to_jsonb(NEW) - 'is_relevant' - 'is_archived' - 'duration')
+      = (to_jsonb(OLD) - 'is_relevant' - 'is_archived' - 'duration')
+  THEN
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'Insufficient permissions to change this session'
+    USING ERRCODE = '42501';
+END;
+$$;
@@ -0,0 +1,59 @@
+/*
+  # User deletes through GoTrue
+
+  1. Changes
+    - Drop `delete_auth_user(uuid)`: deleting straight from `auth.users` bypassed GoTrue
+      (sessions, identities and hooks); `manage-users` now calls `auth.admin.deleteUser()`
+    - `audit_user_changes` only records updates; `manage-users` writes `user.deleted` and
+      `user.invite_revoked` itself via `write_audit_log()`, with the admin as actor
+
+  2. Security
+    - `write_audit_log()` is executable by the service role, so edge functions can record
+      changes that do not go through PostgREST
+    - Still not executable by clients
+
+  3. Notes
+    - A delete through GoTrue runs outside PostgREST, so the trigger would not know the actor
+    - Users deleted outside `manage-users` (for example in the Supabase dashboard) are not logged
+*/
+
+DROP FUNCTION IF EXISTS delete_auth_user(uuid);
+
+GRANT EXECUTE ON FUNCTION write_audit_log(uuid, text, text, text, text, jsonb, jsonb) TO service_role;
+
+CREATE OR REPLACE FUNCTION audit_user_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor uuid := audit_actor();
+BEGIN
+  -- Een uitnodiging wordt gelogd zodra manage-users `invited_by` zet; de insert door GoTrue heeft geen actor
+  IF OLD.invited_by IS NULL AND NEW.invited_by IS NOT NULL THEN
+    PERFORM write_audit_log(coalesce(actor, NEW.invited_by), 'user.invited', 'user', NEW.id::text, NULL,
+      NULL, jsonb_build_object('email', NEW.email, 'role', NEW.role));
+  ELSIF OLD.role IS DISTINCT FROM NEW.role THEN
+    PERFORM write_audit_log(actor, 'user.role_changed', 'user', NEW.id::text, NULL,
+      jsonb_build_object('email', OLD.email, 'role', OLD.role),
+      jsonb_build_object('email', NEW.email, 'role', NEW.role));
+  END IF;
+
+  IF OLD.status IS DISTINCT FROM NEW.status AND (OLD.status = 'deactivated' OR NEW.status = 'deactivated') THEN
+    PERFORM write_audit_log(actor,
+      CASE WHEN NEW.status = 'deactivated' THEN 'user.deactivated' ELSE 'user.reactivated' END,
+      'user', NEW.id::text, NULL,
+      jsonb_build_object('email', OLD.email, 'status', OLD.status),
+      jsonb_build_object('email', NEW.email, 'status', NEW.status));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_user_changes ON users;
+CREATE TRIGGER audit_user_changes
+  AFTER UPDATE ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_user_changes();
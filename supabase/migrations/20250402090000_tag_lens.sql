@@ -0,0 +1,29 @@
+/*
+  # Tag filter in the database
+
+  1. Changes
+    - Add computed column `tag_list(sessions)`: the tags of a session as a sorted array, so the
+      sessions list filters on tags with `tag_list=cs.{...}` instead of a list of session_ids
+
+  2. Security
+    - SECURITY INVOKER, so the RLS policies on `session_tags` still apply
+
+  3. Notes
+    - Replaces resolving the tag filter to session_ids in the browser, which was capped at
+      1000 rows by PostgREST and put every id in the request URL
+*/
+
+CREATE OR REPLACE FUNCTION tag_list(sessions)
+RETURNS text[]
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT coalesce(array_agg(t.tag ORDER BY t.tag), '{}')
+  FROM session_tags t
+  WHERE t.session_id = $1.session_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION tag_list(sessions) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION tag_list(sessions) TO authenticated;
@@ -0,0 +1,66 @@
+/*
+  # Authenticate cron calls to edge functions
+
+  1. Changes
+    - `invoke_heygen_sync()` and `invoke_edge_function()` send the Vault secret `cron_secret`
+      in the `x-cron-secret` header
+
+  2. Security
+    - `heygen-sync` runs with the service role and closes sessions; the anon key in the
+      Authorization header is public, so it no longer authorizes a full reconcile
+    - A full reconcile requires `x-cron-secret` or a signed-in admin, syncing the messages of
+      one session requires a signed-in user
+
+  3. Configuration
+    - Expects a Vault secret `cron_secret` next to `project_url` and `anon_key`, and the same
+      value as edge function secret `CRON_SECRET`:
+        SELECT vault.create_secret('<random string>', 'cron_secret');
+        supabase secrets set CRON_SECRET=<same string>
+*/
+
+CREATE OR REPLACE FUNCTION invoke_heygen_sync()
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN invoke_edge_function('heygen-sync');
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION invoke_heygen_sync() FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION invoke_edge_function(function_name text, body jsonb DEFAULT '{}'::jsonb)
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  project_url text;
+  anon_key text;
+  cron_secret text;
+BEGIN
+  SELECT decrypted_secret INTO project_url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO anon_key FROM vault.decrypted_secrets WHERE name = 'anon_key';
+  SELECT decrypted_secret INTO cron_secret FROM vault.decrypted_secrets WHERE name = 'cron_secret';
+
+  IF project_url IS NULL OR anon_key IS NULL OR cron_secret IS NULL THEN
+    RAISE WARNING 'invoke_edge_function: vault secrets project_url/anon_key/cron_secret not configured';
+    RETURN NULL;
+  END IF;
+
+  RETURN net.http_post(
+    url := project_url || '/functions/v1/' || function_name,
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || anon_key,
+      'x-cron-secret', cron_secret
+    ),
+    body := body
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION invoke_edge_function(text, jsonb) FROM PUBLIC, anon, authenticated;
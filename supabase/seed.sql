@@ -0,0 +1,67 @@
+/*
+  Testdata voor een lokale database
+
+  Draait automatisch na de migraties bij `supabase db reset`, of handmatig:
+    psql "$DATABASE_URL" -f supabase/seed.sql
+
+  Alle tijden zijn relatief aan now(), zodat het dashboard met "Afgelopen 7 dagen"
+  direct gevuld is. `session_stats` wordt door de triggers op `messages` gevuld.
+
+  Controle van de dashboard RPC:
+    SELECT jsonb_pretty(dashboard_data)
+    FROM get_dashboard_stats(current_date - 6, current_date);
+*/
+
+-- Sessies: offset van de start in uren en duur in minuten (NULL = nog actief)
+WITH seed (session_id, hours_ago, duration_minutes, status, is_relevant, is_archived, trashed) AS (
+  VALUES
+    ('seed-0001', 2,   NULL::numeric, 'active',    false, false, false),
+    ('seed-0002', 5,   4.5,  'completed', true,  false, false),
+    ('seed-0003', 9,   12,   'completed', false, false, false),
+    ('seed-0004', 26,  1.2,  'error',     false, false, false),
+    ('seed-0005', 30,  18,   'completed', true,  false, false),
+    ('seed-0006', 50,  7,    'completed', false, false, false),
+    ('seed-0007', 75,  25,   'completed', false, false, false),
+    ('seed-0008', 98,  3,    'completed', false, true,  false),
+    ('seed-0009', 122, 45,   'completed', true,  false, false),
+    ('seed-0010', 145, 9.5,  'completed', false, false, false),
+    ('seed-0011', 160, 65,   'completed', false, false, false),
+    ('seed-0012', 100, 6,    'completed', false, false, true)
+)
+INSERT INTO sessions (session_id, start_time, end_time, status, heygen_status, is_relevant, is_archived, deleted_at)
+SELECT
+  session_id,
+  now() - make_interval(hours => hours_ago),
+  now() - make_interval(hours => hours_ago) + make_interval(secs => duration_minutes * 60),
+  status,
+  status,
+  is_relevant,
+  is_archived,
+  CASE WHEN trashed THEN now() - interval '1 day' END
+FROM seed
+ON CONFLICT (session_id) DO NOTHING;
+
+-- Per sessie een gesprek, om en om gebruiker en adviseur, verspreid over de duur
+WITH lines (position, sender, message) AS (
+  VALUES
+    (1, 'avatar', 'Hallo! Ik ben je PhD adviseur. Waar kan ik je mee helpen?'),
+    (2, 'user',   'Ik loop vast met de planning van mijn promotietraject.'),
+    (3, 'avatar', 'Dat is heel herkenbaar. Heb je dit al met je promotor besproken?'),
+    (4, 'user',   'Nog niet, ik weet niet goed hoe ik het gesprek moet beginnen.'),
+    (5, 'avatar', 'Begin met een concreet overzicht van wat er nog moet gebeuren en waar je tegenaan loopt.'),
+    (6, 'user',   'Goed idee, en hoe zit het met subsidie voor een congres?'),
+    (7, 'avatar', 'Veel graduate schools hebben een reisbudget. Vraag het na bij je secretariaat.'),
+    (8, 'user',   'Dank je wel, dit helpt me verder.')
+)
+INSERT INTO messages (session_id, sender, message, timestamp)
+SELECT
+  s.session_id,
+  l.sender,
+  l.message,
+  s.start_time + (coalesce(s.end_time, now()) - s.start_time) * (l.position - 0.5) / 8
+FROM sessions s
+CROSS JOIN lines l
+WHERE s.session_id LIKE 'seed-%'
+  -- Korte sessies krijgen een korter gesprek
+  AND l.position <= CASE WHEN s.end_time - s.start_time < interval '2 minutes' THEN 2 ELSE 8 END
+ON CONFLICT ON CONSTRAINT messages_identity_key DO NOTHING;